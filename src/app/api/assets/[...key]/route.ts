@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import "@/lib/env-init";
+import { getStorage, isStorageKey, signedAssetUrl } from "@/lib/storage";
+import { verifyAssetSignature } from "@/lib/local-storage";
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+/**
+ * GET /api/assets/<key>
+ *
+ * With ?expires&signature (a local signed URL): serves the file, no sign-in needed.
+ * Without: the stable URL stored in the gallery. Signed-in users are redirected
+ * to a fresh signed URL (a presigned S3 URL, or this route with a signature).
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const key = (await params).key.join("/");
+    if (!isStorageKey(key)) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("signature")) {
+      if (!verifyAssetSignature(key, searchParams.get("expires"), searchParams.get("signature"))) {
+        return NextResponse.json({ error: "Invalid or expired link" }, { status: 403 });
+      }
+
+      const object = await getStorage().get(key);
+      if (!object) {
+        return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+      }
+
+      return new NextResponse(new Uint8Array(object.body), {
+        headers: {
+          "Content-Type": object.contentType,
+          "Content-Length": String(object.body.length),
+          // Content-hash keys never change
+          "Cache-Control": "private, max-age=31536000, immutable",
+          "X-Content-Type-Options": "nosniff",
+        },
+      });
+    }
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.redirect(await signedAssetUrl(key, request.url));
+  } catch (error) {
+    console.error("Error serving asset:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load asset" },
+      { status: 500 }
+    );
+  }
+}
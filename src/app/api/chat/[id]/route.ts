@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { cancelOperation } from "@/lib/cancellation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Cancel an in-flight chat turn by the requestId it was sent with: stops the
+ * agent, the turn's generation jobs and the remaining plan steps
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!cancelOperation(id, userId)) {
+      return NextResponse.json({ error: "No running request with this id" }, { status: 404 });
+    }
+
+    return NextResponse.json({ cancelled: true });
+  } catch (error) {
+    console.error("Error cancelling chat request:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel request" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,179 +1,303 @@
 import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { auth } from "@clerk/nextjs/server";
 // IMPORTANT: Import env-init FIRST to ensure environment variables are loaded
 import "@/lib/env-init";
-import { getGeminiAgent } from "@/lib/gemini-agent";
-import { getMCPClient } from "@/lib/mcp-client";
+import { getAgentForSession } from "@/lib/gemini-agent";
+import { getMCPClient, type MCPTool } from "@/lib/mcp-client";
+import { describeIntent, routeIntent, type ChatContext } from "@/lib/intent-router";
+import { getChatHistory, saveChatHistory } from "@/lib/chat-sessions";
+import { buildSessionKey, getAgentSessionStore } from "@/lib/agent-session-store";
+import type { ChatEventEmitter, ToolCall } from "@/lib/tool-execution";
+import { executeToolCallsAsJobs } from "@/lib/job-queue";
+import { hasRemainingSteps, startPlanRun } from "@/lib/plan-executor";
+import { encodeSSE, SSE_HEADERS, SSE_KEEPALIVE, SSE_KEEPALIVE_INTERVAL_MS } from "@/lib/sse";
+import { isCancelledError, registerCancellable, throwIfCancelled } from "@/lib/cancellation";
+import { enforceRateLimit, isRateLimitError, rateLimitResponse, requesterKey } from "@/lib/rate-limit";
+import { assertGenerationQuotaLeft } from "@/lib/quotas";
+import { signAssetUrls } from "@/lib/storage";
+import { applyReferenceImages, describeReferences, normalizeReferenceImages } from "@/lib/reference-params";
+import type { ChatResponse, ChatStreamEvent, ChatToolResult } from "@/types/chat-stream";
 
-export async function POST(request: NextRequest) {
-  try {
-    const { message, currentParams, toolCalls: directToolCalls } = await request.json();
+interface ChatRequestBody {
+  message: string;
+  currentParams?: ChatContext & Record<string, unknown>;
+  toolCalls?: ToolCall[];
+  operation?: { name: string; params?: Record<string, unknown> }; // One-click operation: run via the registry, never the agent
+  sessionId?: string; // Saved chat session (signed-in users)
+  agentSessionId?: string; // Per-tab conversation id when there is no saved session
+  stream?: boolean; // Respond with Server-Sent Events instead of JSON
+  requestId?: string; // Client-chosen id for cancelling the turn (DELETE /api/chat/:requestId)
+}
 
-    if (!message) {
-      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+/**
+ * Run one chat turn: intent routing, agent (or direct tool calls), MCP tool execution, then
+ * the rest of the execution plan if the agent returned one.
+ * Progress is reported through emit when streaming. Tool calls count against
+ * the requester's daily generation quota.
+ */
+async function runChatTurn(
+  body: ChatRequestBody,
+  userId: string,
+  requester: string,
+  emit?: ChatEventEmitter
+): Promise<ChatResponse> {
+  // Disconnecting doesn't stop a turn; cancelling it by requestId does
+  const { signal, release } = registerCancellable(body.requestId || randomUUID(), userId);
+
+  try {
+    return await executeChatTurn(body, userId, requester, signal, emit);
+  } catch (error) {
+    if (signal.aborted || isCancelledError(error)) {
+      console.log("Chat API: Turn cancelled");
+      return { message: "Cancelled", cancelled: true };
     }
+    throw error;
+  } finally {
+    release();
+  }
+}
+
+async function executeChatTurn(
+  body: ChatRequestBody,
+  userId: string,
+  requester: string,
+  signal: AbortSignal,
+  emit?: ChatEventEmitter
+): Promise<ChatResponse> {
+  const { message, currentParams, toolCalls: directToolCalls, operation, sessionId, agentSessionId } = body;
 
-    // Initialize services
-    const agent = getGeminiAgent();
-    const mcpClient = getMCPClient();
+  const tools = await getConnectedTools();
+  console.log("Chat API: Discovered MCP tools:", tools.map(t => t.name));
 
-    // Connect to MCP if not already connected
-    if (!mcpClient.isConnected()) {
-      console.log("Chat API: Connecting to MCP...");
-      await mcpClient.connect();
-      console.log("Chat API: MCP connected");
+  throwIfCancelled(signal);
+  let response: ChatResponse;
+
+  // If direct tool calls are provided, skip agent and execute directly
+  if (directToolCalls && directToolCalls.length > 0) {
+    console.log("Chat API: Direct tool execution (bypassing agent):", directToolCalls);
+    response = {
+      message: "Direct execution",
+      toolCalls: directToolCalls,
+    };
+  } else {
+    // Deterministic routing first: explicit operations skip the agent entirely
+    const context = operationContext(body);
+    const route = routeIntent(message, context, tools);
+    console.log(`Chat API: Intent ${describeIntent(route.decision)}`);
+    if (operation && !route.toolCall) {
+      // Refused with 422 in POST; only reached if the tools changed since
+      throw new Error(route.decision.reason);
     }
+    emit?.({ type: "intent_decision", decision: route.decision });
+
+    // Each conversation gets its own agent and history, scoped to the user
+    const persistSession = !!sessionId;
+    const sessionKey = buildSessionKey(userId, sessionId || agentSessionId || randomUUID());
+    const sessionStore = getAgentSessionStore();
 
-    // Initialize agent with MCP tools (dynamic discovery)
-    const tools = mcpClient.getTools();
-    console.log("Chat API: Discovered MCP tools:", tools.map(t => t.name));
-    
+    const agent = getAgentForSession(sessionKey);
+    // Initialize agent with MCP tools (dynamic discovery) - keeps existing history
     agent.initializeWithMCPTools(tools);
 
-    let response;
-    
-    // If direct tool calls are provided, skip agent and execute directly
-    if (directToolCalls && directToolCalls.length > 0) {
-      console.log("Chat API: Direct tool execution (bypassing agent):", directToolCalls);
-      response = {
-        message: "Direct execution",
-        toolCalls: directToolCalls,
-      };
+    // The session store is the source of truth; fall back to the saved chat
+    // session when the store entry has expired
+    let history = await sessionStore.load(sessionKey);
+    if (!history && persistSession) {
+      history = await getChatHistory(userId, sessionId!);
+    }
+    agent.setChatHistory(history || []);
+
+    if (route.toolCall) {
+      response = { message: route.reply!, toolCalls: [route.toolCall] };
+      agent.recordTurn(message, response.message);
     } else {
-      // Send message to agent with current UI parameters
-      response = await agent.sendMessage(message, currentParams);
+      // Send message to agent with current UI parameters and the router's decision
+      response = await agent.sendMessage(
+        message,
+        currentParams,
+        emit ? (delta) => emit({ type: "text_delta", delta }) : undefined,
+        signal,
+        route.decision
+      );
+    }
+    response.intent = route.decision;
+
+    // Reference images go where their roles say, whatever the agent put in the args
+    // (for videos: the image to animate)
+    const references = normalizeReferenceImages(context?.reference_image);
+    const usesReferences = ["reference_generation", "video_generation"].includes(route.decision.intent);
+    if (usesReferences && references.length > 0 && response.toolCalls) {
+      response.toolCalls = response.toolCalls.map((call) => {
+        const { toolCall, unmapped } = applyReferenceImages(call, references, tools);
+        if (unmapped.length > 0) {
+          console.warn(`Chat API: ${call.name} has no parameter for ${unmapped.length} reference image(s)`);
+          response.message += `\n\n${call.name} has no parameter for ${describeReferences(unmapped)}, so ${
+            unmapped.length === 1 ? "it was" : "they were"
+          } left out.`;
+        }
+        return toolCall;
+      });
+    }
+
+    await sessionStore.save(sessionKey, agent.getChatHistory());
+    if (persistSession) {
+      await saveChatHistory(userId, sessionId!, agent.getChatHistory());
     }
+  }
+
+  if (response.execution_plan) {
+    emit?.({ type: "execution_plan", plan: response.execution_plan });
+  }
+
+  if (response.planError) {
+    emit?.({ type: "error", message: response.planError });
+  }
+
+  // If the agent called tools, execute them via MCP (as generation jobs, so
+  // they finish even if the client goes away). Videos take minutes: unless a
+  // later plan step needs their output, the turn ends once they are queued and
+  // the client follows their jobs.
+  const plan = response.execution_plan;
+  let toolResults: ChatToolResult[] | undefined;
+  if (response.toolCalls && response.toolCalls.length > 0) {
+    console.log("Chat API: Agent requested tool calls:", response.toolCalls);
+    toolResults = await executeToolCallsAsJobs(response.toolCalls, {
+      clerkId: userId,
+      requester,
+      detachVideos: !hasRemainingSteps(plan),
+      emit,
+      signal,
+    });
+  }
+
+  // Remaining plan steps run server-side (not bound to this request)
+  const planRun = hasRemainingSteps(plan) && !signal.aborted
+    ? await startPlanRun(plan, { completedResults: toolResults || [], clerkId: userId, requester, emit, signal }).done
+    : undefined;
+
+  if (!toolResults && !planRun && !signal.aborted) {
+    return response;
+  }
+
+  return {
+    ...response,
+    toolResults,
+    planRun,
+    execution_plan: response.execution_plan, // Pass through from agent
+    cancelled: signal.aborted || undefined,
+  };
+}
+
+async function getConnectedTools(): Promise<MCPTool[]> {
+  const mcpClient = getMCPClient();
+
+  // Connect to MCP if not already connected
+  if (!mcpClient.isConnected()) {
+    console.log("Chat API: Connecting to MCP...");
+    await mcpClient.connect();
+    console.log("Chat API: MCP connected");
+  }
+
+  return mcpClient.getTools();
+}
+
+// The context to route: a one-click operation overrides the UI's ai_operation
+function operationContext({ currentParams, operation }: ChatRequestBody): ChatContext | undefined {
+  return operation ? { ...currentParams, ai_operation: operation } : currentParams;
+}
 
-    // If the agent called tools, execute them via MCP
-    if (response.toolCalls && response.toolCalls.length > 0) {
-      console.log("Chat API: Agent requested tool calls:", response.toolCalls);
-      
-      const toolResults = [];
-      for (const toolCall of response.toolCalls) {
+/**
+ * Stream a chat turn as Server-Sent Events, ending with a "done" event that
+ * carries the same payload as the JSON response.
+ */
+function streamChatTurn(body: ChatRequestBody, userId: string, requester: string): Response {
+  // The turn (and any plan run) keeps going if the client disconnects;
+  // events are simply dropped from then on
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: ChatStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encodeSSE(event));
+        } catch {
+          closed = true;
+        }
+      };
+
+      // Plan steps that render videos can keep the turn quiet for minutes
+      const keepalive = setInterval(() => {
+        if (closed) return;
         try {
-          console.log(`\n[Chat API] ===== Executing MCP tool: ${toolCall.name} =====`);
-          console.log(`[Chat API] Tool args:`, JSON.stringify(toolCall.args, null, 2));
-          console.log(`[Chat API] Timestamp:`, new Date().toISOString());
-          
-          // Execute the MCP tool and wait for result
-          const result = await mcpClient.callTool(toolCall.name, toolCall.args);
-          console.log(`[Chat API] Tool ${toolCall.name} SUCCESS`);
-          console.log(`[Chat API] Raw result:`, JSON.stringify(result).substring(0, 500));
-          
-          // Extract image URL and structured prompt from result
-          let mediaUrl = "";
-          let imageUrl = ""; // MCP-provided URL for reuse
-          let structuredPrompt = null;
-          let mediaType = "image";
-          
-          if (result.content && result.content.length > 0) {
-            // Check all content items
-            for (const content of result.content) {
-              if (content.type === "text" && content.text) {
-                // Extract image URL from "for full image Preview use: [URL]" format (case-insensitive)
-                const urlMatch = content.text.match(/for full image Preview use:\s*(https?:\/\/[^\s]+)/i);
-                if (urlMatch && urlMatch[1]) {
-                  imageUrl = urlMatch[1];
-                  console.log(`Chat API: Extracted MCP image URL:`, imageUrl);
-                }
-                
-                // Extract structured prompt (JSON string)
-                // It's a complete JSON object, not embedded in text
-                try {
-                  // Try to parse the entire text as JSON
-                  const parsed = JSON.parse(content.text);
-                  if (parsed && typeof parsed === 'object' && 
-                      (parsed.short_description || parsed.objects || parsed.aesthetics)) {
-                    structuredPrompt = parsed;
-                    console.log(`Chat API: Extracted structured prompt`);
-                  }
-                } catch (e) {
-                  // Not JSON, continue
-                }
-              }
-            }
-            
-            // Find image content for display
-            const imageContent = result.content.find((c: any) => 
-              c.type === "image" || c.mimeType?.startsWith("image/")
-            );
-            
-            if (imageContent) {
-              console.log(`Chat API: Content type: ${imageContent.type}, mimeType: ${imageContent.mimeType}`);
-              
-              // Prefer MCP URL, fall back to base64
-              if (imageUrl) {
-                mediaUrl = imageUrl;
-                console.log(`Chat API: Using MCP URL (token-efficient)`);
-              } else {
-                // Fallback to base64
-                const imageData = imageContent.data || imageContent.text || "";
-                if (imageData && !imageData.startsWith("data:")) {
-                  const mimeType = imageContent.mimeType || "image/jpeg";
-                  mediaUrl = `data:${mimeType};base64,${imageData}`;
-                  console.log(`Chat API: Using base64 (no URL available)`);
-                } else {
-                  mediaUrl = imageData;
-                }
-              }
-            }
-          }
-          
-          console.log(`Chat API: Final media URL:`, mediaUrl.substring(0, 100));
-          if (structuredPrompt) {
-            console.log(`Chat API: Structured prompt available:`, !!structuredPrompt);
-          }
-          
-          toolResults.push({
-            name: toolCall.name,
-            result,
-            mediaUrl,
-            imageUrl, // Store URL separately for context reuse
-            structuredPrompt, // Store structured prompt for Priority 4
-            mediaType,
-          });
-        } catch (err: any) {
-          console.error(`\n[Chat API] ===== Tool ${toolCall.name} FAILED =====`);
-          console.error(`[Chat API] Error message:`, err?.message || err);
-          console.error(`[Chat API] Error code:`, err?.code);
-          console.error(`[Chat API] Original error:`, err?.originalError);
-          console.error(`[Chat API] Tool args were:`, JSON.stringify(toolCall.args, null, 2));
-          console.error(`[Chat API] Full error object:`, JSON.stringify(err, Object.getOwnPropertyNames(err), 2).substring(0, 1000));
-          
-          // Detect and format content moderation errors nicely
-          let errorMessage = err instanceof Error ? err.message : String(err);
-          let isContentModeration = false;
-          
-          if (errorMessage.includes("content moderation") || errorMessage.includes("422")) {
-            isContentModeration = true;
-            // Extract the actual error message if possible
-            const match = errorMessage.match(/prompt did not pass content moderation/i);
-            if (match) {
-              errorMessage = "Content Moderation: Your prompt was flagged by our content moderation system. Please try rephrasing your request to be more general or remove any potentially sensitive content.";
-            }
-          }
-          
-          toolResults.push({
-            name: toolCall.name,
-            error: errorMessage,
-            isContentModeration,
-            errorDetails: {
-              code: err?.code,
-              args: toolCall.args,
-              timestamp: new Date().toISOString()
-            }
-          });
+          controller.enqueue(SSE_KEEPALIVE);
+        } catch {
+          closed = true;
+        }
+      }, SSE_KEEPALIVE_INTERVAL_MS);
+
+      try {
+        const response = await runChatTurn(body, userId, requester, emit);
+        emit({ type: "done", response });
+      } catch (error) {
+        console.error("Error in chat API stream:", error);
+        emit({ type: "error", message: error instanceof Error ? error.message : "Internal server error" });
+      } finally {
+        clearInterval(keepalive);
+        if (!closed) {
+          closed = true;
+          controller.close();
         }
       }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
 
-      return NextResponse.json({
-        ...response,
-        toolResults,
-        execution_plan: response.execution_plan, // Pass through from agent
-      });
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ChatRequestBody;
+
+    if (!body.message) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+
+    // Generation requires sign-in; rejected before the agent or MCP are called,
+    // so an exhausted quota costs nothing
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in to generate", code: "unauthorized" }, { status: 401 });
     }
+    const requester = requesterKey(userId, request);
+    enforceRateLimit("chat", requester);
+    await assertGenerationQuotaLeft(requester);
 
-    return NextResponse.json(response);
+    // Stored images are referenced by app URLs; tools get signed ones they can fetch
+    body.currentParams = await signAssetUrls(body.currentParams, request.url);
+    body.toolCalls = await signAssetUrls(body.toolCalls, request.url);
+
+    // A one-click operation the context can't run (unknown, or inputs missing) is bad input
+    if (body.operation && !body.toolCalls?.length) {
+      const route = routeIntent(body.message, operationContext(body), await getConnectedTools());
+      if (!route.toolCall) {
+        return NextResponse.json({ error: route.decision.reason, code: "invalid_operation" }, { status: 422 });
+      }
+    }
+
+    if (body.stream) {
+      return streamChatTurn(body, userId, requester);
+    }
+
+    return NextResponse.json(await runChatTurn(body, userId, requester));
   } catch (error) {
+    if (isRateLimitError(error)) {
+      return rateLimitResponse(error);
+    }
     console.error("Error in chat API:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Internal server error" },
@@ -181,4 +305,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
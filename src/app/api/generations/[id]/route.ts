@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deleteGeneration, getGeneration } from "@/lib/generations";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const item = await getGeneration(userId, id);
+
+    if (!item) {
+      return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("Error fetching generation:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch generation" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteGeneration(userId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting generation:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete generation" },
+      { status: 500 }
+    );
+  }
+}
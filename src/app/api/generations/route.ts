@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isInvalidCursorError, listGenerations, saveGeneration } from "@/lib/generations";
+import { isMirrorableUrl, mirrorMedia } from "@/lib/storage";
+
+// GET /api/generations?limit=20&before=<cursor> - newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get("limit")) || undefined;
+    const before = searchParams.get("before");
+
+    const page = await listGenerations(userId, { limit, before });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error listing generations:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list generations" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/generations - persist a gallery item
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { item } = await request.json();
+
+    if (!item?.id || !item?.url) {
+      return NextResponse.json({ error: "Item id and url are required" }, { status: 400 });
+    }
+
+    // Keep a copy in storage; Bria links expire and data URLs bloat the document.
+    // Only media hosts are fetched - other URLs are saved as sent.
+    const store = async (mediaUrl: string) => {
+      if (!isMirrorableUrl(mediaUrl)) return mediaUrl;
+      return mirrorMedia(mediaUrl).catch((error) => {
+        console.warn("Generations API: Failed to store media:", error instanceof Error ? error.message : error);
+        return mediaUrl;
+      });
+    };
+    const url = await store(item.url);
+    const posterUrl = typeof item.posterUrl === "string" && item.posterUrl ? await store(item.posterUrl) : undefined;
+
+    const saved = await saveGeneration(userId, { ...item, url, posterUrl });
+
+    return NextResponse.json({ item: saved }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving generation:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save generation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+// IMPORTANT: Import env-init FIRST to ensure environment variables are loaded
+import "@/lib/env-init";
+import { getMCPClient } from "@/lib/mcp-client";
+import { getAgentProvider } from "@/lib/agent-provider";
+import { isAdmin } from "@/lib/auth";
+
+type HealthStatus = "ok" | "degraded" | "down";
+
+const AGENT_CHECK_TIMEOUT_MS = 5000;
+const AGENT_CHECK_TTL_MS = 60000;
+
+// Last agent check (or the one in flight), shared by every probe until it expires
+let agentCheck: { result: ReturnType<typeof checkAgent>; expiresAt: number } | null = null;
+
+/**
+ * MCP as the connections last saw it (pings keep it current); the probe never
+ * connects. Down when the primary (Bria) server is disconnected, degraded when
+ * another server is, or before anything has connected (servers connect on first use).
+ */
+function checkMCP() {
+  const mcpClient = getMCPClient();
+  const servers = mcpClient.getServerHealth();
+  if (servers.length === 0) {
+    return { status: "degraded" as HealthStatus, error: "Not connected yet", toolCount: 0, servers };
+  }
+
+  const primary = servers.find((server) => server.primary);
+  const status: HealthStatus = primary?.status !== "connected"
+    ? "down"
+    : servers.every((server) => server.status === "connected") ? "ok" : "degraded";
+
+  return { status, toolCount: mcpClient.getTools().length, servers };
+}
+
+/**
+ * Agent model (Gemini by default): a cheap request with the configured key and model.
+ * It is still a paid request and the route is public, so it runs at most once per
+ * AGENT_CHECK_TTL_MS (see cachedAgentCheck).
+ */
+async function checkAgent() {
+  const started = Date.now();
+
+  try {
+    const provider = getAgentProvider();
+    await provider.checkHealth(AbortSignal.timeout(AGENT_CHECK_TIMEOUT_MS));
+    return {
+      status: "ok" as HealthStatus,
+      provider: provider.name,
+      model: provider.model,
+      latencyMs: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      status: "down" as HealthStatus,
+      provider: process.env.AGENT_PROVIDER || "gemini",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+function cachedAgentCheck() {
+  if (!agentCheck || agentCheck.expiresAt <= Date.now()) {
+    agentCheck = { result: checkAgent(), expiresAt: Date.now() + AGENT_CHECK_TTL_MS };
+  }
+  return agentCheck.result;
+}
+
+/**
+ * Health of the services a chat turn depends on. 503 when any of them is down.
+ */
+export async function GET() {
+  const mcp = checkMCP();
+  const agent = await cachedAgentCheck();
+
+  const status: HealthStatus = mcp.status === "down" || agent.status === "down"
+    ? "down"
+    : mcp.status === "degraded" ? "degraded" : "ok";
+
+  // Server URLs and errors are for admins; anyone else only gets the overall status
+  const details = (await isAdmin()) ? { mcp, agent } : {};
+  return NextResponse.json(
+    { status, checkedAt: new Date().toISOString(), ...details },
+    { status: status === "down" ? 503 : 200 }
+  );
+}
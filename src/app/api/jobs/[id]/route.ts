@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { cancelJob, getJob } from "@/lib/job-queue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getJob(id);
+
+    // Jobs are private to the user who started them
+    if (!job || job.clerkId !== userId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch job" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs/:id - cancel a queued or running job
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job || job.clerkId !== userId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job: (await cancelJob(id)) || job });
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getJob, isTerminal, subscribeToJob } from "@/lib/job-queue";
+import { encodeSSE, SSE_HEADERS, SSE_KEEPALIVE, SSE_KEEPALIVE_INTERVAL_MS } from "@/lib/sse";
+import type { GenerationJob, JobStreamEvent } from "@/types/jobs";
+
+// Jobs running in another server instance are picked up by polling the store
+const POLL_INTERVAL_MS = 2000;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Server-Sent Events with the job's state on every change, ending once the
+ * job reaches a terminal state
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const initial = await getJob(id);
+
+  if (!initial || initial.clerkId !== userId) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let lastSnapshot = "";
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: JobStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encodeSSE(event));
+        } catch {
+          closed = true;
+          cleanup();
+        }
+      };
+
+      const publish = (job: GenerationJob) => {
+        // Polling and local notifications overlap; skip unchanged states
+        const snapshot = JSON.stringify(job);
+        if (snapshot === lastSnapshot) return;
+        lastSnapshot = snapshot;
+        send({ type: "job", job });
+        if (isTerminal(job)) close();
+      };
+
+      const unsubscribe = subscribeToJob(id, (job, event) => {
+        // State changes only; tool events are for the chat stream
+        if (!event || event.type === "tool_progress") publish(job);
+      });
+
+      const poll = setInterval(async () => {
+        try {
+          const job = await getJob(id);
+          if (job) publish(job);
+        } catch (error) {
+          send({ type: "error", message: error instanceof Error ? error.message : "Failed to fetch job" });
+        }
+      }, POLL_INTERVAL_MS);
+
+      const keepalive = setInterval(() => {
+        if (closed) return;
+        try {
+          controller.enqueue(SSE_KEEPALIVE);
+        } catch {
+          closed = true;
+          cleanup();
+        }
+      }, SSE_KEEPALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(keepalive);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+        cleanup();
+      });
+
+      publish(initial);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getMCPClient } from "@/lib/mcp-client";
+import { enqueueToolJob } from "@/lib/job-queue";
+import { getJobStore } from "@/lib/job-store";
+import { enforceRateLimit, isRateLimitError, rateLimitResponse, requesterKey } from "@/lib/rate-limit";
+import { consumeGenerationQuota, refundGenerationQuota } from "@/lib/quotas";
+import { signAssetUrls } from "@/lib/storage";
+
+// GET /api/jobs - the signed-in user's queued and running jobs
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const jobs = await getJobStore().listActive(userId);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("Error listing jobs:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/jobs - queue an MCP tool call as a generation job
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { toolName, args, mediaType, label } = await request.json();
+
+    if (!toolName) {
+      return NextResponse.json({ error: "Tool name is required" }, { status: 400 });
+    }
+
+    // A queued tool call is a direct tool call: same limit and quota as /api/mcp-tools
+    const requester = requesterKey(userId, request);
+    enforceRateLimit("mcp-tools", requester);
+
+    const mcpClient = getMCPClient();
+
+    // Connect if not already connected
+    if (!mcpClient.isConnected()) {
+      await mcpClient.connect();
+    }
+
+    if (!mcpClient.getTools().some((tool) => tool.name === toolName)) {
+      return NextResponse.json({ error: `Unknown tool: ${toolName}` }, { status: 400 });
+    }
+
+    const toolArgs = await signAssetUrls(args || {}, request.url);
+
+    // Charged once the job is accepted; the queue refunds it unless the job succeeds
+    await consumeGenerationQuota(requester);
+
+    const job = await enqueueToolJob({
+      clerkId: userId,
+      toolName,
+      args: toolArgs,
+      mediaType: mediaType === "video" || mediaType === "image" ? mediaType : undefined, // Else by tool name
+      label,
+      requester,
+    }).catch(async (error) => {
+      await refundGenerationQuota(requester);
+      throw error;
+    });
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      return rateLimitResponse(error);
+    }
+    console.error("Error creating job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create job" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getMCPClient } from "@/lib/mcp-client";
+import { auth } from "@clerk/nextjs/server";
+import { getMCPClient, type MCPServerHealth } from "@/lib/mcp-client";
+import { isAdmin } from "@/lib/auth";
+import { isCancelledError } from "@/lib/cancellation";
+import { isToolArgsValidationError } from "@/lib/tool-args";
+import { enforceRateLimit, isRateLimitError, rateLimitResponse, requesterKey } from "@/lib/rate-limit";
+import { consumeGenerationQuota, refundGenerationQuota } from "@/lib/quotas";
+import { signAssetUrls } from "@/lib/storage";
+
+// Server URLs and raw connection errors are for admins
+function publicServerHealth(servers: MCPServerHealth[]) {
+  return servers.map((server) => ({ ...server, url: undefined, lastError: undefined }));
+}
 
 export async function GET() {
-  try {
-    const mcpClient = getMCPClient();
+  const mcpClient = getMCPClient();
+  const admin = await isAdmin();
+  const serverHealth = () => (admin ? mcpClient.getServerHealth() : publicServerHealth(mcpClient.getServerHealth()));
 
+  try {
     // Connect if not already connected
     if (!mcpClient.isConnected()) {
       await mcpClient.connect();
     }
 
-    // Get available tools
+    // Get available tools (namespaced per server), any operations they can't serve, and each server's health
     const tools = mcpClient.getTools();
 
-    return NextResponse.json({ tools });
+    return NextResponse.json({
+      tools,
+      operationIssues: mcpClient.getOperationIssues(),
+      servers: serverHealth(),
+    });
   } catch (error) {
     console.error("Error listing MCP tools:", error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to list tools" },
+      {
+        error: admin && error instanceof Error ? error.message : "Failed to list tools",
+        servers: serverHealth(),
+      },
       { status: 500 }
     );
   }
 }
 
 export async function POST(request: NextRequest) {
+  let chargedRequester: string | null = null;
+
   try {
     const { toolName, args } = await request.json();
 
@@ -31,6 +54,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Tool name is required" }, { status: 400 });
     }
 
+    // A direct tool call is a generation like any other
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in to generate", code: "unauthorized" }, { status: 401 });
+    }
+    const requester = requesterKey(userId, request);
+    enforceRateLimit("mcp-tools", requester);
+    await consumeGenerationQuota(requester);
+    chargedRequester = requester;
+
     const mcpClient = getMCPClient();
 
     // Connect if not already connected
@@ -38,11 +71,34 @@ export async function POST(request: NextRequest) {
       await mcpClient.connect();
     }
 
-    // Execute tool
-    const result = await mcpClient.callTool(toolName, args || {});
+    const toolArgs = await signAssetUrls(args || {}, request.url);
+
+    // Execute tool - the call is abandoned if the client aborts the request
+    const result = await mcpClient.callTool(toolName, toolArgs, { signal: request.signal });
+    if (result.isError) {
+      await refundGenerationQuota(requester);
+    }
 
     return NextResponse.json(result);
   } catch (error) {
+    // Only calls that produced a result count against the quota
+    if (chargedRequester) {
+      await refundGenerationQuota(chargedRequester);
+    }
+    if (isRateLimitError(error)) {
+      return rateLimitResponse(error);
+    }
+    if (isCancelledError(error)) {
+      // 499: client closed the request (nobody is listening for the body)
+      return NextResponse.json({ error: "Cancelled", cancelled: true }, { status: 499 });
+    }
+    if (isToolArgsValidationError(error)) {
+      // Structured so the caller (or the agent) can fix the args and retry
+      return NextResponse.json(
+        { error: error.message, code: error.code, tool: error.toolName, issues: error.issues },
+        { status: 422 }
+      );
+    }
     console.error("Error calling MCP tool:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Tool execution failed" },
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMockMCPEnabled, renderPlaceholderSVG } from "@/lib/mock-mcp";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Preview URL target of the mock MCP server. The image is rendered from the
+ * id and query, so URLs stay valid across restarts.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isMockMCPEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { id } = await params;
+  if (!/^[0-9a-f]{8,64}$/.test(id)) {
+    return NextResponse.json({ error: "Invalid image id" }, { status: 400 });
+  }
+
+  const query = request.nextUrl.searchParams;
+  const svg = renderPlaceholderSVG({
+    id,
+    tool: query.get("tool") || "text_to_image",
+    aspectRatio: query.get("ar") || undefined,
+    label: query.get("label") || undefined,
+  });
+
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import {
+  handleMockMCPMessage,
+  isAuthorizedMockRequest,
+  isMockMCPEnabled,
+  MockHTTPError,
+  pickMockFailure,
+  simulateHTTPFailure,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+} from "@/lib/mock-mcp";
+import { isCancelledError } from "@/lib/cancellation";
+
+const encoder = new TextEncoder();
+
+// Streamable HTTP framing: one "data:" line per JSON-RPC message
+function encodeMessage(message: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Local mock Bria MCP endpoint (see src/lib/mock-mcp.ts). Disabled in
+ * production unless MOCK_MCP_ENABLED=true.
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockMCPEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  if (!isAuthorizedMockRequest(request.headers.get("api_token"))) {
+    return NextResponse.json({ error: "Invalid or missing api_token" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } },
+      { status: 400 }
+    );
+  }
+
+  const messages = (Array.isArray(body) ? body : [body]) as JsonRpcMessage[];
+  const hasRequests = messages.some((message) => message.id !== undefined && message.id !== null);
+  if (!hasRequests) {
+    // Only notifications/responses: acknowledged without a body
+    return new Response(null, { status: 202 });
+  }
+
+  const failure = messages.map(pickMockFailure).find((f) => f !== null) ?? null;
+  try {
+    await simulateHTTPFailure(failure, request.signal);
+  } catch (error) {
+    if (error instanceof MockHTTPError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (isCancelledError(error)) {
+      return new Response(null, { status: 499 });
+    }
+    throw error;
+  }
+
+  const headers: Record<string, string> = {};
+  if (messages.some((message) => message.method === "initialize")) {
+    headers["Mcp-Session-Id"] = randomUUID();
+  }
+
+  const context = { baseUrl: process.env.MOCK_MCP_PUBLIC_URL || request.nextUrl.origin, signal: request.signal };
+  const accept = request.headers.get("accept") || "";
+
+  // Plain JSON only when the client doesn't accept event streams
+  if (accept.includes("application/json") && !accept.includes("text/event-stream")) {
+    const responses = (
+      await Promise.all(messages.map((message) => handleMockMCPMessage(message, context, failure)))
+    ).filter((response): response is JsonRpcResponse => response !== null);
+
+    return NextResponse.json(Array.isArray(body) ? responses : responses[0], { headers });
+  }
+
+  // SSE: progress notifications first, then each response
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: unknown) => {
+        try {
+          controller.enqueue(encodeMessage(message));
+        } catch {
+          // Client went away
+        }
+      };
+
+      try {
+        for (const message of messages) {
+          const response = await handleMockMCPMessage(message, { ...context, notify: send }, failure);
+          if (response) send(response);
+        }
+      } catch (error) {
+        if (!isCancelledError(error)) {
+          console.error("[MockMCP] Request failed:", error);
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+// No server-initiated stream
+export async function GET() {
+  return NextResponse.json({ error: "Method not allowed" }, { status: 405, headers: { Allow: "POST, DELETE" } });
+}
+
+// Session termination - sessions hold no state here
+export async function DELETE() {
+  if (!isMockMCPEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getPlanRun } from "@/lib/plan-executor";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Per-step status of a server-side execution plan run
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const run = getPlanRun(id, userId);
+
+    if (!run) {
+      return NextResponse.json({ error: "Plan run not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Error fetching plan run:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch plan run" },
+      { status: 500 }
+    );
+  }
+}
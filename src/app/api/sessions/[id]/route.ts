@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deleteChatSession, getChatSession, updateChatSession } from "@/lib/chat-sessions";
+import { buildSessionKey, getAgentSessionStore } from "@/lib/agent-session-store";
+import { releaseAgentSession } from "@/lib/gemini-agent";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/sessions/:id - resume a session's workspace
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const session = await getChatSession(userId, id);
+
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error("Error fetching chat session:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch session" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/sessions/:id - rename and/or save workspace state
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { title, messages, activeItemId, params: generationParams } = await request.json();
+
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      return NextResponse.json({ error: "Title must be a non-empty string" }, { status: 400 });
+    }
+
+    const session = await updateChatSession(userId, id, {
+      title,
+      messages,
+      activeItemId,
+      params: generationParams,
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error("Error updating chat session:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update session" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteChatSession(userId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Drop the agent's cached conversation as well
+    const sessionKey = buildSessionKey(userId, id);
+    releaseAgentSession(sessionKey);
+    await getAgentSessionStore().delete(sessionKey);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting chat session:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete session" },
+      { status: 500 }
+    );
+  }
+}
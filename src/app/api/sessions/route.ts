@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createChatSession, listChatSessions } from "@/lib/chat-sessions";
+
+// GET /api/sessions - recent chats, most recently updated first
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const sessions = await listChatSessions(userId);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error listing chat sessions:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions - start a new chat session
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { title, messages, activeItemId, params } = await request.json();
+
+    const session = await createChatSession(userId, { title, messages, activeItemId, params });
+
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating chat session:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create session" },
+      { status: 500 }
+    );
+  }
+}
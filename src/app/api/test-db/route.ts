@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server';
 import { testMongoDbConnection } from '@/utils/test-db-connection';
+import { authErrorResponse, isAuthError, requireDevOrAdmin } from '@/lib/auth';
 
 export async function GET() {
   try {
+    await requireDevOrAdmin();
+
     const result = await testMongoDbConnection();
     
     if (result.success) {
@@ -11,6 +14,9 @@ export async function GET() {
       return NextResponse.json(result, { status: 500 });
     }
   } catch (error: any) {
+    if (isAuthError(error)) {
+      return authErrorResponse(error);
+    }
     return NextResponse.json(
       { success: false, message: 'Failed to test connection', error: error.message },
       { status: 500 }
@@ -1,7 +1,15 @@
 import { NextResponse } from "next/server";
 import { getEnv, hasEnv } from "@/lib/env";
+import { authErrorResponse, isAuthError, requireDevOrAdmin } from "@/lib/auth";
 
 export async function GET() {
+  try {
+    await requireDevOrAdmin();
+  } catch (error) {
+    if (isAuthError(error)) return authErrorResponse(error);
+    throw error;
+  }
+
   return NextResponse.json({
     // Check process.env first
     processEnv: {
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Outfit } from "next/font/google";
+import { ClerkProvider } from "@clerk/nextjs";
 import "./globals.css";
 import { AccessibilityProvider } from "@/context/AccessibilityContext";
 import { AccessibilityControls } from "@/components/layout/AccessibilityControls";
@@ -27,13 +28,15 @@ export default function RootLayout({
   children: React.ReactNode;
 }) {
   return (
-    <html lang="en" className="light" suppressHydrationWarning>
-      <body className={`${outfit.variable} outfit-app min-h-screen bg-background antialiased transition-colors`}>
-        <AccessibilityProvider>
-          {children}
-          <Toaster />
-        </AccessibilityProvider>
-      </body>
-    </html>
+    <ClerkProvider>
+      <html lang="en" className="light" suppressHydrationWarning>
+        <body className={`${outfit.variable} outfit-app min-h-screen bg-background antialiased transition-colors`}>
+          <AccessibilityProvider>
+            {children}
+            <Toaster />
+          </AccessibilityProvider>
+        </body>
+      </html>
+    </ClerkProvider>
   );
 }
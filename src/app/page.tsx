@@ -39,20 +39,27 @@ export default function Home() {
     generatedMedia,
     galleryItems,
     activeItemId,
+    hasMoreGallery,
+    sessionId,
+    recentSessions,
     isGenerating,
     error,
     editingState,
-    uploadedImageContext,
+    referenceImages,
     activeOperation,
     operationLoadingName,
     batchExecution,
+    cancelGeneration,
+    cancelJob,
     updateParams,
     generate,
     uploadImageForReference,
     uploadImageForDisplay,
     surpriseMe,
     clearError,
-    clearUploadedImageContext,
+    updateReferenceImage,
+    moveReferenceImage,
+    removeReferenceImage,
     setActiveItem,
     setActiveTool,
     updateSelection,
@@ -61,12 +68,17 @@ export default function Home() {
     updateTextLayer,
     updateImageAdjustments,
     setBrushSize,
-    clearEditingState,
     selectOperation,
     cancelOperation,
     executeOneClickOperation,
     setInpaintingMask,
     restoreParametersFromGallery,
+    loadMoreGallery,
+    deleteGalleryItem,
+    startNewSession,
+    resumeSession,
+    renameSession,
+    deleteSession,
   } = useBriaGeneration();
 
   // Inpainting state
@@ -89,17 +101,6 @@ export default function Home() {
   const SIDEBAR_WIDTH = 256; // 64 * 4 = 256px (w-64)
   const COLLAPSED_SIDEBAR_WIDTH = 64; // w-16 = 64px
 
-  // Define DEFAULT_PARAMS locally since it's not exported from the hook
-  const DEFAULT_PARAMS = {
-    mode: "image" as const,
-    model_version: "Fibo" as const,
-    modelInfluence: 0.8,
-    steps: 50,
-    aspectRatio: "1:1",
-    seed: "random",
-    prompt: "",
-  };
-
   const handleResizeMove = useCallback((e: MouseEvent) => {
     if (!isResizingRef.current) return;
     
@@ -187,22 +188,13 @@ export default function Home() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [editingState.activeTool, activeOperation, setActiveTool, cancelOperation]);
 
-  // Reset function - clears all state
+  // Reset function - starts a new chat session (gallery history is kept)
   const handleReset = useCallback(() => {
-    // Reset messages to initial state
-    updateParams(DEFAULT_PARAMS);
-    clearUploadedImageContext();
-    clearEditingState();
-    setActiveItem(undefined);
-    clearError();
+    startNewSession();
     // Reset local state
-    setShouldFocusPrompt(false);
     setCustomPlaceholder(undefined);
-    // Note: We can't directly reset messages/generatedMedia/galleryItems from here
-    // as they're managed by the hook. We'll need to add a reset function to the hook
-    // or use window.location.reload() for a full reset
-    window.location.reload();
-  }, [updateParams, clearUploadedImageContext, clearEditingState, setActiveItem, clearError]);
+    setShouldFocusPrompt(true);
+  }, [startNewSession]);
 
   return (
     <div className="flex flex-col h-screen overflow-hidden relative">
@@ -211,6 +203,11 @@ export default function Home() {
         isOpen={isSidebarOpen}
         onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
         onNewChat={handleReset}
+        recentChats={recentSessions}
+        activeChatId={sessionId}
+        onSelectChat={resumeSession}
+        onRenameChat={renameSession}
+        onDeleteChat={deleteSession}
       />
 
       {/* Main Content - Offset by sidebar width (expands in place) */}
@@ -230,7 +227,6 @@ export default function Home() {
               onParamsChange={updateParams}
               onGenerate={generate}
               onImageUpload={uploadImageForReference}
-              onRemoveImage={clearUploadedImageContext}
               onSurpriseMe={surpriseMe}
               isGenerating={isGenerating}
               customPlaceholder={customPlaceholder}
@@ -239,7 +235,10 @@ export default function Home() {
                 setShouldFocusPrompt(false);
                 setCustomPlaceholder(undefined);
               }}
-              uploadedImageContext={uploadedImageContext}
+              referenceImages={referenceImages}
+              onUpdateReference={updateReferenceImage}
+              onMoveReference={moveReferenceImage}
+              onRemoveReference={removeReferenceImage}
             />
           </div>
 
@@ -251,6 +250,7 @@ export default function Home() {
                 generatedMedia={generatedMedia}
                 isGenerating={isGenerating}
                 batchExecution={batchExecution}
+                onCancelGeneration={cancelGeneration}
                 onFileUpload={uploadImageForDisplay}
                 className="h-full w-full"
                 hasImage={!!generatedMedia}
@@ -286,6 +286,10 @@ export default function Home() {
               activeItemId={activeItemId}
               onItemClick={setActiveItem}
               onUseItem={restoreParametersFromGallery}
+              onDeleteItem={deleteGalleryItem}
+              onCancelJob={cancelJob}
+              hasMore={hasMoreGallery}
+              onLoadMore={loadMoreGallery}
               width={galleryWidth}
             />
           </div>
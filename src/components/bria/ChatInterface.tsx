@@ -2,8 +2,9 @@
 
 import React, { useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
-import { Loader2 } from "lucide-react";
+import { Loader2, Route } from "lucide-react";
 import type { ChatMessage } from "@/types/chat";
+import type { IntentDecision } from "@/types/chat-stream";
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
@@ -79,6 +80,9 @@ function MessageBubble({ message }: MessageBubbleProps) {
           </div>
         )}
 
+        {/* How the request was routed (collapsed by default) */}
+        {isAgent && message.intent && <IntentTrace decision={message.intent} />}
+
         {/* Timestamp */}
         <div
           className={cn(
@@ -93,6 +97,41 @@ function MessageBubble({ message }: MessageBubbleProps) {
   );
 }
 
+const INTENT_LABELS: Record<IntentDecision["intent"], string> = {
+  explicit_operation: "Explicit operation",
+  nl_operation: "Operation from message",
+  masked_edit: "Masked edit",
+  video_generation: "Video",
+  reference_generation: "Reference image",
+  refinement: "Refinement",
+  text_to_image: "Text to image",
+};
+
+function IntentTrace({ decision }: { decision: IntentDecision }) {
+  return (
+    <details className="mt-2 pt-2 border-t border-border/50 text-xs text-muted-foreground">
+      <summary className="flex items-center gap-1.5 cursor-pointer select-none">
+        <Route className="h-3 w-3" />
+        <span>
+          Priority {decision.priority}: {INTENT_LABELS[decision.intent]}
+          {decision.tool && <> &rarr; {decision.tool}</>}
+          {decision.route === "direct" ? " (direct)" : " (agent)"}
+        </span>
+      </summary>
+      <ol className="mt-1.5 space-y-0.5 pl-4">
+        {decision.trace.map((step) => (
+          <li key={step.priority} className={cn(step.matched && "text-foreground")}>
+            {step.matched ? "\u2713" : "\u2013"} {step.priority}. {INTENT_LABELS[step.intent]}: {step.reason}
+          </li>
+        ))}
+      </ol>
+      {decision.route === "agent" && decision.priority === 1 && (
+        <p className="mt-1 italic">{decision.reason}</p>
+      )}
+    </details>
+  );
+}
+
 function formatTimestamp(date: Date): string {
   const now = new Date();
   const diff = now.getTime() - date.getTime();
@@ -2,14 +2,20 @@
 
 import React, { useState } from "react";
 import { cn } from "@/lib/utils";
-import { Play, Loader2, Download, ArrowRight } from "lucide-react";
+import { Loader2, Download, ArrowRight, Trash2, ChevronUp, X } from "lucide-react";
 import type { GeneratedMedia } from "@/hooks/useBriaGeneration";
+import { mediaFileExtension } from "@/lib/video-tools";
+import { VideoThumbnail } from "@/components/bria/VideoPlayer";
 
 interface GalleryBarProps {
   items: GeneratedMedia[];
   activeItemId?: string;
   onItemClick: (id: string) => void;
   onUseItem?: (id: string) => void;
+  onDeleteItem?: (id: string) => void;
+  onCancelJob?: (jobId: string) => void; // Stops the job behind a loading placeholder
+  hasMore?: boolean;
+  onLoadMore?: () => void;
   className?: string;
   width?: number;
 }
@@ -19,6 +25,10 @@ export function GalleryBar({
   activeItemId,
   onItemClick,
   onUseItem,
+  onDeleteItem,
+  onCancelJob,
+  hasMore = false,
+  onLoadMore,
   className,
   width = 100,
 }: GalleryBarProps) {
@@ -35,7 +45,7 @@ export function GalleryBar({
       if (item.url.startsWith('data:')) {
         const link = document.createElement('a');
         link.href = item.url;
-        link.download = `generated-${item.id}.${item.type === 'image' ? 'png' : 'mp4'}`;
+        link.download = `generated-${item.id}.${mediaFileExtension(item)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -46,7 +56,7 @@ export function GalleryBar({
         const url = window.URL.createObjectURL(blob);
         const link = document.createElement('a');
         link.href = url;
-        link.download = `generated-${item.id}.${item.type === 'image' ? 'png' : 'mp4'}`;
+        link.download = `generated-${item.id}.${mediaFileExtension(item)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -64,6 +74,13 @@ export function GalleryBar({
     }
   };
 
+  const handleDelete = (e: React.MouseEvent, itemId: string) => {
+    e.stopPropagation();
+    if (onDeleteItem) {
+      onDeleteItem(itemId);
+    }
+  };
+
   if (items.length === 0) {
     return (
       <div
@@ -89,6 +106,17 @@ export function GalleryBar({
       style={{ width: `${galleryWidth}px` }}
     >
       <div className="flex-1 flex flex-col gap-2 p-2 overflow-y-auto scrollbar-thin scrollbar-thumb-muted scrollbar-track-transparent">
+        {/* Older history is loaded on demand above the oldest item */}
+        {hasMore && onLoadMore && (
+          <button
+            onClick={onLoadMore}
+            className="flex items-center justify-center gap-1 w-full py-1 text-xs text-muted-foreground hover:text-foreground border border-dashed border-border rounded transition-colors"
+            title="Load older generations"
+          >
+            <ChevronUp className="w-3.5 h-3.5" />
+            Older
+          </button>
+        )}
         {items.map((item) => {
           const isActive = item.id === activeItemId;
           
@@ -110,12 +138,20 @@ export function GalleryBar({
                     ? "border-primary ring-2 ring-primary shadow-lg hover:scale-105"
                     : "border-muted hover:border-primary/50 hover:scale-105"
                 )}
-                title={item.isLoading ? "Generating..." : `Created at ${item.timestamp.toLocaleTimeString()}`}
+                title={item.isLoading
+                  ? (item.type === "video" ? "Rendering video..." : "Generating...")
+                  : `Created at ${item.timestamp.toLocaleTimeString()}`}
               >
                 {/* Loading state */}
                 {item.isLoading ? (
-                  <div className="w-full h-full bg-muted/50 flex items-center justify-center">
+                  <div className="w-full h-full bg-muted/50 flex flex-col items-center justify-center gap-1">
                     <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    {/* Videos take minutes */}
+                    {item.type === "video" && (
+                      <span className="text-[10px] leading-3 text-muted-foreground text-center px-1">
+                        Rendering video
+                      </span>
+                    )}
                   </div>
                 ) : (
                   <>
@@ -127,16 +163,7 @@ export function GalleryBar({
                         className="w-full h-full object-cover"
                       />
                     ) : (
-                      <div className="relative w-full h-full">
-                        <video
-                          src={item.url}
-                          className="w-full h-full object-cover"
-                        />
-                        {/* Video play icon overlay */}
-                        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
-                          <Play className="w-6 h-6 text-white" fill="white" />
-                        </div>
-                      </div>
+                      <VideoThumbnail media={item} playing={hoveredItemId === item.id} />
                     )}
                     
                     {/* Active indicator */}
@@ -147,6 +174,17 @@ export function GalleryBar({
                 )}
               </button>
               
+              {/* Cancel a job still running, e.g. a video render */}
+              {item.isLoading && item.jobId && onCancelJob && (
+                <button
+                  onClick={() => onCancelJob(item.jobId!)}
+                  className="absolute top-1 right-1 p-1 bg-background/95 hover:bg-background border border-border rounded shadow-sm transition-colors"
+                  title="Cancel"
+                >
+                  <X className="w-3 h-3 text-foreground" />
+                </button>
+              )}
+
               {/* Icons below image, bottom right */}
               {hoveredItemId === item.id && !item.isLoading && (
                 <div className="absolute bottom-0 right-0 flex gap-1 p-1">
@@ -166,6 +204,15 @@ export function GalleryBar({
                       <ArrowRight className="w-3.5 h-3.5 text-foreground" />
                     </button>
                   )}
+                  {onDeleteItem && (
+                    <button
+                      onClick={(e) => handleDelete(e, item.id)}
+                      className="p-1.5 bg-background/95 hover:bg-background border border-border rounded shadow-sm transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                    </button>
+                  )}
                 </div>
               )}
             </div>
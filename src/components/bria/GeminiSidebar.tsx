@@ -1,9 +1,10 @@
 "use client";
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Pencil, Settings2, Sun, Moon, ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
+import { SignInButton, SignedIn, SignedOut, UserButton } from "@clerk/nextjs";
+import { Pencil, Settings2, Sun, Moon, ZoomIn, ZoomOut, RotateCcw, MoreHorizontal, Trash2, Type, LogIn } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,11 +14,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAccessibility } from "@/context/AccessibilityContext";
+import type { ChatSessionSummary } from "@/types/chat";
 
 interface GeminiSidebarProps {
   isOpen: boolean;
   onToggle: () => void;
   onNewChat: () => void;
+  recentChats?: ChatSessionSummary[];
+  activeChatId?: string | null;
+  onSelectChat?: (id: string) => void;
+  onRenameChat?: (id: string, title: string) => void;
+  onDeleteChat?: (id: string) => void;
 }
 
 // Sidebar button icon component (rounded rectangle with vertical divider)
@@ -41,32 +48,19 @@ function SidebarIcon({ className }: { className?: string }) {
   );
 }
 
-// Recent chat item interface
-interface RecentChat {
-  id: string;
-  title: string;
-  preview: string;
-  timestamp: Date;
-}
-
-// Mock recent chats for example - matching Gemini's style
-const mockRecentChats: RecentChat[] = [
-  {
-    id: "1",
-    title: "Create a futuristic city",
-    preview: "A cyberpunk metropolis with neon lights...",
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-  },
-  {
-    id: "2",
-    title: "Design a logo",
-    preview: "Modern minimalist logo for tech startup...",
-    timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000), // 5 hours ago
-  },
-];
-
-export function GeminiSidebar({ isOpen, onToggle, onNewChat }: GeminiSidebarProps) {
+export function GeminiSidebar({
+  isOpen,
+  onToggle,
+  onNewChat,
+  recentChats = [],
+  activeChatId,
+  onSelectChat,
+  onRenameChat,
+  onDeleteChat,
+}: GeminiSidebarProps) {
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
   const {
     highContrast,
     toggleHighContrast,
@@ -89,6 +83,11 @@ export function GeminiSidebar({ isOpen, onToggle, onNewChat }: GeminiSidebarProp
         return;
       }
 
+      // Chat actions menu renders in a portal outside the sidebar
+      if ((target as Element).closest?.("[data-radix-popper-content-wrapper]")) {
+        return;
+      }
+
       // Close the sidebar if clicking outside
       onToggle();
     };
@@ -99,12 +98,27 @@ export function GeminiSidebar({ isOpen, onToggle, onNewChat }: GeminiSidebarProp
     };
   }, [isOpen, onToggle]);
 
-  const handleChatClick = () => {
+  const handleChatClick = (id: string) => {
+    if (onSelectChat) {
+      onSelectChat(id);
+    }
     if (isOpen) {
       onToggle();
     }
   };
 
+  const startRename = (chat: ChatSessionSummary) => {
+    setRenamingChatId(chat.id);
+    setRenameDraft(chat.title);
+  };
+
+  const commitRename = () => {
+    if (renamingChatId && renameDraft.trim() && onRenameChat) {
+      onRenameChat(renamingChatId, renameDraft.trim());
+    }
+    setRenamingChatId(null);
+  };
+
   return (
     <div
       ref={sidebarRef}
@@ -164,16 +178,77 @@ export function GeminiSidebar({ isOpen, onToggle, onNewChat }: GeminiSidebarProp
                 Recent
               </h2>
               <div className="space-y-1">
-                {mockRecentChats.map((chat) => (
-                  <button
-                    key={chat.id}
-                    onClick={handleChatClick}
-                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-muted transition-colors group"
-                  >
-                    <div className="text-sm text-foreground line-clamp-1">
-                      {chat.title}
+                {recentChats.length === 0 && (
+                  <p className="px-3 py-2 text-xs text-muted-foreground">
+                    No chats yet
+                  </p>
+                )}
+                {recentChats.map((chat) => (
+                  renamingChatId === chat.id ? (
+                    <input
+                      key={chat.id}
+                      autoFocus
+                      value={renameDraft}
+                      onChange={(e) => setRenameDraft(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenamingChatId(null);
+                      }}
+                      className="w-full px-3 py-2 text-sm rounded-lg border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      aria-label="Chat title"
+                    />
+                  ) : (
+                    <div
+                      key={chat.id}
+                      className={cn(
+                        "relative flex items-center rounded-lg hover:bg-muted transition-colors group",
+                        chat.id === activeChatId && "bg-muted"
+                      )}
+                    >
+                      <button
+                        onClick={() => handleChatClick(chat.id)}
+                        className="flex-1 min-w-0 text-left px-3 py-2"
+                        title={chat.preview || chat.title}
+                      >
+                        <div className="text-sm text-foreground line-clamp-1">
+                          {chat.title}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatTimestamp(chat.updatedAt)}
+                        </div>
+                      </button>
+                      {(onRenameChat || onDeleteChat) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              className="mr-1 p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-background transition-opacity"
+                              aria-label="Chat options"
+                            >
+                              <MoreHorizontal className="h-4 w-4" />
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {onRenameChat && (
+                              <DropdownMenuItem onClick={() => startRename(chat)} className="cursor-pointer">
+                                <Type className="h-4 w-4 mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                            )}
+                            {onDeleteChat && (
+                              <DropdownMenuItem
+                                onClick={() => onDeleteChat(chat.id)}
+                                className="cursor-pointer text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
-                  </button>
+                  )
                 ))}
               </div>
             </div>
@@ -181,8 +256,36 @@ export function GeminiSidebar({ isOpen, onToggle, onNewChat }: GeminiSidebarProp
         )}
       </div>
 
-      {/* Bottom Section - Settings */}
+      {/* Bottom Section - Account & Settings */}
       <div className="p-2 flex-shrink-0">
+        {/* Generating requires an account */}
+        <SignedOut>
+          <SignInButton mode="modal">
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(
+                "rounded-lg hover:bg-muted transition-colors",
+                isOpen ? "h-10 w-full justify-start px-3" : "h-10 w-10"
+              )}
+              aria-label="Sign in"
+              title="Sign in"
+            >
+              <LogIn className={cn(
+                "flex-shrink-0",
+                isOpen ? "h-4 w-4" : "h-5 w-5"
+              )} />
+              {isOpen && (
+                <span className="ml-3 text-sm">Sign in</span>
+              )}
+            </Button>
+          </SignInButton>
+        </SignedOut>
+        <SignedIn>
+          <div className={cn("flex items-center h-10", isOpen ? "px-3" : "justify-center")}>
+            <UserButton />
+          </div>
+        </SignedIn>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
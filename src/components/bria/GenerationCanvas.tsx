@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Upload, Loader2, ThumbsUp, ThumbsDown, Maximize2, Download, Info, Eraser, Focus, Sparkles, Zap, Paintbrush, Trash2, Wand2 } from "lucide-react";
+import { Upload, Loader2, ThumbsUp, ThumbsDown, Maximize2, Download, Info, Eraser, Focus, Sparkles, Zap, Paintbrush, Trash2, Wand2, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   Tooltip,
@@ -17,12 +17,16 @@ import {
 } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { DotPattern } from "@/components/ui/dot-pattern";
+import { VideoPlayer } from "@/components/bria/VideoPlayer";
+import { mediaFileExtension } from "@/lib/video-tools";
 import type { AIOperation } from "@/types/instructions";
 
 interface GenerationCanvasProps {
   generatedMedia?: {
     type: "image" | "video";
     url: string;
+    posterUrl?: string; // Video: still frame shown before it plays
+    duration?: number; // Video: length in seconds
   };
   isGenerating?: boolean;
   batchExecution?: {
@@ -37,6 +41,7 @@ interface GenerationCanvasProps {
       description: string;
     }>;
   } | null;
+  onCancelGeneration?: () => void; // Stops the generation and any remaining batch steps
   onFileUpload?: (file: File) => void;
   className?: string;
   // Quick AI Operations props
@@ -58,6 +63,7 @@ export function GenerationCanvas({
   generatedMedia,
   isGenerating = false,
   batchExecution,
+  onCancelGeneration,
   onFileUpload,
   className,
   hasImage = false,
@@ -280,7 +286,7 @@ export function GenerationCanvas({
     
     const link = document.createElement('a');
     link.href = generatedMedia.url;
-    link.download = `generated-${Date.now()}.${generatedMedia.type === 'image' ? 'png' : 'mp4'}`;
+    link.download = `generated-${Date.now()}.${mediaFileExtension(generatedMedia)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -640,6 +646,13 @@ export function GenerationCanvas({
               </p>
             </div>
           )}
+
+          {onCancelGeneration && (
+            <Button variant="outline" size="sm" onClick={onCancelGeneration} className="gap-1.5">
+              <X className="h-4 w-4" />
+              {batchExecution ? "Cancel remaining steps" : "Cancel"}
+            </Button>
+          )}
         </div>
       )}
 
@@ -845,14 +858,12 @@ export function GenerationCanvas({
                 )}
               </div>
             ) : (
-              <video
-                src={generatedMedia.url}
-                controls
+              <VideoPlayer
+                media={generatedMedia}
                 className="max-w-full max-h-full rounded-lg shadow-lg"
                 style={{
                   maxWidth: '55vw',
                   maxHeight: '60vh',
-                  pointerEvents: 'auto'
                 }}
               />
             )}
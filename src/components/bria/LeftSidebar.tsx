@@ -15,7 +15,6 @@ import {
   Square,
   RectangleHorizontal,
   Sparkles,
-  X,
   Loader2,
   Image as ImageIcon,
   Video,
@@ -30,7 +29,9 @@ import {
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { ChatInterface } from "./ChatInterface";
+import { ReferenceImageList } from "./ReferenceImageList";
 import type { ChatMessage } from "@/types/chat";
+import type { ReferenceImageItem } from "@/hooks/useBriaGeneration";
 
 export interface GenerationParams {
   mode: "image" | "video";
@@ -47,15 +48,17 @@ interface LeftSidebarProps {
   params: GenerationParams;
   onParamsChange: (params: Partial<GenerationParams>) => void;
   onGenerate: () => void;
-  onImageUpload: (file: File) => void;
-  onRemoveImage?: () => void;
+  onImageUpload: (file: File) => void | Promise<void>;
   onSurpriseMe: () => void;
   isGenerating?: boolean;
   className?: string;
   customPlaceholder?: string;
   shouldFocusPrompt?: boolean;
   onPromptFocused?: () => void;
-  uploadedImageContext?: { url: string; mcpResponse?: any; filename?: string } | null;
+  referenceImages?: ReferenceImageItem[];
+  onUpdateReference?: (id: string, updates: Partial<Pick<ReferenceImageItem, "role" | "weight">>) => void;
+  onMoveReference?: (id: string, offset: number) => void;
+  onRemoveReference?: (id: string) => void;
 }
 
 const aspectRatios = [
@@ -77,26 +80,17 @@ export function LeftSidebar({
   onParamsChange,
   onGenerate,
   onImageUpload,
-  onRemoveImage,
   onSurpriseMe,
   isGenerating = false,
   className,
   customPlaceholder,
   shouldFocusPrompt = false,
   onPromptFocused,
-  uploadedImageContext,
+  referenceImages = [],
+  onUpdateReference,
+  onMoveReference,
+  onRemoveReference,
 }: LeftSidebarProps) {
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  
-  // Sync uploadedImage with uploadedImageContext from hook
-  React.useEffect(() => {
-    if (uploadedImageContext?.url) {
-      setUploadedImage(uploadedImageContext.url);
-    } else if (!uploadedImageContext) {
-      // Clear if context is null (but keep if it's just undefined to avoid clearing during initial render)
-      setUploadedImage(null);
-    }
-  }, [uploadedImageContext]);
   const [isUploading, setIsUploading] = useState(false);
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [placeholderOpacity, setPlaceholderOpacity] = useState(1);
@@ -113,15 +107,6 @@ export function LeftSidebar({
     }
   }, [messages]);
 
-  // Cleanup uploaded image URL on unmount
-  useEffect(() => {
-    return () => {
-      if (uploadedImage) {
-        URL.revokeObjectURL(uploadedImage);
-      }
-    };
-  }, [uploadedImage]);
-
   // Focus prompt when requested (e.g., for fill inpainting)
   useEffect(() => {
     if (shouldFocusPrompt && promptTextareaRef.current) {
@@ -170,37 +155,24 @@ export function LeftSidebar({
     fileInputRef.current?.click();
   };
 
+  // Several files can be picked at once; they're added as references in order
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setIsUploading(true);
-      try {
-        // Create preview URL
-        const previewUrl = URL.createObjectURL(file);
-        setUploadedImage(previewUrl);
-        
-        // Upload the file
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
         await onImageUpload(file);
-      } catch (error) {
-        console.error("Error uploading image:", error);
-        setUploadedImage(null);
-      } finally {
-        setIsUploading(false);
       }
-    }
-  };
-
-  const handleRemoveImage = () => {
-    if (uploadedImage) {
-      URL.revokeObjectURL(uploadedImage);
-    }
-    setUploadedImage(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-    // Notify parent to clear the context
-    if (onRemoveImage) {
-      onRemoveImage();
+    } catch (error) {
+      console.error("Error uploading image:", error);
+    } finally {
+      setIsUploading(false);
+      // Allow picking the same file again
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
     }
   };
 
@@ -249,7 +221,6 @@ export function LeftSidebar({
                 onKeyDown={handleKeyDown}
                 className={cn(
                   "min-h-[120px] pr-24 pb-12 resize-none text-sm scrollbar-thin scrollbar-thumb-muted scrollbar-track-transparent",
-                  uploadedImage && "pb-20",
                   !customPlaceholder && !params.prompt.trim() && !hasSentFirstPrompt && "placeholder:opacity-0"
                 )}
               />
@@ -263,27 +234,6 @@ export function LeftSidebar({
                 </div>
               )}
               
-              {/* Uploaded Image Preview */}
-              {uploadedImage && (
-                <div className="absolute bottom-2 left-2 right-20">
-                  <div className="relative inline-block">
-                    <img
-                      src={uploadedImage}
-                      alt="Uploaded reference"
-                      className="h-14 w-14 object-cover rounded border bg-muted"
-                    />
-                    <Button
-                      size="icon"
-                      variant="destructive"
-                      className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0"
-                      onClick={handleRemoveImage}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
-              )}
-
               {/* Upload Loading Indicator */}
               {isUploading && (
                 <div className="absolute bottom-2 left-2">
@@ -301,7 +251,7 @@ export function LeftSidebar({
                   variant="ghost"
                   className="h-7 w-7"
                   onClick={handleImageUploadClick}
-                  title="Upload reference image"
+                  title="Add reference images"
                   disabled={isUploading}
                 >
                   {isUploading ? (
@@ -368,11 +318,20 @@ export function LeftSidebar({
                 ref={fileInputRef}
                 type="file"
                 accept="image/*"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
-                aria-label="Upload reference image"
+                aria-label="Upload reference images"
               />
             </div>
+
+            {/* Reference images, in order: role, weight, reorder, remove */}
+            <ReferenceImageList
+              references={referenceImages}
+              onUpdate={(id, updates) => onUpdateReference?.(id, updates)}
+              onMove={(id, offset) => onMoveReference?.(id, offset)}
+              onRemove={(id) => onRemoveReference?.(id)}
+            />
           </div>
         </div>
 
@@ -0,0 +1,146 @@
+"use client";
+
+import React from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { REFERENCE_ROLES, type ReferenceRole } from "@/types/references";
+import type { ReferenceImageItem } from "@/hooks/useBriaGeneration";
+
+interface ReferenceImageListProps {
+  references: ReferenceImageItem[];
+  onUpdate: (id: string, updates: Partial<Pick<ReferenceImageItem, "role" | "weight">>) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  className?: string;
+}
+
+const roleLabels: Record<ReferenceRole, string> = {
+  subject: "Subject",
+  style: "Style",
+  composition: "Composition",
+};
+
+// Prompt box thumbnails; click one to set its role and weight or move it
+export function ReferenceImageList({
+  references,
+  onUpdate,
+  onMove,
+  onRemove,
+  className,
+}: ReferenceImageListProps) {
+  if (references.length === 0) return null;
+
+  return (
+    <div className={cn("flex gap-2 overflow-x-auto pt-1 scrollbar-thin", className)}>
+      {references.map((reference, index) => (
+        <div key={reference.id} className="relative shrink-0">
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                className="block rounded border bg-muted overflow-hidden focus:outline-none focus:ring-2 focus:ring-ring"
+                title={`${roleLabels[reference.role]} reference, weight ${Math.round(reference.weight * 100)}%`}
+              >
+                {/* Unoptimized: data URLs and signed-in asset URLs can't go through the image optimizer */}
+                <Image
+                  src={reference.url}
+                  alt={`${roleLabels[reference.role]} reference ${index + 1}`}
+                  width={56}
+                  height={56}
+                  unoptimized
+                  className="h-14 w-14 object-cover"
+                />
+                <span className="absolute bottom-0 inset-x-0 bg-background/80 text-[10px] leading-4 text-center truncate">
+                  {roleLabels[reference.role]} · {Math.round(reference.weight * 100)}%
+                </span>
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-3" align="start">
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">Role</Label>
+                  <div className="flex gap-1">
+                    {REFERENCE_ROLES.map((role) => (
+                      <Button
+                        key={role}
+                        variant={reference.role === role ? "default" : "outline"}
+                        size="sm"
+                        className="flex-1 text-xs h-7 px-1"
+                        onClick={() => onUpdate(reference.id, { role })}
+                      >
+                        {roleLabels[role]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-xs font-medium">Weight</Label>
+                    <span className="text-xs text-muted-foreground">{Math.round(reference.weight * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[reference.weight]}
+                    onValueChange={([value]) => onUpdate(reference.id, { weight: value })}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-7 w-7"
+                      onClick={() => onMove(reference.id, -1)}
+                      disabled={index === 0}
+                      title="Move earlier"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-7 w-7"
+                      onClick={() => onMove(reference.id, 1)}
+                      disabled={index === references.length - 1}
+                      title="Move later"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-destructive"
+                    onClick={() => onRemove(reference.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            </PopoverContent>
+          </Popover>
+          <Button
+            size="icon"
+            variant="destructive"
+            className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0"
+            onClick={() => onRemove(reference.id)}
+            title="Remove reference"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Download, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface VideoMedia {
+  url: string;
+  posterUrl?: string;
+  duration?: number; // Seconds; read from the file's metadata when missing
+}
+
+// 75 → "1:15"
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function DurationBadge({ duration, className }: { duration?: number; className?: string }) {
+  if (!duration || !Number.isFinite(duration)) return null;
+
+  return (
+    <span
+      className={cn(
+        "rounded bg-black/70 px-1 text-[10px] font-medium leading-4 text-white tabular-nums pointer-events-none",
+        className
+      )}
+    >
+      {formatDuration(duration)}
+    </span>
+  );
+}
+
+// Canvas player: poster until played, falls back to a download link when the browser can't play it
+export function VideoPlayer({
+  media,
+  className,
+  style,
+}: {
+  media: VideoMedia;
+  className?: string;
+  style?: React.CSSProperties;
+}) {
+  const [duration, setDuration] = useState(media.duration);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setDuration(media.duration);
+    setFailed(false);
+  }, [media.url, media.duration]);
+
+  if (failed) {
+    return (
+      <div
+        className={cn("flex flex-col items-center justify-center gap-2 rounded-lg border bg-muted/50 p-6 text-sm text-muted-foreground", className)}
+        style={style}
+      >
+        <p>This video can&apos;t be played in your browser.</p>
+        <a href={media.url} download className="flex items-center gap-1 text-primary hover:underline">
+          <Download className="h-4 w-4" />
+          Download it instead
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative" style={{ pointerEvents: "auto" }}>
+      <video
+        key={media.url}
+        src={media.url}
+        poster={media.posterUrl}
+        controls
+        playsInline
+        preload="metadata"
+        className={className}
+        style={style}
+        onLoadedMetadata={(e) => !media.duration && setDuration(e.currentTarget.duration)}
+        onError={() => setFailed(true)}
+      />
+      <DurationBadge duration={duration} className="absolute top-2 left-2" />
+    </div>
+  );
+}
+
+// Gallery thumbnail: poster (or first frame), previews muted while hovered
+export function VideoThumbnail({ media, playing = false }: { media: VideoMedia; playing?: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(media.duration);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (playing) {
+      video.play().catch(() => {
+        // Autoplay refused - the poster stays
+      });
+    } else {
+      video.pause();
+      video.currentTime = 0;
+    }
+  }, [playing]);
+
+  return (
+    <div className="relative w-full h-full">
+      <video
+        ref={videoRef}
+        src={media.url}
+        poster={media.posterUrl}
+        muted
+        loop
+        playsInline
+        preload="metadata"
+        className="w-full h-full object-cover"
+        onLoadedMetadata={(e) => !media.duration && setDuration(e.currentTarget.duration)}
+      />
+      {/* Video play icon overlay */}
+      {!playing && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+          <Play className="w-6 h-6 text-white" fill="white" />
+        </div>
+      )}
+      <DurationBadge duration={duration} className="absolute top-1 left-1" />
+    </div>
+  );
+}
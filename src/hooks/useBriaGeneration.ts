@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type {
   EditingState,
   EditingTool,
@@ -12,11 +12,19 @@ import type {
   DEFAULT_EDITING_STATE,
 } from "@/types/editing";
 import { DEFAULT_EDITING_STATE as DEFAULT_STATE } from "@/types/editing";
-import type {
-  InstructionsPaneState,
-  AIOperation,
+import {
+  OPERATION_METADATA,
+  type InstructionsPaneState,
+  type AIOperation,
 } from "@/types/instructions";
-import type { ChatMessage } from "@/types/chat";
+import type { ChatMessage, ChatSessionState, ChatSessionSummary } from "@/types/chat";
+import type { ChatResponse, ChatStreamEvent, ChatToolResult, PlanRunState } from "@/types/chat-stream";
+import { TERMINAL_JOB_STATUSES, type GenerationJob, type JobStreamEvent } from "@/types/jobs";
+import { readSSEStream } from "@/lib/sse";
+import { isCancelledError } from "@/lib/cancellation";
+import { mediaOutputs, parseMCPResult } from "@/lib/mcp-result";
+import { mediaTypeOfTool } from "@/lib/video-tools";
+import { DEFAULT_REFERENCE_WEIGHT, type ContextReferenceImage, type ReferenceRole } from "@/types/references";
 
 export interface GenerationParams {
   mode: "image" | "video";
@@ -32,6 +40,8 @@ export interface GeneratedMedia {
   type: "image" | "video";
   url: string; // For display (can be base64 or URL)
   imageUrl?: string; // MCP-provided URL for tool calls (token-efficient)
+  posterUrl?: string; // Video: still frame shown before it plays
+  duration?: number; // Video: length in seconds, when known
   id: string;
   timestamp: Date;
   metadata?: {
@@ -39,15 +49,35 @@ export interface GeneratedMedia {
     [key: string]: any;
   };
   isLoading?: boolean; // True when generation is in progress
+  jobId?: string; // Generation job behind a loading placeholder (or that produced the item)
   // Generation parameters for restoring
   generationParams?: {
     prompt: string;
     params: GenerationParams;
-    referenceImageUrl?: string; // Reference image used for image-to-image
+    referenceImageUrl?: string; // Reference image used for image-to-image (the first, when there are several)
+    referenceImages?: Array<{ url: string; role: ReferenceRole; weight: number }>;
     aiOperation?: string; // AI operation name if used (e.g., "remove-background")
   };
 }
 
+// An uploaded image; width/height/format are of the normalized image stored by /api/upload
+export interface UploadedImageContext {
+  url: string;
+  referenceId?: string; // Image argument for reference generation (MCP reference ID or asset URL)
+  referenceSource?: "url" | "mcp";
+  filename?: string;
+  width?: number;
+  height?: number;
+  format?: string;
+}
+
+// A reference image in the prompt box, in the order the user arranged them
+export interface ReferenceImageItem extends UploadedImageContext {
+  id: string;
+  role: ReferenceRole;
+  weight: number; // 0..1
+}
+
 interface UseBriaGenerationReturn {
   // State
   messages: ChatMessage[];
@@ -55,10 +85,13 @@ interface UseBriaGenerationReturn {
   generatedMedia?: GeneratedMedia;
   galleryItems: GeneratedMedia[];
   activeItemId?: string;
+  hasMoreGallery: boolean;
+  sessionId: string | null;
+  recentSessions: ChatSessionSummary[];
   isGenerating: boolean;
   error?: string;
   editingState: EditingState;
-  uploadedImageContext: { url: string; mcpResponse?: any; filename?: string } | null;
+  referenceImages: ReferenceImageItem[];
   
   // Instructions Pane State
   instructionsPaneState: InstructionsPaneState;
@@ -84,13 +117,26 @@ interface UseBriaGenerationReturn {
   updateAgentMessage: (updates: Partial<Pick<ChatMessage, 'content' | 'agentStatus' | 'status'>>) => void;
   updateParams: (newParams: Partial<GenerationParams>) => void;
   generate: () => Promise<void>;
-  uploadImageForReference: (file: File) => Promise<void>; // For prompt box reference only
+  cancelGeneration: () => void; // Stops the in-flight generation and remaining plan steps
+  cancelJob: (jobId: string) => void; // Stops a job left running after its turn (e.g. a video render)
+  uploadImageForReference: (file: File, reference?: Partial<Pick<ReferenceImageItem, "role" | "weight">>) => Promise<void>; // Adds a prompt box reference
   uploadImageForDisplay: (file: File) => Promise<void>; // For canvas display
   surpriseMe: () => void;
   clearError: () => void;
-  clearUploadedImageContext: () => void;
+  updateReferenceImage: (id: string, updates: Partial<Pick<ReferenceImageItem, "role" | "weight">>) => void;
+  moveReferenceImage: (id: string, offset: number) => void; // -1 = earlier, 1 = later
+  removeReferenceImage: (id: string) => void;
+  clearReferenceImages: () => void;
   setActiveItem: (id: string) => void;
   restoreParametersFromGallery: (itemId: string) => void;
+  loadMoreGallery: () => Promise<void>;
+  deleteGalleryItem: (id: string) => Promise<void>;
+
+  // Session Actions
+  startNewSession: () => void;
+  resumeSession: (id: string) => Promise<void>;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
   
   // Editing Actions
   setActiveTool: (tool: EditingTool) => void;
@@ -124,29 +170,247 @@ const DEFAULT_PARAMS: GenerationParams = {
   prompt: "",
 };
 
-export function useBriaGeneration(): UseBriaGenerationReturn {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: "system-1",
-      role: "system",
-      content: "What do you want to create?",
-      timestamp: new Date(),
-      status: "complete",
+const GALLERY_PAGE_SIZE = 20;
+const SESSION_SAVE_DEBOUNCE_MS = 1000;
+
+const INITIAL_MESSAGES: ChatMessage[] = [
+  {
+    id: "system-1",
+    role: "system",
+    content: "What do you want to create?",
+    timestamp: new Date(),
+    status: "complete",
+  },
+];
+
+// Session summaries and messages come back as JSON (dates are ISO strings)
+function deserializeSessionSummary(summary: ChatSessionSummary): ChatSessionSummary {
+  return {
+    ...summary,
+    updatedAt: new Date(summary.updatedAt),
+  };
+}
+
+// Conversation id for the agent when there is no saved session (e.g. signed out)
+function createAgentSessionId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `tab-${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+}
+
+function deserializeMessage(message: ChatMessage): ChatMessage {
+  return {
+    ...message,
+    timestamp: new Date(message.timestamp),
+  };
+}
+
+// Gallery items come back from /api/generations as JSON (timestamps are ISO strings)
+function deserializeGalleryItem(item: GeneratedMedia): GeneratedMedia {
+  return {
+    ...item,
+    timestamp: new Date(item.timestamp),
+  };
+}
+
+// Fire-and-forget persistence of a finished gallery item
+async function persistGalleryItem(item: GeneratedMedia): Promise<void> {
+  try {
+    const response = await fetch("/api/generations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ item }),
+    });
+
+    // Signed-out users keep a session-only gallery
+    if (!response.ok && response.status !== 401) {
+      console.warn("⚠️ Failed to persist gallery item:", item.id, response.status);
+    }
+  } catch (err) {
+    console.warn("⚠️ Failed to persist gallery item:", item.id, err);
+  }
+}
+
+// In-flight /api/chat request that the user can cancel
+interface ActiveChatRequest {
+  id: string; // Sent as requestId; DELETE /api/chat/:id stops the server-side work
+  controller: AbortController;
+  jobIds: Set<string>; // Jobs queued by this request
+}
+
+function createActiveChatRequest(): ActiveChatRequest {
+  return { id: crypto.randomUUID(), controller: new AbortController(), jobIds: new Set() };
+}
+
+// Request refused before any work: signed out (401), or rate limited / out of
+// daily generations (429). The message is meant for the user as is.
+class RequestRejectedError extends Error {
+  constructor(message: string, readonly status: 401 | 429, readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = "RequestRejectedError";
+  }
+}
+
+function isRequestRejectedError(error: unknown): error is RequestRejectedError {
+  return error instanceof Error && error.name === "RequestRejectedError";
+}
+
+async function throwIfRejected(response: Response): Promise<void> {
+  if (response.status === 401) {
+    throw new RequestRejectedError("Please sign in to generate and upload images.", 401);
+  }
+  if (response.status !== 429) return;
+
+  const body = (await response.json().catch(() => ({}))) as { error?: string };
+  const retryAfter = Number(response.headers.get("Retry-After")) || undefined;
+  throw new RequestRejectedError(
+    body.error || `Too many requests. Please wait ${retryAfter ? `${retryAfter}s` : "a moment"} and try again.`,
+    429,
+    retryAfter
+  );
+}
+
+// POST an image to /api/upload, which validates, normalizes and registers it
+async function uploadImageFile(file: File): Promise<{ image: UploadedImageContext; referenceError?: string }> {
+  const formData = new FormData();
+  formData.append("image", file);
+
+  const response = await fetch("/api/upload", {
+    method: "POST",
+    body: formData,
+  });
+
+  await throwIfRejected(response);
+  if (!response.ok) {
+    // Rejected images (too large, unsupported format) come with a message for the user
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Upload failed");
+  }
+
+  const result = await response.json();
+  console.log("Upload result:", result);
+
+  return {
+    image: {
+      url: result.url,
+      referenceId: result.reference?.id,
+      referenceSource: result.reference?.source,
+      filename: result.filename,
+      width: result.width,
+      height: result.height,
+      format: result.format,
     },
-  ]);
+    referenceError: result.referenceError,
+  };
+}
+
+// context.reference_image: what tools get for each reference, in order
+function toContextReferences(references: ReferenceImageItem[]): ContextReferenceImage[] | null {
+  if (references.length === 0) return null;
+  return references.map((reference) => ({
+    image: reference.referenceId || reference.url,
+    role: reference.role,
+    weight: reference.weight,
+  }));
+}
+
+// POST to /api/chat in streaming mode. Live events go to onEvent; resolves
+// with the final response, which has the same shape as the JSON API.
+async function streamChatRequest(
+  payload: Record<string, unknown>,
+  onEvent: (event: ChatStreamEvent) => void,
+  failureMessage: string,
+  request?: ActiveChatRequest
+): Promise<ChatResponse> {
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...payload, stream: true, requestId: request?.id }),
+    signal: request?.controller.signal,
+  });
+
+  await throwIfRejected(response);
+  if (!response.ok || !response.body) {
+    // 422: e.g. an operation missing its inputs - the reason is worth showing
+    const body = (response.status === 422 ? await response.json().catch(() => ({})) : {}) as { error?: string };
+    throw new Error(body.error || failureMessage);
+  }
+
+  let finalResponse = null as ChatResponse | null;
+  let streamError: string | null = null;
+
+  await readSSEStream<ChatStreamEvent>(response.body, (event) => {
+    if (event.type === "done") {
+      finalResponse = event.response;
+    } else if (event.type === "error" && !event.callId) {
+      streamError = event.message;
+    }
+    onEvent(event);
+  });
+
+  if (!finalResponse) {
+    throw new Error(streamError || failureMessage);
+  }
+  return finalResponse;
+}
+
+// Jobs this browser is waiting on, so their placeholders survive a reload
+const PENDING_JOBS_STORAGE_KEY = "bria:pending-jobs";
+
+function loadPendingJobIds(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PENDING_JOBS_STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePendingJobIds(ids: string[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(PENDING_JOBS_STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage full or disabled - resuming after reload just won't work
+  }
+}
+
+function addPendingJob(jobId: string): void {
+  const ids = loadPendingJobIds();
+  if (!ids.includes(jobId)) savePendingJobIds([...ids, jobId]);
+}
+
+function removePendingJob(jobId: string): void {
+  savePendingJobIds(loadPendingJobIds().filter((id) => id !== jobId));
+}
+
+// Human-readable tool name for status lines ("text_to_image" -> "text to image")
+function formatToolName(name: string): string {
+  return name.replace(/[_-]+/g, " ");
+}
+
+export function useBriaGeneration(): UseBriaGenerationReturn {
+  const [messages, setMessages] = useState<ChatMessage[]>(INITIAL_MESSAGES);
 
   const [params, setParams] = useState<GenerationParams>(DEFAULT_PARAMS);
   const [attributionAmount, setAttributionAmount] = useState(0);
   const [generatedMedia, setGeneratedMedia] = useState<GeneratedMedia>();
   const [galleryItems, setGalleryItems] = useState<GeneratedMedia[]>([]);
   const [activeItemId, setActiveItemId] = useState<string>();
+  const [galleryCursor, setGalleryCursor] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recentSessions, setRecentSessions] = useState<ChatSessionSummary[]>([]);
+  // Set while a resumed session's state is being applied, so it isn't saved straight back
+  const skipNextSessionSaveRef = useRef(false);
+  const agentSessionIdRef = useRef<string>(createAgentSessionId());
+  const activeRequestRef = useRef<ActiveChatRequest | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string>();
-  const [uploadedImageContext, setUploadedImageContext] = useState<{
-    url: string;
-    mcpResponse?: any;
-    filename?: string;
-  } | null>(null);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImageItem[]>([]);
   const [editingState, setEditingState] = useState<EditingState>(DEFAULT_STATE);
   const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
   
@@ -171,58 +435,172 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     }>;
   } | null>(null);
 
-  // 30-second timeout for loading states
+  // Hydrate gallery from persisted generation history
   useEffect(() => {
-    if (!isGenerating && !operationLoadingName) {
-      return; // No active loading state
-    }
+    let cancelled = false;
 
-    console.log("⏱️ Starting 30-second timeout for loading state");
-    const timeoutId = setTimeout(() => {
-      console.warn("⚠️ Generation timeout reached (30 seconds) - clearing loading indicators");
-      
-      // Clear loading state
-      setIsGenerating(false);
-      setOperationLoadingName(null);
-      
-      // Remove loading placeholders from gallery
-      setGalleryItems((prev) => prev.filter(item => !item.isLoading));
-      
-      // Update agent message with timeout error
-      updateAgentMessage({
-        content: "The operation timed out after 30 seconds. Please try again.",
-        status: "error",
-        isError: true,
-        agentStatus: undefined,
-      });
-      
-      // Set error state
-      setError("Operation timed out after 30 seconds");
-    }, 30000); // 30 seconds
+    const loadGallery = async () => {
+      try {
+        const response = await fetch(`/api/generations?limit=${GALLERY_PAGE_SIZE}`);
+        if (!response.ok) {
+          if (response.status !== 401) {
+            console.warn("⚠️ Failed to load gallery history:", response.status);
+          }
+          return;
+        }
+
+        const page: { items: GeneratedMedia[]; nextCursor: string | null } = await response.json();
+        if (cancelled) return;
+
+        // API returns newest first; gallery renders oldest first
+        const loaded = page.items.map(deserializeGalleryItem).reverse();
+        setGalleryItems((prev) => [
+          ...loaded.filter((item) => !prev.some((existing) => existing.id === item.id)),
+          ...prev,
+        ]);
+        setGalleryCursor(page.nextCursor);
+        console.log(`🖼️ Loaded ${loaded.length} gallery items from history`);
+      } catch (err) {
+        console.warn("⚠️ Failed to load gallery history:", err);
+      }
+    };
+
+    loadGallery();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load recent chat sessions
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSessions = async () => {
+      try {
+        const response = await fetch("/api/sessions");
+        if (!response.ok) {
+          if (response.status !== 401) {
+            console.warn("⚠️ Failed to load recent sessions:", response.status);
+          }
+          return;
+        }
+
+        const data: { sessions: ChatSessionSummary[] } = await response.json();
+        if (!cancelled) {
+          setRecentSessions(data.sessions.map(deserializeSessionSummary));
+        }
+      } catch (err) {
+        console.warn("⚠️ Failed to load recent sessions:", err);
+      }
+    };
+
+    loadSessions();
 
-    // Cleanup timeout on unmount or when loading completes
     return () => {
-      clearTimeout(timeoutId);
+      cancelled = true;
     };
-  }, [isGenerating, operationLoadingName]);
+  }, []);
+
+  // Save the workspace (thread, params, active item) to the current session, debounced
+  useEffect(() => {
+    if (!sessionId) return;
+
+    if (skipNextSessionSaveRef.current) {
+      skipNextSessionSaveRef.current = false;
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            messages,
+            params,
+            activeItemId: activeItemId || null,
+          }),
+        });
+        if (!response.ok) {
+          console.warn("⚠️ Failed to save session:", sessionId, response.status);
+          return;
+        }
+
+        const data: { session: ChatSessionState } = await response.json();
+        setRecentSessions((prev) => {
+          const updated = prev.map((session) =>
+            session.id === sessionId
+              ? { ...session, updatedAt: new Date(data.session.updatedAt) }
+              : session
+          );
+          return updated.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+        });
+      } catch (err) {
+        console.warn("⚠️ Failed to save session:", sessionId, err);
+      }
+    }, SESSION_SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [sessionId, messages, params, activeItemId]);
+
+  // Lazily create a session on the first request of a new chat.
+  // Returns null for signed-out users (the chat still works, it just isn't saved).
+  const ensureSession = useCallback(async (firstPrompt: string): Promise<string | null> => {
+    if (sessionId) return sessionId;
+
+    try {
+      const response = await fetch("/api/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: firstPrompt }),
+      });
+      if (!response.ok) {
+        if (response.status !== 401) {
+          console.warn("⚠️ Failed to create session:", response.status);
+        }
+        return null;
+      }
+
+      const data: { session: ChatSessionState } = await response.json();
+      setSessionId(data.session.id);
+      setRecentSessions((prev) => [
+        {
+          id: data.session.id,
+          title: data.session.title,
+          preview: firstPrompt.trim().substring(0, 80),
+          updatedAt: new Date(data.session.updatedAt),
+        },
+        ...prev,
+      ]);
+      return data.session.id;
+    } catch (err) {
+      console.warn("⚠️ Failed to create session:", err);
+      return null;
+    }
+  }, [sessionId]);
 
   // Helper function to add media to gallery
-  const addToGallery = useCallback((media: Omit<GeneratedMedia, 'id' | 'timestamp'>, replaceLoading = true) => {
+  const addToGallery = useCallback((media: Omit<GeneratedMedia, 'id' | 'timestamp'> & { id?: string }, replaceLoading = true) => {
     // Determine reference image: for AI operations, use the source image (generatedMedia),
-    // otherwise use uploadedImageContext (for image-to-image generation)
+    // otherwise use the prompt box references (for image-to-image generation)
     const referenceImageUrl = activeOperation 
       ? (generatedMedia?.imageUrl || generatedMedia?.url || undefined)
-      : (uploadedImageContext?.url || undefined);
+      : (referenceImages[0]?.url || undefined);
+    const usedReferences = activeOperation || referenceImages.length === 0
+      ? undefined
+      : referenceImages.map(({ url, role, weight }) => ({ url, role, weight }));
 
     const newItem: GeneratedMedia = {
       ...media,
-      id: `gallery-${Date.now()}`,
+      id: media.id || `gallery-${Date.now()}`, // Server-saved outputs keep their id
       timestamp: new Date(),
       // Store generation parameters if not already provided
       generationParams: media.generationParams || (media.type === "image" || media.type === "video" ? {
         prompt: params.prompt,
         params: { ...params },
         referenceImageUrl,
+        referenceImages: usedReferences,
         aiOperation: activeOperation || undefined,
       } : undefined),
     };
@@ -236,9 +614,20 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     console.log("  - Full metadata keys:", newItem.metadata ? Object.keys(newItem.metadata) : []);
     
     setGalleryItems((prev) => {
+      // Already in the gallery (e.g. saved server-side and hydrated) - update in place
+      const existingIndex = prev.findIndex(item => item.id === newItem.id);
+      if (existingIndex !== -1) {
+        const updated = prev.filter(item => !(item.isLoading && newItem.jobId && item.jobId === newItem.jobId));
+        return updated.map(item => item.id === newItem.id ? newItem : item);
+      }
+
       // If there's a loading item and we should replace it, replace it
+      // (the placeholder bound to the same job first, then any unbound one)
       if (replaceLoading) {
-        const loadingIndex = prev.findIndex(item => item.isLoading);
+        const jobIndex = newItem.jobId
+          ? prev.findIndex(item => item.isLoading && item.jobId === newItem.jobId)
+          : -1;
+        const loadingIndex = jobIndex !== -1 ? jobIndex : prev.findIndex(item => item.isLoading && !item.jobId);
         if (loadingIndex !== -1) {
           const updated = [...prev];
           updated[loadingIndex] = newItem;
@@ -253,12 +642,33 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     // Set as current generated media and active item (will update canvas)
     setGeneratedMedia(newItem);
     setActiveItemId(newItem.id);
+
+    persistGalleryItem(newItem);
     
     return newItem;
-  }, [params, uploadedImageContext, activeOperation, generatedMedia]);
+  }, [params, referenceImages, activeOperation, generatedMedia]);
+
+  // Outputs after the first when a tool call produced several. Added before the
+  // first output so that one replaces the loading placeholder and stays selected.
+  const addAdditionalOutputs = useCallback((toolResult: ChatToolResult, shared: Pick<GeneratedMedia, 'metadata' | 'jobId'>) => {
+    const outputs = toolResult.outputs || [];
+    for (let index = outputs.length - 1; index > 0; index--) {
+      const output = outputs[index];
+      addToGallery({
+        ...shared,
+        id: output.itemId || `gallery-${Date.now()}-${index + 1}`,
+        type: output.type,
+        url: output.url,
+        imageUrl: output.remoteUrl,
+        posterUrl: output.posterUrl,
+        duration: output.duration,
+      }, false);
+      setAttributionAmount((prev) => prev + (output.type === "video" ? 0.005 : 0.001));
+    }
+  }, [addToGallery]);
 
   // Update the last agent message in place
-  const updateAgentMessage = useCallback((updates: Partial<Pick<ChatMessage, 'content' | 'agentStatus' | 'status' | 'isError'>>) => {
+  const updateAgentMessage = useCallback((updates: Partial<Pick<ChatMessage, 'content' | 'agentStatus' | 'status' | 'isError' | 'intent'>>) => {
     setMessages((prev) => {
       const lastMessageIndex = prev.length - 1;
       if (lastMessageIndex < 0) return prev;
@@ -279,6 +689,261 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     });
   }, []);
 
+  // Drop the loading placeholder bound to a job, or the unbound ones when no job is given
+  const removeLoadingPlaceholder = useCallback((jobId?: string) => {
+    setGalleryItems((prev) => prev.filter(item => !(item.isLoading && (jobId ? item.jobId === jobId : !item.jobId))));
+  }, []);
+
+  // Add outputs of server-executed plan steps to the gallery and summarize the run
+  const applyPlanRun = useCallback((run: PlanRunState, executedByAgent: number) => {
+    for (const step of run.steps.slice(executedByAgent)) {
+      const toolResult = step.result;
+      if (step.status !== "succeeded" || !toolResult?.mediaUrl) {
+        console.error(`⚠️ Step ${step.step} ${step.status}:`, step.error);
+        if (toolResult?.jobId) {
+          removeLoadingPlaceholder(toolResult.jobId);
+        }
+        continue;
+      }
+
+      const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> & { id?: string } = {
+        id: toolResult.itemId,
+        type: toolResult.mediaType || "image",
+        url: toolResult.mediaUrl,
+        posterUrl: toolResult.posterUrl,
+        duration: toolResult.duration,
+        jobId: toolResult.jobId,
+      };
+
+      if (toolResult.imageUrl) {
+        mediaData.imageUrl = toolResult.imageUrl;
+      }
+
+      if (toolResult.structuredPrompt) {
+        mediaData.metadata = {
+          structuredPrompt: toolResult.structuredPrompt,
+        };
+      }
+
+      addAdditionalOutputs(toolResult, { metadata: mediaData.metadata, jobId: mediaData.jobId });
+      addToGallery(mediaData);
+      setAttributionAmount((prev) => prev + (mediaData.type === "video" ? 0.005 : 0.001));
+    }
+
+    // Batch complete - steps that never got a job leave an unbound placeholder behind
+    console.log("✅ Batch execution complete:", run.id);
+    removeLoadingPlaceholder();
+    setBatchExecution(null);
+
+    const total = run.steps.length;
+    const succeeded = run.steps.filter((step) => step.status === "succeeded").length;
+
+    // Update last agent message with completion summary
+    updateAgentMessage({
+      content: succeeded === total
+        ? `I've created ${total} compelling variations for you!`
+        : `I've created ${succeeded} of ${total} images - ${total - succeeded} step${total - succeeded === 1 ? "" : "s"} didn't complete.`,
+      status: "complete",
+      agentStatus: undefined,
+    });
+  }, [addToGallery, addAdditionalOutputs, updateAgentMessage, removeLoadingPlaceholder]);
+
+  // Put the output of a job that finished while nobody was waiting on the request into the gallery
+  const applyFinishedJob = useCallback((job: GenerationJob) => {
+    removePendingJob(job.id);
+
+    const result = job.result;
+    if (job.status !== "succeeded" || !result?.mediaUrl) {
+      console.warn(`⚠️ Job ${job.id} ${job.status}:`, job.error);
+      removeLoadingPlaceholder(job.id);
+      return;
+    }
+
+    const metadata = result.structuredPrompt ? { structuredPrompt: result.structuredPrompt } : undefined;
+    addAdditionalOutputs(result, { metadata, jobId: job.id });
+    addToGallery({
+      id: result.itemId,
+      type: result.mediaType || job.mediaType,
+      url: result.mediaUrl,
+      imageUrl: result.imageUrl || undefined,
+      posterUrl: result.posterUrl,
+      duration: result.duration,
+      metadata,
+      jobId: job.id,
+    });
+  }, [addToGallery, addAdditionalOutputs, removeLoadingPlaceholder]);
+
+  // Follow a job over /api/jobs/:id/stream until it finishes
+  const watchedJobsRef = useRef<Set<string>>(new Set());
+  const watchJob = useCallback(async (jobId: string) => {
+    if (watchedJobsRef.current.has(jobId)) return;
+    watchedJobsRef.current.add(jobId);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/stream`);
+      if (!response.ok || !response.body) {
+        if (response.status === 404) {
+          // Expired or not ours - nothing left to wait for
+          removePendingJob(jobId);
+          removeLoadingPlaceholder(jobId);
+        }
+        return;
+      }
+
+      let finished = null as GenerationJob | null;
+      await readSSEStream<JobStreamEvent>(response.body, (event) => {
+        if (event.type === "job" && TERMINAL_JOB_STATUSES.includes(event.job.status)) {
+          finished = event.job;
+        }
+      });
+
+      if (finished) {
+        applyFinishedJob(finished);
+      }
+    } catch (err) {
+      console.warn(`⚠️ Lost track of job ${jobId}:`, err);
+    } finally {
+      watchedJobsRef.current.delete(jobId);
+    }
+  }, [applyFinishedJob, removeLoadingPlaceholder]);
+
+  // Show placeholders for jobs still running server-side and watch them
+  const resumePendingJobs = useCallback(async () => {
+    const mediaTypes = new Map<string, GenerationJob["mediaType"]>(
+      loadPendingJobIds().map((id) => [id, "image"])
+    );
+
+    try {
+      const response = await fetch("/api/jobs");
+      // Signed-out users only have the jobs this browser remembers
+      if (response.ok) {
+        const data: { jobs: GenerationJob[] } = await response.json();
+        for (const job of data.jobs) {
+          mediaTypes.set(job.id, job.mediaType);
+        }
+      }
+    } catch (err) {
+      console.warn("⚠️ Failed to load active jobs:", err);
+    }
+
+    if (mediaTypes.size === 0) return;
+
+    setGalleryItems((prev) => {
+      const known = new Set(prev.map(item => item.jobId).filter(Boolean));
+      const placeholders: GeneratedMedia[] = [...mediaTypes]
+        .filter(([jobId]) => !known.has(jobId))
+        .map(([jobId, type]) => ({
+          id: `loading-${jobId}`,
+          type,
+          url: "",
+          timestamp: new Date(),
+          isLoading: true,
+          jobId,
+        }));
+      return placeholders.length > 0 ? [...prev, ...placeholders] : prev;
+    });
+
+    for (const jobId of mediaTypes.keys()) {
+      watchJob(jobId);
+    }
+  }, [watchJob]);
+
+  // Pick up jobs that were still running when the page was closed
+  useEffect(() => {
+    resumePendingJobs();
+  }, [resumePendingJobs]);
+
+  // Reflect live /api/chat stream events in the last (updating) agent message
+  const createChatStreamHandler = useCallback(() => {
+    let streamedText = "";
+
+    return (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case "text_delta":
+          streamedText += event.delta;
+          updateAgentMessage({ content: streamedText });
+          break;
+        case "intent_decision":
+          // Routed operations go straight to MCP, so there is no plan to think about
+          updateAgentMessage(event.decision.route === "direct" && event.decision.tool
+            ? { intent: event.decision, agentStatus: `Calling ${formatToolName(event.decision.tool)}` }
+            : { intent: event.decision });
+          break;
+        case "execution_plan":
+          if (event.plan.continue && event.plan.steps) {
+            // One placeholder per remaining step; each is bound to its job once queued
+            const remaining = event.plan.steps.slice(Math.max(event.plan.current, 1));
+            setGalleryItems((prev) => [
+              ...prev,
+              ...remaining.map((step): GeneratedMedia => ({
+                id: `loading-step-${Date.now()}-${step.step}`,
+                type: mediaTypeOfTool(step.tool),
+                url: "",
+                timestamp: new Date(),
+                isLoading: true,
+              })),
+            ]);
+            // Show batch progress while the server runs the remaining steps
+            setBatchExecution({
+              active: true,
+              current: event.plan.current,
+              total: event.plan.total,
+              description: event.plan.description,
+              steps: event.plan.steps,
+            });
+          }
+          updateAgentMessage({
+            agentStatus: event.plan.total > 1
+              ? `Planned ${event.plan.total} steps: ${event.plan.description}`
+              : event.plan.description,
+          });
+          break;
+        case "job_queued":
+          // Bind the request's placeholder to the job so it can be resumed after a reload
+          addPendingJob(event.jobId);
+          activeRequestRef.current?.jobIds.add(event.jobId);
+          setGalleryItems((prev) => {
+            const index = prev.findIndex(item => item.isLoading && !item.jobId);
+            if (index === -1) return prev;
+            const updated = [...prev];
+            updated[index] = { ...updated[index], jobId: event.jobId, type: event.mediaType };
+            return updated;
+          });
+          break;
+        case "tool_call_started":
+          updateAgentMessage({ agentStatus: `Calling ${formatToolName(event.name)}` });
+          break;
+        case "tool_progress":
+          updateAgentMessage({
+            agentStatus: event.total
+              ? `${event.message} (${Math.round(((event.progress || 0) / event.total) * 100)}%)`
+              : event.message,
+          });
+          break;
+        case "tool_result":
+          if (event.result.jobId) {
+            removePendingJob(event.result.jobId);
+          }
+          if (!event.result.error) {
+            updateAgentMessage({ agentStatus: "Finishing up" });
+          }
+          break;
+        case "plan_step":
+          if (event.step.status !== "pending" && event.step.status !== "running") {
+            if (event.step.status !== "succeeded" && event.step.result?.jobId) {
+              removeLoadingPlaceholder(event.step.result.jobId);
+            }
+            setBatchExecution((prev) => prev ? {
+              ...prev,
+              current: Math.min(prev.current + 1, prev.total),
+              description: event.step.description,
+            } : null);
+          }
+          break;
+      }
+    };
+  }, [updateAgentMessage, removeLoadingPlaceholder]);
+
   // Send message to agent
   const sendMessage = useCallback(
     async (message: string, operationContext?: { name: string; params?: any }, skipUserMessage = false) => {
@@ -294,10 +959,25 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
           status: "complete",
         };
 
-        setMessages((prev) => [...prev, userMessage]);
+        // Agent reply is filled in live as the response streams
+        const agentMessage: ChatMessage = {
+          id: `assistant-${Date.now()}`,
+          role: "assistant",
+          content: "Working on it...",
+          timestamp: new Date(),
+          status: "updating",
+          agentStatus: "Thinking of a plan",
+        };
+
+        setMessages((prev) => [...prev, userMessage, agentMessage]);
       }
 
+      const request = createActiveChatRequest();
+      activeRequestRef.current = request;
+
       try {
+        const activeSessionId = await ensureSession(message);
+
         // Prepare comprehensive context object matching PRD Part 1 inputs
         const context = {
           user_input: message,
@@ -309,17 +989,16 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
             mode: params.mode,
             modelInfluence: params.modelInfluence,
           },
-          reference_image: uploadedImageContext?.url || null,
+          reference_image: toContextReferences(referenceImages),
           ai_operation: operationContext || (activeOperation ? { name: activeOperation, params: {} } : null),
           // Use MCP URL if available (token-efficient), fallback to display URL
           preview_image_url: generatedMedia?.imageUrl || generatedMedia?.url || null,
+          preview_media_type: generatedMedia?.type || null,
           structured_prompt: generatedMedia?.metadata?.structuredPrompt || null,
           // Use inpainting mask if available, otherwise use editingState mask
           mask_data: inpaintingMaskBase64 
             ? `data:image/png;base64,${inpaintingMaskBase64}`
             : (editingState.maskData ? exportMask()?.dataUrl || null : null),
-          // Legacy support
-          uploadedImage: uploadedImageContext,
         };
         
         // Debug logging
@@ -331,23 +1010,19 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
         console.log("  - Has structured prompt:", !!generatedMedia?.metadata?.structuredPrompt);
         console.log("  - Context preview_image_url:", context.preview_image_url?.substring(0, 50));
 
-        // Call agent API
-        const response = await fetch("/api/chat", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
+        // Call agent API (streamed so the reply and tool progress show up live)
+        const data = await streamChatRequest(
+          {
             message,
             currentParams: context,
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error("Failed to get response from agent");
-        }
-
-        const data = await response.json();
+            operation: operationContext, // One-click operations skip the agent
+            sessionId: activeSessionId,
+            agentSessionId: agentSessionIdRef.current,
+          },
+          createChatStreamHandler(),
+          "Failed to get response from agent",
+          request
+        );
 
         // Update existing agent message if it exists and is in "updating" status
         // Otherwise create a new assistant message
@@ -390,11 +1065,11 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
               console.error(`Tool ${toolResult.name} failed:`, toolResult.error);
               
               // Remove loading placeholder
-              setGalleryItems((prev) => prev.filter(item => !item.isLoading));
+              removeLoadingPlaceholder(toolResult.jobId);
               
               // Update agent message to show error
               updateAgentMessage({
-                content: toolResult.isContentModeration 
+                content: toolResult.isContentModeration || toolResult.quotaExceeded
                   ? toolResult.error 
                   : `Failed to execute ${toolResult.name}: ${toolResult.error}`,
                 status: "error",
@@ -405,12 +1080,22 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
               continue;
             }
 
+            // Video still rendering: its placeholder fills in when the job finishes
+            if (toolResult.pending && toolResult.jobId) {
+              watchJob(toolResult.jobId);
+              continue;
+            }
+
             // Handle successful tool result - extract media
             if (toolResult.mediaUrl) {
               // Prepare complete media object with all metadata upfront
-              const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> = {
+              const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> & { id?: string } = {
+                id: toolResult.itemId,
                 type: toolResult.mediaType || "image",
                 url: toolResult.mediaUrl,
+                posterUrl: toolResult.posterUrl,
+                duration: toolResult.duration,
+                jobId: toolResult.jobId,
               };
               
               // Add imageUrl if available (for token-efficient context)
@@ -420,15 +1105,15 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
               }
               
               // Add metadata if available (for Priority 4 refinement)
-              if (toolResult.metadata || toolResult.structuredPrompt) {
+              if (toolResult.structuredPrompt) {
                 mediaData.metadata = {
-                  structuredPrompt: toolResult.structuredPrompt || toolResult.metadata?.structuredPrompt,
-                  ...toolResult.metadata,
+                  structuredPrompt: toolResult.structuredPrompt,
                 };
                 console.log("Stored structured prompt for refinement");
               }
               
               // Add to gallery with complete data
+              addAdditionalOutputs(toolResult, { metadata: mediaData.metadata, jobId: mediaData.jobId });
               addToGallery(mediaData);
 
               // Update attribution
@@ -441,114 +1126,45 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
           }
         }
 
-        // Handle batch execution continuation
-        if (data.execution_plan) {
-          if (data.execution_plan.continue && data.execution_plan.steps) {
-            // Store batch state with full plan
-            setBatchExecution({
-              active: true,
-              current: data.execution_plan.current,
-              total: data.execution_plan.total,
-              description: data.execution_plan.description,
-              steps: data.execution_plan.steps,
-            });
-            
-            console.log(`🔄 Starting batch execution: ${data.execution_plan.total} steps`);
-            console.log(`📋 Full plan:`, data.execution_plan.steps);
-            
-            // Execute remaining steps directly (steps 2-N)
-            for (let i = data.execution_plan.current; i < data.execution_plan.total; i++) {
-              const step = data.execution_plan.steps[i]; // steps array is 0-indexed
-              
-              console.log(`⚡ Executing step ${step.step}/${data.execution_plan.total}: ${step.description}`);
-              
-              // Update progress UI
-              setBatchExecution(prev => prev ? {...prev, current: step.step, description: step.description} : null);
-              
-              try {
-                // Call MCP tool directly
-                const toolResponse = await fetch("/api/chat", {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    message: `Direct execution: ${step.tool}`,
-                    toolCalls: [{
-                      name: step.tool,
-                      args: step.args,
-                    }],
-                  }),
-                });
-                
-                if (!toolResponse.ok) {
-                  throw new Error(`Step ${step.step} failed`);
-                }
-                
-                const stepData = await toolResponse.json();
-                
-                // Handle step result
-                if (stepData.toolResults && stepData.toolResults.length > 0) {
-                  for (const toolResult of stepData.toolResults) {
-                    if (toolResult.error) {
-                      console.error(`⚠️ Step ${step.step} failed:`, toolResult.error);
-                      // Skip failed step, continue with next
-                      continue;
-                    }
-                    
-                    if (toolResult.mediaUrl) {
-                      const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> = {
-                        type: toolResult.mediaType || "image",
-                        url: toolResult.mediaUrl,
-                      };
-                      
-                      if (toolResult.imageUrl) {
-                        mediaData.imageUrl = toolResult.imageUrl;
-                      }
-                      
-                      if (toolResult.metadata || toolResult.structuredPrompt) {
-                        mediaData.metadata = {
-                          structuredPrompt: toolResult.structuredPrompt || toolResult.metadata?.structuredPrompt,
-                          ...toolResult.metadata,
-                        };
-                      }
-                      
-                      addToGallery(mediaData);
-                      setAttributionAmount((prev) => prev + 0.001);
-                    }
-                  }
-                }
-              } catch (err) {
-                console.error(`❌ Step ${step.step} execution failed:`, err);
-                // Continue with next step
-              }
-            }
-            
-            // Batch complete
-            console.log("✅ Batch execution complete");
-            setBatchExecution(null);
-            
-            // Update last agent message with completion summary
-            updateAgentMessage({
-              content: `I've created ${data.execution_plan.total} compelling variations for you!`,
-              status: "complete",
-              agentStatus: undefined,
-            });
-            
-            return; // Exit early
-          } else if (!data.execution_plan.continue) {
-            // Single step, no batch
-            setBatchExecution(null);
-          }
+        // Remaining plan steps were executed server-side
+        if (data.planRun && data.execution_plan) {
+          applyPlanRun(data.planRun, data.execution_plan.current);
+          return; // Exit early
+        } else if (data.execution_plan && !data.execution_plan.continue) {
+          // Single step, no batch
+          setBatchExecution(null);
         }
 
         // Legacy support: Execute tool calls if returned separately (old pattern)
         if (data.toolCalls && data.toolCalls.length > 0 && !data.toolResults) {
           for (const toolCall of data.toolCalls) {
-            await executeToolCall(toolCall.name, toolCall.args);
+            await executeToolCall(toolCall.name, toolCall.args, request.controller.signal);
           }
         }
       } catch (err) {
+        // Cancelled by the user - cancelGeneration already cleaned up
+        if (isCancelledError(err)) return;
+
         console.error("Error sending message:", err);
         setError(err instanceof Error ? err.message : "An error occurred");
+
+        setBatchExecution(null);
+        removeLoadingPlaceholder();
+        resumePendingJobs();
+
+        // Don't leave the agent message spinning
+        updateAgentMessage({
+          content: isRequestRejectedError(err)
+            ? err.message
+            : `Something went wrong: ${err instanceof Error ? err.message : "An error occurred"}`,
+          status: "error",
+          isError: true,
+          agentStatus: undefined,
+        });
+      } finally {
+        if (activeRequestRef.current === request) {
+          activeRequestRef.current = null;
+        }
       }
       
       // Clear inpainting mask after use
@@ -556,12 +1172,12 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
         setInpaintingMaskBase64(null);
       }
     },
-    [params, uploadedImageContext, addToGallery, activeOperation, generatedMedia, editingState, inpaintingMaskBase64]
+    [params, referenceImages, addToGallery, addAdditionalOutputs, activeOperation, generatedMedia, editingState, inpaintingMaskBase64, ensureSession, createChatStreamHandler, updateAgentMessage, applyPlanRun, removeLoadingPlaceholder, resumePendingJobs, watchJob]
   );
 
   // Execute MCP tool call
   const executeToolCall = useCallback(
-    async (toolName: string, args: Record<string, any>) => {
+    async (toolName: string, args: Record<string, unknown>, signal?: AbortSignal) => {
       try {
         const response = await fetch("/api/mcp-tools", {
           method: "POST",
@@ -572,35 +1188,31 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
             toolName,
             args,
           }),
+          signal,
         });
 
+        await throwIfRejected(response);
         if (!response.ok) {
           throw new Error(`Failed to execute tool: ${toolName}`);
         }
 
-        const result = await response.json();
-
-        // Handle result based on tool type
-        if (result.content && result.content.length > 0) {
-          const content = result.content[0];
-
-          // If it's an image or video result
-          if (content.type === "image" || content.mimeType?.startsWith("image/")) {
-            addToGallery({
-              type: "image",
-              url: content.data || content.text || "",
-            });
+        const parsed = parseMCPResult(await response.json());
+        if (parsed.kind === "error") {
+          throw new Error(parsed.message);
+        }
 
-            // Update attribution (mock calculation - would come from MCP metadata)
-            setAttributionAmount((prev) => prev + 0.001);
-          } else if (content.type === "video" || content.mimeType?.startsWith("video/")) {
-            addToGallery({
-              type: "video",
-              url: content.data || content.text || "",
-            });
+        const structuredPrompt = parsed.structuredPrompt;
+        for (const [index, output] of mediaOutputs(parsed).entries()) {
+          addToGallery({
+            id: `gallery-${Date.now()}-${index + 1}`,
+            type: output.type,
+            url: output.url,
+            imageUrl: output.remoteUrl,
+            metadata: structuredPrompt ? { structuredPrompt } : undefined,
+          });
 
-            setAttributionAmount((prev) => prev + 0.005);
-          }
+          // Update attribution (mock calculation - would come from MCP metadata)
+          setAttributionAmount((prev) => prev + (output.type === "video" ? 0.005 : 0.001));
         }
       } catch (err) {
         console.error("Error executing tool:", err);
@@ -657,7 +1269,12 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     };
     setGalleryItems((prev) => [...prev, loadingItem]);
 
+    const request = createActiveChatRequest();
+    activeRequestRef.current = request;
+
     try {
+      const activeSessionId = await ensureSession(params.prompt);
+
       // Prepare comprehensive context object matching PRD Part 1 inputs
       const context = {
         user_input: ` ${params.prompt}`,
@@ -669,37 +1286,31 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
           mode: params.mode,
           modelInfluence: params.modelInfluence,
         },
-        reference_image: uploadedImageContext?.url || null,
+        reference_image: toContextReferences(referenceImages),
         // Include active operation for multi-step operations (e.g., replace-background)
         ai_operation: activeOperation ? { name: activeOperation, params: {} } : null,
         // Use MCP URL if available (token-efficient), fallback to display URL
         preview_image_url: generatedMedia?.imageUrl || generatedMedia?.url || null,
+        preview_media_type: generatedMedia?.type || null,
         structured_prompt: generatedMedia?.metadata?.structuredPrompt || null,
         // Use inpainting mask if available, otherwise use editingState mask
         mask_data: inpaintingMaskBase64 
           ? `data:image/png;base64,${inpaintingMaskBase64}`
           : (editingState.maskData ? exportMask()?.dataUrl || null : null),
-        // Legacy support
-        uploadedImage: uploadedImageContext,
       };
 
       // Call chat API with generic params - agent handles tool selection and mapping
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ 
+      const result = await streamChatRequest(
+        {
           message: ` settings: ${params.prompt}`,
-          currentParams: context 
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Generation failed");
-      }
-
-      const result = await response.json();
+          currentParams: context,
+          sessionId: activeSessionId,
+          agentSessionId: agentSessionIdRef.current,
+        },
+        createChatStreamHandler(),
+        "Generation failed",
+        request
+      );
       console.log("Generation result:", result);
       console.log("Tool results:", result.toolResults);
 
@@ -719,13 +1330,24 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
         console.log("First tool result:", toolResult);
         console.log("Media URL length:", toolResult.mediaUrl?.length);
         
-        if (toolResult.mediaUrl) {
+        if (toolResult.pending && toolResult.jobId) {
+          // Video still rendering: its placeholder fills in when the job finishes
+          watchJob(toolResult.jobId);
+          updateAgentMessage({
+            status: "complete",
+            agentStatus: undefined,
+          });
+        } else if (toolResult.mediaUrl) {
           console.log("Setting generated media with URL:", toolResult.mediaUrl.substring(0, 100));
           
           // Prepare complete media object with all metadata upfront
-          const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> = {
-            type: params.mode,
+          const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> & { id?: string } = {
+            id: toolResult.itemId,
+            type: toolResult.mediaType || params.mode,
             url: toolResult.mediaUrl,
+            posterUrl: toolResult.posterUrl,
+            duration: toolResult.duration,
+            jobId: toolResult.jobId,
           };
           
           // Add imageUrl if available (for token-efficient context)
@@ -735,18 +1357,18 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
           }
           
           // Add metadata if available (for Priority 4 refinement)
-          if (toolResult.metadata || toolResult.structuredPrompt) {
+          if (toolResult.structuredPrompt) {
             mediaData.metadata = {
-              structuredPrompt: toolResult.structuredPrompt || toolResult.metadata?.structuredPrompt,
-              ...toolResult.metadata,
+              structuredPrompt: toolResult.structuredPrompt,
             };
             console.log("Stored structured prompt for refinement");
           }
           
           // Add to gallery with complete data
+          addAdditionalOutputs(toolResult, { metadata: mediaData.metadata, jobId: mediaData.jobId });
           addToGallery(mediaData);
 
-          setAttributionAmount((prev) => prev + 0.001);
+          setAttributionAmount((prev) => prev + (mediaData.type === "video" ? 0.005 : 0.001));
           
           // Clear active operation after successful multi-step operation
           if (activeOperation) {
@@ -761,29 +1383,22 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
           });
         } else if (toolResult.error) {
           // Remove loading placeholder
-          setGalleryItems((prev) => prev.filter(item => !item.isLoading));
+          removeLoadingPlaceholder(toolResult.jobId);
           
           // Update agent message to show error
           updateAgentMessage({
-            content: toolResult.isContentModeration 
+            content: toolResult.isContentModeration || toolResult.quotaExceeded
               ? toolResult.error 
               : `Failed to generate: ${toolResult.error}`,
             status: "error",
             isError: true,
             agentStatus: undefined,
           });
-          return; // Exit early
+          // Independent plan steps may still have produced results
+          if (!result.planRun) {
+            return; // Exit early
+          }
         }
-      } else if (result.media) {
-        // Fallback for old format
-        addToGallery(result.media);
-        setAttributionAmount((prev) => prev + (result.attribution || 0.001));
-        
-        // Update agent message to complete
-        updateAgentMessage({
-          status: "complete",
-          agentStatus: undefined,
-        });
       } else {
         // No media generated - use agent's message
         updateAgentMessage({
@@ -793,161 +1408,72 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
         });
       }
 
-      // Handle batch execution continuation
-      if (result.execution_plan) {
-        if (result.execution_plan.continue && result.execution_plan.steps) {
-          // Store batch state with full plan
-          setBatchExecution({
-            active: true,
-            current: result.execution_plan.current,
-            total: result.execution_plan.total,
-            description: result.execution_plan.description,
-            steps: result.execution_plan.steps,
-          });
-          
-          console.log(`🔄 Starting batch execution: ${result.execution_plan.total} steps`);
-          console.log(`📋 Full plan:`, result.execution_plan.steps);
-          
-          // Execute remaining steps directly (steps 2-N)
-          for (let i = result.execution_plan.current; i < result.execution_plan.total; i++) {
-            const step = result.execution_plan.steps[i];
-            
-            console.log(`⚡ Executing step ${step.step}/${result.execution_plan.total}: ${step.description}`);
-            
-            // Update progress UI
-            setBatchExecution(prev => prev ? {...prev, current: step.step, description: step.description} : null);
-            
-            try {
-              // Call MCP tool directly
-              const toolResponse = await fetch("/api/chat", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  message: `Direct execution: ${step.tool}`,
-                  toolCalls: [{
-                    name: step.tool,
-                    args: step.args,
-                  }],
-                }),
-              });
-              
-              if (!toolResponse.ok) {
-                throw new Error(`Step ${step.step} failed`);
-              }
-              
-              const stepData = await toolResponse.json();
-              
-              // Handle step result
-              if (stepData.toolResults && stepData.toolResults.length > 0) {
-                for (const toolResult of stepData.toolResults) {
-                  if (toolResult.error) {
-                    console.error(`⚠️ Step ${step.step} failed:`, toolResult.error);
-                    continue;
-                  }
-                  
-                  if (toolResult.mediaUrl) {
-                    const mediaData: Omit<GeneratedMedia, 'id' | 'timestamp'> = {
-                      type: toolResult.mediaType || "image",
-                      url: toolResult.mediaUrl,
-                    };
-                    
-                    if (toolResult.imageUrl) {
-                      mediaData.imageUrl = toolResult.imageUrl;
-                    }
-                    
-                    if (toolResult.metadata || toolResult.structuredPrompt) {
-                      mediaData.metadata = {
-                        structuredPrompt: toolResult.structuredPrompt || toolResult.metadata?.structuredPrompt,
-                        ...toolResult.metadata,
-                      };
-                    }
-                    
-                    addToGallery(mediaData);
-                    setAttributionAmount((prev) => prev + 0.001);
-                  }
-                }
-              }
-            } catch (err) {
-              console.error(`❌ Step ${step.step} execution failed:`, err);
-            }
-          }
-          
-            // Batch complete
-            console.log("✅ Batch execution complete");
-            setBatchExecution(null);
-            
-            // Update the agent message with completion summary
-            updateAgentMessage({
-              content: `I've created ${result.execution_plan.total} compelling variations for you!`,
-              status: "complete",
-              agentStatus: undefined,
-            });
-          
-          return; // Exit early
-        } else if (!result.execution_plan.continue) {
-          // Single step, no batch
-          setBatchExecution(null);
-        }
+      // Remaining plan steps were executed server-side
+      if (result.planRun && result.execution_plan) {
+        applyPlanRun(result.planRun, result.execution_plan.current);
+      } else if (result.execution_plan && !result.execution_plan.continue) {
+        // Single step, no batch
+        setBatchExecution(null);
       }
     } catch (err) {
+      // Cancelled by the user - cancelGeneration already cleaned up
+      if (isCancelledError(err)) return;
+
       console.error("Error generating:", err);
       const errorMessage = err instanceof Error ? err.message : "Generation failed";
       
       // Update agent message to show error
       updateAgentMessage({
-        content: `Failed to generate: ${errorMessage}`,
+        content: isRequestRejectedError(err) ? errorMessage : `Failed to generate: ${errorMessage}`,
         status: "error",
         isError: true,
         agentStatus: undefined,
       });
       
-      // Remove loading placeholder on error
-      setGalleryItems((prev) => prev.filter(item => !item.isLoading));
+      // Remove loading placeholder on error; jobs that were already queued
+      // keep running server-side, so pick them back up
+      removeLoadingPlaceholder();
+      setBatchExecution(null);
+      resumePendingJobs();
     } finally {
+      if (activeRequestRef.current === request) {
+        activeRequestRef.current = null;
+      }
       setIsGenerating(false);
       // Clear inpainting mask after generation attempt
       if (inpaintingMaskBase64) {
         setInpaintingMaskBase64(null);
       }
     }
-  }, [params, uploadedImageContext, addToGallery, generatedMedia, editingState, activeOperation, updateAgentMessage, inpaintingMaskBase64]);
+  }, [params, referenceImages, addToGallery, addAdditionalOutputs, generatedMedia, editingState, activeOperation, updateAgentMessage, inpaintingMaskBase64, ensureSession, createChatStreamHandler, applyPlanRun, removeLoadingPlaceholder, resumePendingJobs, watchJob]);
 
-  // Upload image for reference only (prompt box) - does NOT display in canvas
-  const uploadImageForReference = useCallback(async (file: File) => {
+  // Upload image as a prompt box reference (appended to the list) - does NOT display in canvas
+  const uploadImageForReference = useCallback(async (
+    file: File,
+    reference: Partial<Pick<ReferenceImageItem, "role" | "weight">> = {}
+  ) => {
     try {
-      const formData = new FormData();
-      formData.append("image", file);
-
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Upload failed");
-      }
-
-      const result = await response.json();
-      
-      console.log("Upload result (reference):", result);
-
-      // Store uploaded image context including MCP response
-      setUploadedImageContext({
-        url: result.url,
-        mcpResponse: result.mcpResponse,
-        filename: result.filename,
-      });
-
-      // DO NOT display in canvas - only for reference
-      // The thumbnail will be shown in the prompt box by LeftSidebar component
+      const { image, referenceError } = await uploadImageFile(file);
+      const role = reference.role || "subject";
+
+      // The thumbnail is shown in the prompt box by LeftSidebar component
+      setReferenceImages((prev) => [
+        ...prev,
+        {
+          ...image,
+          id: `reference-${Date.now()}-${prev.length}`,
+          role,
+          weight: reference.weight ?? DEFAULT_REFERENCE_WEIGHT,
+        },
+      ]);
 
       // Add message
       const uploadMessage: ChatMessage = {
         id: `assistant-${Date.now()}`,
         role: "assistant",
-        content: result.mcpResponse 
-          ? "Reference image uploaded successfully! It will be used during generation."
-          : "Reference image uploaded! You can now generate with this as context.",
+        content: referenceError
+          ? `Reference image uploaded, but registering it failed (${referenceError}). Its URL will be used instead.`
+          : `Reference image uploaded as a ${role} reference! It will be used during generation.`,
         timestamp: new Date(),
         status: "complete",
       };
@@ -961,33 +1487,18 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
   // Upload image for display (canvas) - shows in canvas
   const uploadImageForDisplay = useCallback(async (file: File) => {
     try {
-      const formData = new FormData();
-      formData.append("image", file);
+      const { image } = await uploadImageFile(file);
 
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Upload failed");
-      }
-
-      const result = await response.json();
-      
-      console.log("Upload result (display):", result);
-
-      // Store uploaded image context including MCP response
-      setUploadedImageContext({
-        url: result.url,
-        mcpResponse: result.mcpResponse,
-        filename: result.filename,
-      });
+      // Also usable as a subject reference
+      setReferenceImages((prev) => [
+        ...prev,
+        { ...image, id: `reference-${Date.now()}-${prev.length}`, role: "subject", weight: DEFAULT_REFERENCE_WEIGHT },
+      ]);
 
       // Display uploaded image in canvas (add to gallery)
       addToGallery({
         type: "image",
-        url: result.url,
+        url: image.url,
       });
 
       // Add message
@@ -1039,9 +1550,32 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     setError(undefined);
   }, []);
 
-  // Clear uploaded image context
-  const clearUploadedImageContext = useCallback(() => {
-    setUploadedImageContext(null);
+  // Reference image list (prompt box)
+  const updateReferenceImage = useCallback(
+    (id: string, updates: Partial<Pick<ReferenceImageItem, "role" | "weight">>) => {
+      setReferenceImages((prev) => prev.map((reference) => (reference.id === id ? { ...reference, ...updates } : reference)));
+    },
+    []
+  );
+
+  const moveReferenceImage = useCallback((id: string, offset: number) => {
+    setReferenceImages((prev) => {
+      const from = prev.findIndex((reference) => reference.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const removeReferenceImage = useCallback((id: string) => {
+    setReferenceImages((prev) => prev.filter((reference) => reference.id !== id));
+  }, []);
+
+  const clearReferenceImages = useCallback(() => {
+    setReferenceImages([]);
   }, []);
 
   // Editing Methods
@@ -1210,18 +1744,9 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     }
     
     // Set loading state
-    const operationNames: Record<AIOperation, string> = {
-      "remove-background": "Remove background",
-      "blur-background": "Blur background",
-      "enhance-image": "Enhance image",
-      "replace-background": "Replace background",
-      "generative-fill": "Generative fill",
-      "object-eraser": "Object eraser",
-      "increase-resolution": "Increase resolution",
-      "expand": "Expand",
-    };
+    const displayName = OPERATION_METADATA[operation].displayName;
     
-    setOperationLoadingName(operationNames[operation]);
+    setOperationLoadingName(displayName);
     setError(undefined);
     
     try {
@@ -1229,7 +1754,7 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
       const userMessage: ChatMessage = {
         id: `user-${Date.now()}`,
         role: "user",
-        content: operationNames[operation],
+        content: displayName,
         timestamp: new Date(),
         status: "complete",
       };
@@ -1257,57 +1782,12 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
       };
       setGalleryItems((prev) => [...prev, loadingItem]);
       
-      // Build operation message and context based on operation type and params
-      let message = "";
-      let operationContext: { name: string; params?: any } = {
-        name: operation,
-        params: params || {},
-      };
-      
-      switch (operation) {
-        case "remove-background":
-          message = "Remove the background from the current image";
-          break;
-        case "blur-background":
-          message = "Blur the background of the current image";
-          break;
-        case "enhance-image":
-          message = "Enhance the quality of the current image";
-          break;
-        case "increase-resolution":
-          const scale = params?.scale || 2;
-          message = `Increase the resolution of the current image by ${scale}x`;
-          operationContext.params = { factor: scale };
-          break;
-        case "replace-background":
-          message = `Replace the background of the current image with: ${params?.prompt || ""}`;
-          operationContext.params = { prompt: params?.prompt };
-          break;
-        case "generative-fill":
-          message = "Apply generative fill to the masked area";
-          break;
-        case "object-eraser":
-          message = "Erase the masked object from the image";
-          break;
-        case "expand":
-          message = "Expand the image";
-          operationContext.params = params || {};
-          break;
-        default:
-          message = `Execute ${operation} operation`;
-      }
-      
-      if (message) {
-        // Update agent status
-        updateAgentMessage({ agentStatus: `Working on your ${operationNames[operation]} request...` });
-        
-        // Pass operation context as second argument (Priority 1: Explicit AI Operations)
-        // Skip user message creation since we already created it above
-        await sendMessage(message, operationContext, true);
-        
-        // Note: sendMessage will update the agent message based on LLM response
-        // No need to manually update here - the LLM provides personalized completion message
-      }
+      updateAgentMessage({ agentStatus: `Working on your ${displayName} request...` });
+
+      // The server maps the operation to its MCP tool and arguments through the
+      // operation registry (lib/operations.ts) and calls it without the agent.
+      // Skip user message creation since we already created it above
+      await sendMessage(displayName, { name: operation, params: params || {} }, true);
       
       // Clear active operation after execution
       setActiveOperation(null);
@@ -1318,18 +1798,18 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
       
       // Update agent message with error
       updateAgentMessage({ 
-        content: `Failed to ${operationNames[operation]}: ${err instanceof Error ? err.message : "Unknown error"}`,
+        content: `Failed to ${displayName}: ${err instanceof Error ? err.message : "Unknown error"}`,
         status: "error",
         isError: true,
         agentStatus: undefined,
       });
       
       // Remove loading placeholder on error
-      setGalleryItems((prev) => prev.filter(item => !item.isLoading));
+      removeLoadingPlaceholder();
     } finally {
       setOperationLoadingName(null);
     }
-  }, [generatedMedia, sendMessage, updateAgentMessage]);
+  }, [generatedMedia, sendMessage, updateAgentMessage, removeLoadingPlaceholder]);
   
   const selectOperation = useCallback((operation: AIOperation) => {
     // One-click operations execute immediately
@@ -1380,10 +1860,197 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     setParams((prev) => ({ ...prev, prompt: "" }));
   }, []);
 
+  // Stop the in-flight generation: the agent, its queued jobs and the remaining plan steps
+  const cancelGeneration = useCallback(() => {
+    const request = activeRequestRef.current;
+    if (!request) return;
+    activeRequestRef.current = null;
+
+    // Work continues server-side after a disconnect, so cancel it explicitly
+    fetch(`/api/chat/${request.id}`, { method: "DELETE" }).catch((err) =>
+      console.warn("⚠️ Failed to cancel request:", err)
+    );
+    request.controller.abort();
+
+    for (const jobId of request.jobIds) {
+      removePendingJob(jobId);
+    }
+    setGalleryItems((prev) => prev.filter(item =>
+      !(item.isLoading && (!item.jobId || request.jobIds.has(item.jobId)))
+    ));
+
+    setBatchExecution(null);
+    setIsGenerating(false);
+    setOperationLoadingName(null);
+    updateAgentMessage({
+      content: "Cancelled.",
+      status: "complete",
+      agentStatus: undefined,
+    });
+  }, [updateAgentMessage]);
+
+  // Stop a job that outlived its request (a detached video render)
+  const cancelJob = useCallback((jobId: string) => {
+    removePendingJob(jobId);
+    removeLoadingPlaceholder(jobId);
+    fetch(`/api/jobs/${jobId}`, { method: "DELETE" }).catch((err) =>
+      console.warn(`⚠️ Failed to cancel job ${jobId}:`, err)
+    );
+  }, [removeLoadingPlaceholder]);
+
   const setInpaintingMask = useCallback((maskBase64: string) => {
     setInpaintingMaskBase64(maskBase64);
   }, []);
 
+  // Load the next (older) page of gallery history
+  const loadMoreGallery = useCallback(async () => {
+    if (!galleryCursor) return;
+
+    try {
+      const response = await fetch(
+        `/api/generations?limit=${GALLERY_PAGE_SIZE}&before=${encodeURIComponent(galleryCursor)}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to load more gallery items");
+      }
+
+      const page: { items: GeneratedMedia[]; nextCursor: string | null } = await response.json();
+      const older = page.items.map(deserializeGalleryItem).reverse();
+
+      setGalleryItems((prev) => [
+        ...older.filter((item) => !prev.some((existing) => existing.id === item.id)),
+        ...prev,
+      ]);
+      setGalleryCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error loading more gallery items:", err);
+      setError(err instanceof Error ? err.message : "Failed to load gallery");
+    }
+  }, [galleryCursor]);
+
+  // Remove a gallery item locally and from history
+  const deleteGalleryItem = useCallback(async (id: string) => {
+    setGalleryItems((prev) => prev.filter((item) => item.id !== id));
+
+    if (activeItemId === id) {
+      setGeneratedMedia(undefined);
+      setActiveItemId(undefined);
+    }
+
+    try {
+      const response = await fetch(`/api/generations/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 401 && response.status !== 404) {
+        throw new Error("Failed to delete gallery item");
+      }
+    } catch (err) {
+      console.error("Error deleting gallery item:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete gallery item");
+    }
+  }, [activeItemId]);
+
+  // Start a fresh chat: clears the workspace but keeps the (per-user) gallery
+  const startNewSession = useCallback(() => {
+    setSessionId(null);
+    agentSessionIdRef.current = createAgentSessionId();
+    setMessages(INITIAL_MESSAGES.map((message) => ({ ...message, timestamp: new Date() })));
+    setParams(DEFAULT_PARAMS);
+    setGeneratedMedia(undefined);
+    setActiveItemId(undefined);
+    setReferenceImages([]);
+    setEditingState(DEFAULT_STATE);
+    setActiveOperation(null);
+    setBatchExecution(null);
+    setInpaintingMaskBase64(null);
+    setError(undefined);
+  }, []);
+
+  // Reload a saved session's thread, params and active gallery item
+  const resumeSession = useCallback(async (id: string) => {
+    if (id === sessionId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? "Chat not found" : "Failed to load chat");
+      }
+
+      const { session }: { session: ChatSessionState } = await response.json();
+
+      // The active item may be older than the loaded gallery page
+      let activeItem = session.activeItemId
+        ? galleryItems.find((item) => item.id === session.activeItemId)
+        : undefined;
+      if (session.activeItemId && !activeItem) {
+        const itemResponse = await fetch(`/api/generations/${encodeURIComponent(session.activeItemId)}`);
+        if (itemResponse.ok) {
+          const { item }: { item: GeneratedMedia } = await itemResponse.json();
+          activeItem = deserializeGalleryItem(item);
+          const restoredItem = activeItem;
+          setGalleryItems((prev) => [restoredItem, ...prev.filter((existing) => existing.id !== restoredItem.id)]);
+        }
+      }
+
+      skipNextSessionSaveRef.current = true;
+      setSessionId(session.id);
+      setMessages(session.messages.length > 0 ? session.messages.map(deserializeMessage) : INITIAL_MESSAGES);
+      setParams({ ...DEFAULT_PARAMS, ...session.params });
+      setGeneratedMedia(activeItem);
+      setActiveItemId(activeItem?.id);
+      setReferenceImages([]);
+      setEditingState(DEFAULT_STATE);
+      setActiveOperation(null);
+      setBatchExecution(null);
+      console.log("💬 Resumed session:", session.id, session.title);
+    } catch (err) {
+      console.error("Error resuming session:", err);
+      setError(err instanceof Error ? err.message : "Failed to load chat");
+    }
+  }, [sessionId, galleryItems]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    if (!title.trim()) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to rename chat");
+      }
+
+      const { session }: { session: ChatSessionState } = await response.json();
+      setRecentSessions((prev) =>
+        prev.map((summary) => (summary.id === id ? { ...summary, title: session.title } : summary))
+      );
+    } catch (err) {
+      console.error("Error renaming session:", err);
+      setError(err instanceof Error ? err.message : "Failed to rename chat");
+    }
+  }, []);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to delete chat");
+      }
+
+      setRecentSessions((prev) => prev.filter((summary) => summary.id !== id));
+      if (id === sessionId) {
+        startNewSession();
+      }
+    } catch (err) {
+      console.error("Error deleting session:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete chat");
+    }
+  }, [sessionId, startNewSession]);
+
   // Restore generation parameters from a gallery item
   const restoreParametersFromGallery = useCallback(async (itemId: string) => {
     const item = galleryItems.find((item) => item.id === itemId);
@@ -1392,41 +2059,36 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
       return;
     }
 
-    const { prompt, params: savedParams, referenceImageUrl, aiOperation } = item.generationParams;
+    const { prompt, params: savedParams, referenceImageUrl, referenceImages: savedReferences, aiOperation } =
+      item.generationParams;
 
     // Restore parameters
     setParams(savedParams);
 
-    // Restore reference image if it exists
-    if (referenceImageUrl) {
+    // Restore reference images (items saved before roles existed have a single subject reference)
+    setReferenceImages([]);
+    const references = savedReferences?.length
+      ? savedReferences
+      : referenceImageUrl
+        ? [{ url: referenceImageUrl, role: "subject" as const, weight: DEFAULT_REFERENCE_WEIGHT }]
+        : [];
+    for (const reference of references) {
       try {
         // Convert data URL or remote URL to File object for uploadImageForReference
-        const response = await fetch(referenceImageUrl);
+        const response = await fetch(reference.url);
         const blob = await response.blob();
         const file = new File([blob], "reference-image.jpg", { type: blob.type });
-        await uploadImageForReference(file);
+        await uploadImageForReference(file, { role: reference.role, weight: reference.weight });
       } catch (err) {
         console.error("Failed to restore reference image:", err);
       }
-    } else {
-      // Clear reference image if none was used
-      setUploadedImageContext(null);
     }
 
     // If it was an AI operation, set the prompt to the operation name
     if (aiOperation) {
       // Map operation names to display text
-      const operationNames: Record<string, string> = {
-        "remove-background": "remove background",
-        "blur-background": "blur background",
-        "enhance-image": "enhance image",
-        "increase-resolution": "increase resolution",
-        "replace-background": "replace background",
-        "generative-fill": "generative fill",
-        "object-eraser": "object eraser",
-        "expand": "expand",
-      };
-      setParams((prev) => ({ ...prev, prompt: operationNames[aiOperation] || aiOperation }));
+      const operationName = OPERATION_METADATA[aiOperation as AIOperation]?.displayName.toLowerCase();
+      setParams((prev) => ({ ...prev, prompt: operationName || aiOperation }));
     } else {
       // Restore the original prompt
       setParams((prev) => ({ ...prev, prompt }));
@@ -1439,15 +2101,20 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     generatedMedia,
     galleryItems,
     activeItemId,
+    hasMoreGallery: !!galleryCursor,
+    sessionId,
+    recentSessions,
     isGenerating,
     error,
     editingState,
-    uploadedImageContext,
+    referenceImages,
     instructionsPaneState,
     activeOperation,
     operationLoadingName,
     batchExecution,
     sendMessage,
+    cancelGeneration,
+    cancelJob,
     updateAgentMessage,
     updateParams,
     generate,
@@ -1455,9 +2122,18 @@ export function useBriaGeneration(): UseBriaGenerationReturn {
     uploadImageForDisplay,
     surpriseMe,
     clearError,
-    clearUploadedImageContext,
+    updateReferenceImage,
+    moveReferenceImage,
+    removeReferenceImage,
+    clearReferenceImages,
     setActiveItem,
     restoreParametersFromGallery,
+    loadMoreGallery,
+    deleteGalleryItem,
+    startNewSession,
+    resumeSession,
+    renameSession,
+    deleteSession,
     setActiveTool,
     updateSelection,
     updateMask,
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { routeIntent, type ChatContext } from "../intent-router";
+import { getAgentForSession } from "../gemini-agent";
+import { setAgentProvider } from "../agent-provider";
+import { FakeAgentProvider } from "../fake-agent-provider";
+import { handleMockMCPMessage, MOCK_MCP_TOOLS, pickMockFailure, type JsonRpcMessage } from "../mock-mcp";
+import { executeToolCall, type ToolCall } from "../tool-execution";
+import type { BriaMCPClient } from "../mcp-client";
+
+// Router -> agent (scripted) -> tool execution, against the mock Bria server
+
+const BASE_URL = "http://localhost:3000";
+const CURRENT_IMAGE = `${BASE_URL}/api/mock-mcp/images/current.svg`;
+
+// Just enough of BriaMCPClient for executeToolCall: calls go to the mock's JSON-RPC handler
+const mockMCPClient = {
+  async callTool(name: string, args: Record<string, unknown>) {
+    const message: JsonRpcMessage = { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } };
+    const response = await handleMockMCPMessage(message, { baseUrl: BASE_URL }, pickMockFailure(message));
+    if (response?.error) {
+      throw Object.assign(new Error(response.error.message), { code: response.error.code });
+    }
+    return response?.result;
+  },
+} as unknown as BriaMCPClient;
+
+const provider = new FakeAgentProvider();
+let session = 0;
+
+// One chat turn the way /api/chat runs it: route, then the agent unless the route is direct
+async function runTurn(message: string, context: ChatContext = {}) {
+  const route = routeIntent(message, context, MOCK_MCP_TOOLS);
+  const agent = getAgentForSession(`test:${++session}`);
+  agent.initializeWithMCPTools(MOCK_MCP_TOOLS);
+
+  const toolCalls: ToolCall[] = route.toolCall
+    ? [route.toolCall]
+    : (await agent.sendMessage(message, context, undefined, undefined, route.decision)).toolCalls || [];
+
+  const results = await Promise.all(
+    toolCalls.map((call, index) => executeToolCall(mockMCPClient, call, `call-${index}`))
+  );
+  return { decision: route.decision, toolCalls, results };
+}
+
+describe("router -> fake agent -> tool execution", () => {
+  beforeAll(() => {
+    vi.stubEnv("MOCK_MCP_LATENCY_MS", "0");
+    setAgentProvider(provider);
+    for (const method of ["log", "warn", "error", "group", "groupEnd"] as const) {
+      vi.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterAll(() => {
+    setAgentProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    provider.setScript([]);
+  });
+
+  it("generates an image from a text prompt", async () => {
+    const { decision, toolCalls, results } = await runTurn("a lighthouse at dusk", {
+      parameters: { mode: "image" },
+    });
+
+    expect(decision.intent).toBe("text_to_image");
+    expect(toolCalls).toEqual([{ name: "text_to_image", args: { prompt: "a lighthouse at dusk" } }]);
+    expect(results[0].error).toBeUndefined();
+    expect(results[0].mediaType).toBe("image");
+    expect(results[0].mediaUrl).toMatch(new RegExp(`^${BASE_URL}/`));
+    expect(results[0].structuredPrompt).toBeTruthy();
+  });
+
+  it("runs an explicit operation without the agent", async () => {
+    const startChat = vi.spyOn(provider, "startChat");
+    const { decision, toolCalls, results } = await runTurn("Remove background", {
+      ai_operation: { name: "remove-background" },
+      preview_image_url: CURRENT_IMAGE,
+    });
+
+    expect(decision).toMatchObject({ intent: "explicit_operation", route: "direct", tool: "remove_background" });
+    expect(toolCalls[0]).toEqual({ name: "remove_background", args: { image: CURRENT_IMAGE } });
+    expect(results[0].mediaUrl).toBeTruthy();
+    expect(startChat).not.toHaveBeenCalled();
+    startChat.mockRestore();
+  });
+
+  it("executes the tool calls the agent's script asks for", async () => {
+    provider.setScript([
+      {
+        match: "blur",
+        text: "Blurring the background.",
+        functionCalls: [{ name: "blur_background", args: { image: CURRENT_IMAGE } }],
+      },
+    ]);
+
+    const { decision, toolCalls, results } = await runTurn("blur background please", {
+      preview_image_url: CURRENT_IMAGE,
+    });
+
+    expect(decision.intent).toBe("nl_operation");
+    expect(toolCalls).toEqual([{ name: "blur_background", args: { image: CURRENT_IMAGE } }]);
+    expect(results[0]).toMatchObject({ name: "blur_background", mediaType: "image" });
+  });
+
+  it("keeps calls with invalid arguments away from MCP", async () => {
+    provider.setScript([
+      { match: "castle", functionCalls: [{ name: "text_to_image", args: { prompt: "a castle", not_a_param: true } }] },
+    ]);
+
+    const { toolCalls, results } = await runTurn("a castle");
+
+    // The repair round trip gets no corrected call from the script, so nothing runs
+    expect(toolCalls).toEqual([]);
+    expect(results).toEqual([]);
+  });
+
+  it("reports content moderation as a friendly error", async () => {
+    const { results } = await runTurn("[mock:moderation] something questionable");
+
+    expect(results[0]).toMatchObject({ name: "text_to_image", isContentModeration: true });
+    expect(results[0].error).toMatch(/content moderation/i);
+    expect(results[0].mediaUrl).toBeUndefined();
+  });
+});
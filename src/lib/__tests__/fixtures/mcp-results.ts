@@ -0,0 +1,96 @@
+// tools/call results as MCP servers send them, for the mcp-result tests
+
+export const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+// Bria: inline preview plus the full-size URL in a text line
+export const inlinePreviewWithUrl = {
+  content: [
+    { type: "image", data: PNG_BASE64, mimeType: "image/png" },
+    { type: "text", text: "Image generated. For full image Preview use: https://cdn.bria.ai/results/abc123.png." },
+  ],
+};
+
+// Video with its poster and duration in JSON
+export const videoWithPoster = {
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify({
+        result: {
+          video_url: "https://cdn.bria.ai/videos/clip.webm?sig=1",
+          thumbnail_url: "https://cdn.bria.ai/videos/clip.jpg",
+          duration_ms: 5200,
+        },
+      }),
+    },
+  ],
+};
+
+// Video URL in text, its poster frame inline
+export const videoWithInlinePoster = {
+  content: [
+    { type: "text", text: "For full video preview use: https://cdn.bria.ai/videos/run.mp4" },
+    { type: "image", data: PNG_BASE64, mimeType: "image/png" },
+  ],
+};
+
+// Several outputs in one JSON result
+export const multipleOutputs = {
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify({
+        result: [
+          { image_url: "https://cdn.bria.ai/results/1.png" },
+          { image_url: "https://cdn.bria.ai/results/2.png" },
+          { image_url: "https://cdn.bria.ai/results/3.png" },
+        ],
+      }),
+    },
+  ],
+};
+
+export const textOnly = {
+  content: [{ type: "text", text: "The prompt was too vague to generate anything." }],
+};
+
+export const toolError = {
+  isError: true,
+  content: [{ type: "text", text: "Content moderation: the request was rejected" }],
+};
+
+export const embeddedBlob = {
+  content: [
+    {
+      type: "resource",
+      resource: { uri: "https://cdn.bria.ai/results/blob.png", mimeType: "image/png", blob: PNG_BASE64 },
+    },
+  ],
+};
+
+export const embeddedUri = {
+  content: [{ type: "resource", resource: { uri: "https://cdn.bria.ai/videos/embedded.mp4", mimeType: "video/mp4" } }],
+};
+
+export const resourceLink = {
+  content: [{ type: "resource_link", uri: "https://cdn.bria.ai/results/linked.jpg", mimeType: "image/jpeg" }],
+};
+
+export const malformedJson = {
+  content: [{ type: "text", text: '{"result": {"image_url": "https://cdn.bria.ai/results/broken.png"' }],
+};
+
+// A structured prompt next to the image URL (Fibo generations)
+export const structuredPromptResult = {
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify({
+        result: {
+          image_url: "https://cdn.bria.ai/results/fibo.png",
+          structured_prompt: JSON.stringify({ short_description: "A red fox in snow", objects: [] }),
+        },
+      }),
+    },
+  ],
+};
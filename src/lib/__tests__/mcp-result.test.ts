@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { mediaOutputs, parseMCPResult } from "../mcp-result";
+import * as fixtures from "./fixtures/mcp-results";
+
+describe("parseMCPResult", () => {
+  it("pairs an inline preview with the 'for full preview use' URL", () => {
+    const result = parseMCPResult(fixtures.inlinePreviewWithUrl);
+
+    expect(result.kind).toBe("image");
+    expect(mediaOutputs(result)).toEqual([
+      {
+        type: "image",
+        url: "https://cdn.bria.ai/results/abc123.png",
+        remoteUrl: "https://cdn.bria.ai/results/abc123.png",
+        mimeType: "image/png",
+      },
+    ]);
+  });
+
+  it("reads a video's poster and duration from JSON", () => {
+    const result = parseMCPResult(fixtures.videoWithPoster);
+
+    expect(result.kind).toBe("video");
+    expect(mediaOutputs(result)).toEqual([
+      {
+        type: "video",
+        url: "https://cdn.bria.ai/videos/clip.webm?sig=1",
+        remoteUrl: "https://cdn.bria.ai/videos/clip.webm?sig=1",
+        mimeType: "video/webm",
+        posterUrl: "https://cdn.bria.ai/videos/clip.jpg",
+        duration: 5.2,
+      },
+    ]);
+  });
+
+  it("uses an inline image without a URL of its own as the video's poster", () => {
+    const result = parseMCPResult(fixtures.videoWithInlinePoster);
+
+    expect(result.kind).toBe("video");
+    expect(mediaOutputs(result)).toEqual([
+      {
+        type: "video",
+        url: "https://cdn.bria.ai/videos/run.mp4",
+        remoteUrl: "https://cdn.bria.ai/videos/run.mp4",
+        mimeType: "video/mp4",
+        posterUrl: `data:image/png;base64,${fixtures.PNG_BASE64}`,
+      },
+    ]);
+  });
+
+  it("returns every output of a multi-output result, in order", () => {
+    const result = parseMCPResult(fixtures.multipleOutputs);
+
+    expect(result.kind).toBe("multiple");
+    expect(mediaOutputs(result).map((output) => output.url)).toEqual([
+      "https://cdn.bria.ai/results/1.png",
+      "https://cdn.bria.ai/results/2.png",
+      "https://cdn.bria.ai/results/3.png",
+    ]);
+  });
+
+  it("returns text when there is no media", () => {
+    const result = parseMCPResult(fixtures.textOnly);
+
+    expect(result).toEqual({
+      kind: "text",
+      structuredPrompt: null,
+      text: "The prompt was too vague to generate anything.",
+    });
+    expect(mediaOutputs(result)).toEqual([]);
+  });
+
+  it("turns isError results into errors with the tool's message", () => {
+    expect(parseMCPResult(fixtures.toolError)).toEqual({
+      kind: "error",
+      message: "Content moderation: the request was rejected",
+    });
+  });
+
+  it("reads embedded resources with a blob, keeping their URI as the remote URL", () => {
+    const result = parseMCPResult(fixtures.embeddedBlob);
+
+    expect(mediaOutputs(result)).toEqual([
+      {
+        type: "image",
+        url: "https://cdn.bria.ai/results/blob.png",
+        remoteUrl: "https://cdn.bria.ai/results/blob.png",
+        mimeType: "image/png",
+      },
+    ]);
+  });
+
+  it("reads embedded resources with only a URI", () => {
+    const result = parseMCPResult(fixtures.embeddedUri);
+
+    expect(result.kind).toBe("video");
+    expect(mediaOutputs(result)[0]).toMatchObject({
+      type: "video",
+      url: "https://cdn.bria.ai/videos/embedded.mp4",
+      mimeType: "video/mp4",
+    });
+  });
+
+  it("reads resource links", () => {
+    const result = parseMCPResult(fixtures.resourceLink);
+
+    expect(result.kind).toBe("image");
+    expect(mediaOutputs(result)[0]).toMatchObject({
+      type: "image",
+      url: "https://cdn.bria.ai/results/linked.jpg",
+      mimeType: "image/jpeg",
+    });
+  });
+
+  it("treats malformed JSON as plain text", () => {
+    const result = parseMCPResult(fixtures.malformedJson);
+
+    expect(result.kind).toBe("text");
+    expect(result).toMatchObject({ structuredPrompt: null });
+  });
+
+  it("finds a structured prompt given as a JSON string", () => {
+    const result = parseMCPResult(fixtures.structuredPromptResult);
+
+    expect(result.kind).toBe("image");
+    expect(result).toMatchObject({
+      structuredPrompt: { short_description: "A red fox in snow", objects: [] },
+    });
+  });
+
+  it("never throws on results that aren't MCP results", () => {
+    expect(parseMCPResult(null)).toEqual({ kind: "text", structuredPrompt: null, text: "" });
+    expect(parseMCPResult({ content: "not an array" }).kind).toBe("text");
+  });
+});
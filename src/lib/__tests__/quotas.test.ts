@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { consumeGenerationQuota, getGenerationQuota, refundGenerationQuota } from "../quotas";
+import { ToolArgsValidationError } from "../tool-args";
+import { getMCPClient } from "../mcp-client";
+import { POST } from "@/app/api/mcp-tools/route";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: "quota-test-user" }),
+}));
+
+vi.mock("../mcp-client", () => {
+  const client = { isConnected: () => true, connect: async () => undefined, callTool: vi.fn() };
+  return { getMCPClient: () => client };
+});
+
+const REQUESTER = "user:quota-test-user";
+
+function callTool(toolName: string, args: Record<string, unknown>) {
+  return POST(
+    new NextRequest("http://localhost:3000/api/mcp-tools", {
+      method: "POST",
+      body: JSON.stringify({ toolName, args }),
+    })
+  );
+}
+
+describe("generation quota", () => {
+  beforeAll(() => {
+    vi.stubEnv("MONGODB_URI", "");
+    for (const method of ["log", "warn", "error"] as const) {
+      vi.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    // Back to zero for the test user
+    while ((await getGenerationQuota(REQUESTER)).used > 0) {
+      await refundGenerationQuota(REQUESTER);
+    }
+  });
+
+  it("refunds a consumed generation, never below zero", async () => {
+    await consumeGenerationQuota(REQUESTER);
+    expect((await getGenerationQuota(REQUESTER)).used).toBe(1);
+
+    await refundGenerationQuota(REQUESTER);
+    await refundGenerationQuota(REQUESTER);
+    expect((await getGenerationQuota(REQUESTER)).used).toBe(0);
+  });
+
+  it("leaves the count unchanged when a direct tool call is rejected", async () => {
+    vi.mocked(getMCPClient().callTool).mockRejectedValueOnce(
+      new ToolArgsValidationError("text_to_image", [{ path: "prompt", code: "invalid_type", message: "Required" }])
+    );
+
+    const response = await callTool("text_to_image", {});
+
+    expect(response.status).toBe(422);
+    expect((await getGenerationQuota(REQUESTER)).used).toBe(0);
+  });
+
+  it("leaves the count unchanged when the tool reports an error", async () => {
+    vi.mocked(getMCPClient().callTool).mockResolvedValueOnce({
+      isError: true,
+      content: [{ type: "text", text: "Service unavailable" }],
+    });
+
+    await callTool("text_to_image", { prompt: "a fox" });
+
+    expect((await getGenerationQuota(REQUESTER)).used).toBe(0);
+  });
+
+  it("counts a call that produced a result", async () => {
+    vi.mocked(getMCPClient().callTool).mockResolvedValueOnce({
+      content: [{ type: "text", text: "For full image Preview use: https://cdn.bria.ai/results/fox.png" }],
+    });
+
+    const response = await callTool("text_to_image", { prompt: "a fox" });
+
+    expect(response.status).toBe(200);
+    expect((await getGenerationQuota(REQUESTER)).used).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { fetchPublicUrl, isPublicAddress } from "../safe-fetch";
+
+const OPTIONS = { maxBytes: 1024, timeoutMs: 5000 };
+
+describe("isPublicAddress", () => {
+  it("refuses loopback, private, link-local and mapped addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    expect(isPublicAddress("8.8.8.8")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  it("refuses IP literals on internal networks", async () => {
+    await expect(fetchPublicUrl("http://169.254.169.254/latest/meta-data", OPTIONS)).rejects.toThrow(/non-public/);
+    await expect(fetchPublicUrl("http://[::1]:3000/", OPTIONS)).rejects.toThrow(/non-public/);
+  });
+
+  it("refuses host names that resolve to loopback", async () => {
+    await expect(fetchPublicUrl("http://localhost:3000/", OPTIONS)).rejects.toThrow(/non-public/);
+  });
+
+  it("refuses other protocols", async () => {
+    await expect(fetchPublicUrl("file:///etc/passwd", OPTIONS)).rejects.toThrow(/file:/);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * LLM provider layer for the orchestrator agent
+ *
+ * The agent (gemini-agent.ts) talks to the model only through AgentProvider:
+ * a chat with a system instruction, function declarations and history. The
+ * provider and model come from env, so models can be swapped without touching
+ * the agent or /api/chat:
+ *
+ *   AGENT_PROVIDER  gemini (default) | openai (any OpenAI-compatible endpoint,
+ *                   e.g. a local vLLM or Ollama) | fake (scripted, for tests)
+ *   AGENT_MODEL     model name; defaults per provider
+ */
+
+import { hasEnv } from "./env-init";
+import { GeminiAgentProvider } from "./gemini-provider";
+import { OpenAICompatibleAgentProvider } from "./openai-provider";
+import { FakeAgentProvider } from "./fake-agent-provider";
+
+/**
+ * One turn of conversation history. Same shape as Gemini's Content, so
+ * histories saved before providers were pluggable still load.
+ */
+export interface AgentHistoryEntry {
+  role: "user" | "model";
+  parts: Array<{ text?: string }>;
+}
+
+// JSON Schema subset understood by every provider
+export interface AgentFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface AgentFunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface AgentFunctionResponse {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface AgentTurn {
+  text: string;
+  functionCalls: AgentFunctionCall[];
+}
+
+export interface AgentChatOptions {
+  systemInstruction: string;
+  functions: AgentFunctionDeclaration[];
+  history: AgentHistoryEntry[];
+}
+
+export interface AgentSendOptions {
+  onTextDelta?: (delta: string) => void; // Stream text as it arrives
+  signal?: AbortSignal;
+}
+
+/**
+ * A conversation with the model. Send either a user message or the responses
+ * to every function call of the previous turn.
+ */
+export interface AgentChat {
+  send(input: string | AgentFunctionResponse[], options?: AgentSendOptions): Promise<AgentTurn>;
+}
+
+export interface AgentProvider {
+  readonly name: AgentProviderName;
+  readonly model: string;
+  startChat(options: AgentChatOptions): AgentChat;
+  // Resolves when the model is reachable with the configured credentials (for /api/health)
+  checkHealth(signal?: AbortSignal): Promise<void>;
+}
+
+export type AgentProviderName = "gemini" | "openai" | "fake";
+
+const DEFAULT_MODELS: Record<AgentProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "llama3.1",
+  fake: "scripted",
+};
+
+let providerInstance: AgentProvider | null = null;
+
+/**
+ * Provider selected by AGENT_PROVIDER / AGENT_MODEL (created once per process)
+ */
+export function getAgentProvider(): AgentProvider {
+  if (providerInstance) return providerInstance;
+
+  const name = (hasEnv("AGENT_PROVIDER") ? process.env.AGENT_PROVIDER : "gemini") as AgentProviderName;
+  const model = hasEnv("AGENT_MODEL") ? process.env.AGENT_MODEL! : DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "gemini":
+      providerInstance = new GeminiAgentProvider(model);
+      break;
+    case "openai":
+      providerInstance = new OpenAICompatibleAgentProvider(model);
+      break;
+    case "fake":
+      providerInstance = new FakeAgentProvider();
+      break;
+    default:
+      throw new Error(`Unknown AGENT_PROVIDER "${name}" (expected gemini, openai or fake)`);
+  }
+
+  console.log(`[AgentProvider] Using ${providerInstance.name} (${providerInstance.model})`);
+  return providerInstance;
+}
+
+/**
+ * Replace the provider (tests install a FakeAgentProvider with a script)
+ */
+export function setAgentProvider(provider: AgentProvider | null): void {
+  providerInstance = provider;
+}
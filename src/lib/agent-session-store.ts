@@ -0,0 +1,112 @@
+/**
+ * Agent Session Store
+ *
+ * Keeps each conversation's Gemini history separate, keyed by
+ * "<clerkId|anonymous>:<sessionId>", with TTL eviction.
+ *
+ * Backends (AGENT_SESSION_STORE):
+ * - "memory" (default): process-local Map, lost on restart
+ * - "mongo": AgentSession collection, shared across instances
+ */
+
+import type { AgentHistoryEntry } from "./agent-provider";
+import { hasEnv } from "./env-init";
+import { connectToDatabase } from "./mongodb";
+import AgentSession from "@/models/AgentSession";
+
+const DEFAULT_TTL_MINUTES = 60;
+
+export interface AgentSessionStore {
+  load(key: string): Promise<AgentHistoryEntry[] | null>;
+  save(key: string, history: AgentHistoryEntry[]): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Build the store key for a session. The user id is part of the key so one
+ * user can never address another user's conversation.
+ */
+export function buildSessionKey(userId: string | null | undefined, sessionId: string): string {
+  return `${userId || "anonymous"}:${sessionId}`;
+}
+
+export function getSessionTtlMs(): number {
+  const minutes = Number(process.env.AGENT_SESSION_TTL_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+class InMemoryAgentSessionStore implements AgentSessionStore {
+  private entries = new Map<string, { history: AgentHistoryEntry[]; expiresAt: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  async load(key: string): Promise<AgentHistoryEntry[] | null> {
+    this.evictExpired();
+    const entry = this.entries.get(key);
+    return entry ? [...entry.history] : null;
+  }
+
+  async save(key: string, history: AgentHistoryEntry[]): Promise<void> {
+    this.evictExpired();
+    this.entries.set(key, { history: [...history], expiresAt: Date.now() + this.ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+class MongoAgentSessionStore implements AgentSessionStore {
+  constructor(private ttlMs: number) {}
+
+  async load(key: string): Promise<AgentHistoryEntry[] | null> {
+    await connectToDatabase();
+    const doc = (await AgentSession.findOne({ key, expiresAt: { $gt: new Date() } })
+      .select({ history: 1 })
+      .lean()) as { history: AgentHistoryEntry[] } | null;
+    return doc ? doc.history : null;
+  }
+
+  async save(key: string, history: AgentHistoryEntry[]): Promise<void> {
+    await connectToDatabase();
+    await AgentSession.updateOne(
+      { key },
+      { $set: { history, expiresAt: new Date(Date.now() + this.ttlMs) } },
+      { upsert: true }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await connectToDatabase();
+    await AgentSession.deleteOne({ key });
+  }
+}
+
+let storeInstance: AgentSessionStore | null = null;
+
+export function getAgentSessionStore(): AgentSessionStore {
+  if (!storeInstance) {
+    const backend = hasEnv("AGENT_SESSION_STORE") ? process.env.AGENT_SESSION_STORE : "memory";
+    const ttlMs = getSessionTtlMs();
+
+    if (backend === "mongo") {
+      storeInstance = new MongoAgentSessionStore(ttlMs);
+    } else {
+      if (backend !== "memory") {
+        console.warn(`[AgentSessionStore] Unknown backend "${backend}", falling back to memory`);
+      }
+      storeInstance = new InMemoryAgentSessionStore(ttlMs);
+    }
+    console.log(`[AgentSessionStore] Using ${backend === "mongo" ? "mongo" : "memory"} backend`);
+  }
+  return storeInstance;
+}
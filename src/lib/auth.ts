@@ -0,0 +1,101 @@
+/**
+ * Authentication and roles for API routes
+ *
+ * middleware.ts rejects signed-out requests to protected routes early, and
+ * handlers still check auth() themselves. Admin-only routes use requireAdmin.
+ * Roles are stored on the User document (admin | member, default member).
+ * ADMIN_CLERK_IDS (comma-separated Clerk user IDs) grants admin without a
+ * database, e.g. to bootstrap the first admin.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { hasEnv } from "./env-init";
+import { connectToDatabase } from "./mongodb";
+import User from "@/models/User";
+
+export const USER_ROLES = ["admin", "member"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Thrown when a request isn't signed in (401) or lacks the required role (403).
+ * Routes answer it with authErrorResponse.
+ */
+export class AuthError extends Error {
+  constructor(readonly status: 401 | 403, message = status === 401 ? "Sign in to continue" : "Forbidden") {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export function isAuthError(error: unknown): error is AuthError {
+  return error instanceof Error && error.name === "AuthError";
+}
+
+export function authErrorResponse(error: AuthError): NextResponse {
+  return NextResponse.json(
+    { error: error.message, code: error.status === 401 ? "unauthorized" : "forbidden" },
+    { status: error.status }
+  );
+}
+
+/**
+ * Role of a user: admin via ADMIN_CLERK_IDS or their User document, member otherwise
+ */
+export async function getUserRole(clerkId: string): Promise<UserRole> {
+  if (getBootstrapAdmins().includes(clerkId)) return "admin";
+  if (!hasEnv("MONGODB_URI")) return "member";
+
+  try {
+    await connectToDatabase();
+    const user = (await User.findOne({ clerkId }, { role: 1 }).lean()) as { role?: UserRole } | null;
+    return user?.role === "admin" ? "admin" : "member";
+  } catch (error) {
+    console.warn(`[Auth] Could not read the role of ${clerkId}:`, error instanceof Error ? error.message : error);
+    return "member";
+  }
+}
+
+/**
+ * @throws AuthError (401 signed out, 403 not an admin)
+ */
+export async function requireAdmin(): Promise<string> {
+  const { userId } = await auth();
+  if (!userId) {
+    throw new AuthError(401);
+  }
+  if ((await getUserRole(userId)) !== "admin") {
+    throw new AuthError(403, "Admin access required");
+  }
+  return userId;
+}
+
+/**
+ * Whether the request comes from an admin (false when signed out), for routes
+ * that show everyone a summary and admins the details
+ */
+export async function isAdmin(): Promise<boolean> {
+  try {
+    await requireAdmin();
+    return true;
+  } catch (error) {
+    if (isAuthError(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Diagnostics routes (/api/test-*): open in development, admin-only elsewhere
+ * @throws AuthError outside development for non-admins
+ */
+export async function requireDevOrAdmin(): Promise<void> {
+  if (process.env.NODE_ENV === "development") return;
+  await requireAdmin();
+}
+
+function getBootstrapAdmins(): string[] {
+  return (process.env.ADMIN_CLERK_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,96 @@
+/**
+ * Cancellation of in-flight work
+ *
+ * Chat turns keep running when the browser disconnects (see job-queue), so
+ * stopping one is an explicit request: the client names the turn by the
+ * requestId it sent, and the turn's AbortSignal is threaded through the
+ * agent, the generation jobs it queued and its plan run.
+ */
+
+export class CancelledError extends Error {
+  constructor(message = "Cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+interface CancellableEntry {
+  controller: AbortController;
+}
+
+// Keyed by operationKey: ids come from clients, so one user's id can't replace another's entry
+const operations = new Map<string, CancellableEntry>();
+
+function operationKey(id: string, clerkId: string | null): string {
+  return `${clerkId ?? ""}:${id}`;
+}
+
+/**
+ * True for our own CancelledError and for aborted fetch/SDK calls
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "CancelledError" || error.name === "AbortError");
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Wait for ms, rejecting with CancelledError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Register an operation that the same user can later cancel by id.
+ * Call the returned release function when the operation is over.
+ */
+export function registerCancellable(
+  id: string,
+  clerkId: string | null
+): { signal: AbortSignal; release: () => void } {
+  const key = operationKey(id, clerkId);
+  const entry: CancellableEntry = { controller: new AbortController() };
+  operations.set(key, entry);
+
+  return {
+    signal: entry.controller.signal,
+    release: () => {
+      if (operations.get(key) === entry) operations.delete(key);
+    },
+  };
+}
+
+/**
+ * Cancel an operation the user registered (anonymous operations: clerkId null).
+ * Returns false when there is nothing to cancel.
+ */
+export function cancelOperation(id: string, clerkId: string | null): boolean {
+  const key = operationKey(id, clerkId);
+  const entry = operations.get(key);
+  if (!entry) return false;
+
+  console.log(`[Cancellation] Cancelling ${id}`);
+  entry.controller.abort(new CancelledError());
+  operations.delete(key);
+  return true;
+}
@@ -0,0 +1,173 @@
+/**
+ * Conversation session persistence
+ *
+ * A session is one "recent chat": the UI message thread, the Gemini
+ * conversation history, the active gallery item and the generation params.
+ */
+
+import type { AgentHistoryEntry } from "./agent-provider";
+import { connectToDatabase } from "./mongodb";
+import ChatSession from "@/models/ChatSession";
+import type { ChatMessage, ChatSessionState, ChatSessionSummary } from "@/types/chat";
+import type { GenerationParams } from "@/hooks/useBriaGeneration";
+
+const MAX_SESSIONS_LISTED = 50;
+const PREVIEW_LENGTH = 80;
+
+export interface ChatSessionUpdate {
+  title?: string;
+  messages?: ChatMessage[];
+  activeItemId?: string | null;
+  params?: GenerationParams;
+}
+
+interface ChatSessionDocument {
+  _id: { toString(): string };
+  title: string;
+  messages: ChatMessage[];
+  chatHistory: AgentHistoryEntry[];
+  activeItemId?: string;
+  params?: GenerationParams;
+  updatedAt: Date;
+}
+
+function toSummary(doc: ChatSessionDocument): ChatSessionSummary {
+  // Preview is the latest user message, falling back to the latest message of any kind
+  const messages = doc.messages || [];
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const preview = (lastUser || messages[messages.length - 1])?.content || "";
+
+  return {
+    id: doc._id.toString(),
+    title: doc.title,
+    preview: preview.substring(0, PREVIEW_LENGTH),
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function toState(doc: ChatSessionDocument): ChatSessionState {
+  return {
+    id: doc._id.toString(),
+    title: doc.title,
+    messages: doc.messages || [],
+    activeItemId: doc.activeItemId || undefined,
+    params: doc.params || undefined,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+/**
+ * Derive a short session title from the first prompt
+ */
+export function titleFromPrompt(prompt: string): string {
+  const clean = prompt.trim().replace(/\s+/g, " ");
+  if (!clean) return "New chat";
+  return clean.length > 60 ? `${clean.substring(0, 57)}...` : clean;
+}
+
+export async function listChatSessions(clerkId: string): Promise<ChatSessionSummary[]> {
+  await connectToDatabase();
+
+  const docs = (await ChatSession.find({ clerkId })
+    .sort({ updatedAt: -1 })
+    .limit(MAX_SESSIONS_LISTED)
+    .select({ title: 1, messages: 1, updatedAt: 1 })
+    .lean()) as unknown as ChatSessionDocument[];
+
+  return docs.map(toSummary);
+}
+
+export async function createChatSession(
+  clerkId: string,
+  initial: ChatSessionUpdate = {}
+): Promise<ChatSessionState> {
+  await connectToDatabase();
+
+  const doc = await ChatSession.create({
+    clerkId,
+    title: initial.title ? titleFromPrompt(initial.title) : undefined,
+    messages: initial.messages || [],
+    activeItemId: initial.activeItemId || undefined,
+    params: initial.params,
+  });
+
+  return toState(doc.toObject() as ChatSessionDocument);
+}
+
+export async function getChatSession(clerkId: string, sessionId: string): Promise<ChatSessionState | null> {
+  await connectToDatabase();
+
+  if (!isValidSessionId(sessionId)) return null;
+
+  const doc = (await ChatSession.findOne({ _id: sessionId, clerkId })
+    .select({ chatHistory: 0 })
+    .lean()) as unknown as ChatSessionDocument | null;
+
+  return doc ? toState(doc) : null;
+}
+
+export async function updateChatSession(
+  clerkId: string,
+  sessionId: string,
+  update: ChatSessionUpdate
+): Promise<ChatSessionState | null> {
+  await connectToDatabase();
+
+  if (!isValidSessionId(sessionId)) return null;
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ""> = {};
+
+  if (update.title !== undefined) $set.title = titleFromPrompt(update.title);
+  if (update.messages !== undefined) $set.messages = update.messages;
+  if (update.params !== undefined) $set.params = update.params;
+  if (update.activeItemId === null) {
+    $unset.activeItemId = "";
+  } else if (update.activeItemId !== undefined) {
+    $set.activeItemId = update.activeItemId;
+  }
+
+  const doc = (await ChatSession.findOneAndUpdate(
+    { _id: sessionId, clerkId },
+    { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) },
+    { new: true, lean: true, projection: { chatHistory: 0 } }
+  )) as unknown as ChatSessionDocument | null;
+
+  return doc ? toState(doc) : null;
+}
+
+export async function deleteChatSession(clerkId: string, sessionId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  if (!isValidSessionId(sessionId)) return false;
+
+  const result = await ChatSession.deleteOne({ _id: sessionId, clerkId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Gemini conversation history for a session (empty when the session is unknown)
+ */
+export async function getChatHistory(clerkId: string, sessionId: string): Promise<AgentHistoryEntry[]> {
+  await connectToDatabase();
+
+  if (!isValidSessionId(sessionId)) return [];
+
+  const doc = (await ChatSession.findOne({ _id: sessionId, clerkId })
+    .select({ chatHistory: 1 })
+    .lean()) as unknown as Pick<ChatSessionDocument, "chatHistory"> | null;
+
+  return doc?.chatHistory || [];
+}
+
+export async function saveChatHistory(clerkId: string, sessionId: string, chatHistory: AgentHistoryEntry[]): Promise<void> {
+  await connectToDatabase();
+
+  if (!isValidSessionId(sessionId)) return;
+
+  await ChatSession.updateOne({ _id: sessionId, clerkId }, { $set: { chatHistory } });
+}
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[a-f0-9]{24}$/i.test(sessionId);
+}
@@ -0,0 +1,119 @@
+/**
+ * Circuit breaker for calls to an external service
+ *
+ * closed     requests go through; consecutive failures are counted
+ * open       after failureThreshold failures in a row: requests fail fast
+ *            with CircuitOpenError until resetTimeoutMs has passed
+ * half-open  one trial request is let through; success closes the circuit,
+ *            failure opens it again
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit (default: 5)
+  resetTimeoutMs?: number; // How long it stays open before a trial request (default: 30s)
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number;
+  openedAt?: string;
+  retryAt?: string; // When an open circuit lets a trial request through
+  lastError?: string;
+}
+
+/**
+ * Thrown instead of calling a service whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly code = "circuit_open";
+
+  constructor(readonly service: string, readonly retryAt: Date, lastError?: string) {
+    const seconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+    super(
+      `${service} is unavailable (too many consecutive failures); retrying in ${seconds}s` +
+        (lastError ? `. Last error: ${lastError}` : "")
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return error instanceof Error && error.name === "CircuitOpenError";
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(readonly service: string, options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Throw CircuitOpenError unless a request may go through now. Moving from
+   * open to half-open admits exactly one trial request.
+   */
+  assertCanRequest(): void {
+    if (this.state === "closed") return;
+
+    const retryAt = (this.openedAt ?? 0) + this.resetTimeoutMs;
+    if (this.state === "open" && Date.now() >= retryAt) {
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.service, new Date(Math.max(retryAt, Date.now())), this.lastError);
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`[Circuit] ${this.service} recovered, circuit closed`);
+    }
+    this.state = "closed";
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.lastError = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.trialInFlight = false;
+
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      if (this.state !== "open") {
+        console.warn(`[Circuit] ${this.service} circuit opened after ${this.failures} consecutive failures`);
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt === undefined ? undefined : new Date(this.openedAt).toISOString(),
+      retryAt: this.openedAt === undefined ? undefined : new Date(this.openedAt + this.resetTimeoutMs).toISOString(),
+      lastError: this.lastError,
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Execution plan protocol
+ *
+ * Multi-step requests are submitted by the agent through the
+ * submit_execution_plan function (alongside the tool call for step 1) and
+ * validated here: plan shape with zod, then each step's args against the
+ * MCP tool's inputSchema (see tool-args.ts). Validation errors are phrased for the model so it
+ * can resubmit a corrected plan.
+ */
+
+import { z } from "zod";
+import type { MCPTool } from "./mcp-client";
+import type { AgentFunctionDeclaration } from "./agent-provider";
+import { validateToolArgs } from "./tool-args";
+import type { ExecutionPlan } from "@/types/chat-stream";
+
+export const EXECUTION_PLAN_TOOL_NAME = "submit_execution_plan";
+
+export const PLAN_TYPES = ["batch_independent", "batch_variations", "pipeline"] as const;
+
+// Placeholders resolved by the plan executor, e.g. "<url_from_step_1>"
+const STEP_PLACEHOLDER = /^<url_from_(step_\d+|previous_step)>$/;
+const PLACEHOLDER_URL = "https://placeholder.invalid/step-output.png";
+
+/**
+ * Function declaration for submitting a plan. Some providers (Gemini) reject
+ * object schemas without properties, so each step's args travel as a JSON string.
+ */
+export const executionPlanFunctionDeclaration: AgentFunctionDeclaration = {
+  name: EXECUTION_PLAN_TOOL_NAME,
+  description:
+    "Submit the complete plan for a request that needs multiple tool calls (several images, variations, or a pipeline). " +
+    "Call it in the same turn as the tool call for step 1. The system executes steps 2-N itself.",
+  parameters: {
+    type: "object",
+    properties: {
+      plan_type: {
+        type: "string",
+        enum: [...PLAN_TYPES],
+        description:
+          "batch_independent: different prompts; batch_variations: same prompt, different params; pipeline: each step uses earlier outputs",
+      },
+      description: {
+        type: "string",
+        description: "Short summary of the whole plan, e.g. \"3 different dogs\"",
+      },
+      steps: {
+        type: "array",
+        description: "ALL steps including step 1, in order",
+        items: {
+          type: "object",
+          properties: {
+            step: { type: "integer", description: "1-based step number" },
+            tool: { type: "string", description: "Name of the MCP tool to call" },
+            args: {
+              type: "string",
+              description:
+                "JSON object with the tool's arguments, e.g. {\"prompt\": \"a cat\", \"aspect_ratio\": \"1:1\"}. " +
+                "In pipelines use \"<url_from_step_N>\" where step N's output image is needed.",
+            },
+            description: { type: "string", description: "Short label for this step" },
+          },
+          required: ["step", "tool", "args", "description"],
+        },
+      },
+    },
+    required: ["plan_type", "description", "steps"],
+  },
+};
+
+const jsonObject = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  },
+  z.record(z.unknown(), { invalid_type_error: "must be a JSON object of tool arguments" })
+);
+
+const PlanStepSchema = z.object({
+  step: z.coerce.number().int().positive(),
+  tool: z.string().min(1),
+  args: jsonObject,
+  description: z.string().min(1),
+});
+
+export const ExecutionPlanSubmissionSchema = z
+  .object({
+    plan_type: z.enum(PLAN_TYPES),
+    description: z.string().min(1),
+    steps: z.array(PlanStepSchema).min(2, "a plan needs at least 2 steps - use a single tool call otherwise"),
+  })
+  .superRefine((plan, ctx) => {
+    plan.steps.forEach((step, index) => {
+      if (step.step !== index + 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["steps", index, "step"],
+          message: `expected step ${index + 1}, got ${step.step} (steps must be numbered 1..N in order)`,
+        });
+      }
+    });
+  });
+
+export type ExecutionPlanSubmission = z.infer<typeof ExecutionPlanSubmissionSchema>;
+
+export type PlanValidationResult =
+  | { success: true; plan: ExecutionPlan }
+  | { success: false; issues: string[] };
+
+/**
+ * Validate a submitted plan against the schema and the available MCP tools.
+ * `executedSteps` is how many leading steps the agent already called directly.
+ */
+export function validateExecutionPlan(
+  submission: unknown,
+  tools: MCPTool[],
+  executedSteps: number
+): PlanValidationResult {
+  const parsed = ExecutionPlanSubmissionSchema.safeParse(submission);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`),
+    };
+  }
+
+  const issues: string[] = [];
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  const steps = parsed.data.steps.map((step, index) => {
+    const tool = toolsByName.get(step.tool);
+    if (!tool) {
+      issues.push(`steps[${index}].tool: unknown tool "${step.tool}" (available: ${[...toolsByName.keys()].join(", ")})`);
+      return step;
+    }
+    // Same coercion and checks as the MCP client applies before calling the tool.
+    // Placeholders stand in for URLs that don't exist yet, so they are checked as one.
+    const placeholders = Object.entries(step.args).filter(
+      ([, value]) => typeof value === "string" && STEP_PLACEHOLDER.test(value)
+    );
+    const validation = validateToolArgs(tool, {
+      ...step.args,
+      ...Object.fromEntries(placeholders.map(([key]) => [key, PLACEHOLDER_URL])),
+    });
+    if (!validation.ok) {
+      for (const issue of validation.issues) {
+        issues.push(`steps[${index}].args${issue.path ? `.${issue.path}` : ""}: ${issue.message}`);
+      }
+      return step;
+    }
+    return { ...step, args: { ...validation.args, ...Object.fromEntries(placeholders) } };
+  });
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  const { plan_type, description } = parsed.data;
+  return {
+    success: true,
+    plan: {
+      current: Math.min(executedSteps, steps.length),
+      total: steps.length,
+      description,
+      continue: executedSteps < steps.length,
+      plan_type,
+      steps,
+    },
+  };
+}
+
+/**
+ * Function response sent back to the model when its plan is rejected
+ */
+export function buildPlanRepairResponse(issues: string[]): Record<string, unknown> {
+  return {
+    error: "invalid_execution_plan",
+    issues,
+    instructions: `Fix every issue and call ${EXECUTION_PLAN_TOOL_NAME} again with the complete corrected plan, together with the tool call for step 1.`,
+  };
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, segment) => (typeof segment === "number" ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment),
+    ""
+  ) || "plan";
+}
@@ -0,0 +1,109 @@
+/**
+ * Scripted implementation of AgentProvider for tests and offline runs
+ *
+ * Replies come from a script of turns. A turn with `match` answers user
+ * messages matching that regex; turns without one are used in order. The
+ * script is loaded from the JSON file at AGENT_FAKE_SCRIPT, or passed to the
+ * constructor / setScript(). Without a matching turn the fake calls
+ * text_to_image with the user's message as the prompt (when declared).
+ */
+
+import { readFileSync } from "fs";
+import { hasEnv } from "./env-init";
+import type {
+  AgentChat,
+  AgentChatOptions,
+  AgentFunctionCall,
+  AgentFunctionResponse,
+  AgentProvider,
+  AgentSendOptions,
+  AgentTurn,
+} from "./agent-provider";
+
+export interface FakeAgentTurn {
+  match?: string; // Regex (case-insensitive) tested against the user message
+  text?: string;
+  functionCalls?: AgentFunctionCall[];
+}
+
+export class FakeAgentProvider implements AgentProvider {
+  readonly name = "fake" as const;
+  readonly model = "scripted";
+  private script: FakeAgentTurn[];
+  private nextTurn = 0; // Index of the next unmatched turn
+
+  constructor(script?: FakeAgentTurn[]) {
+    this.script = script ?? loadScriptFromEnv();
+  }
+
+  setScript(script: FakeAgentTurn[]): void {
+    this.script = script;
+    this.nextTurn = 0;
+  }
+
+  async checkHealth(): Promise<void> {
+    // Always available
+  }
+
+  startChat(options: AgentChatOptions): AgentChat {
+    const declared = new Set(options.functions.map((fn) => fn.name));
+
+    return {
+      send: async (input: string | AgentFunctionResponse[], sendOptions: AgentSendOptions = {}) => {
+        if (sendOptions.signal?.aborted) {
+          throw new DOMException("The operation was aborted", "AbortError");
+        }
+
+        const turn = typeof input === "string"
+          ? this.replyTo(userMessageOf(input), declared)
+          : { text: `Done: ${input.map((fn) => fn.name).join(", ")}.`, functionCalls: [] };
+
+        if (turn.text && sendOptions.onTextDelta) {
+          sendOptions.onTextDelta(turn.text);
+        }
+        return turn;
+      },
+    };
+  }
+
+  private replyTo(message: string, declared: Set<string>): AgentTurn {
+    const matched = this.script.find((turn) => turn.match && new RegExp(turn.match, "i").test(message));
+    const unmatched = this.script.filter((turn) => !turn.match);
+    const turn = matched ?? unmatched[this.nextTurn++];
+
+    if (turn) {
+      return { text: turn.text || "", functionCalls: turn.functionCalls || [] };
+    }
+
+    if (declared.has("text_to_image")) {
+      return {
+        text: `Creating "${message}" for you!`,
+        functionCalls: [{ name: "text_to_image", args: { prompt: message } }],
+      };
+    }
+    return { text: `You said: ${message}`, functionCalls: [] };
+  }
+}
+
+// The agent wraps user input in a context block ending with "User Message: ..."
+function userMessageOf(input: string): string {
+  const marker = input.lastIndexOf("User Message:");
+  return marker === -1 ? input.trim() : input.slice(marker + "User Message:".length).trim();
+}
+
+function loadScriptFromEnv(): FakeAgentTurn[] {
+  if (!hasEnv("AGENT_FAKE_SCRIPT")) return [];
+
+  const path = process.env.AGENT_FAKE_SCRIPT!;
+  try {
+    const script = JSON.parse(readFileSync(path, "utf8"));
+    if (!Array.isArray(script)) {
+      throw new Error("expected a JSON array of turns");
+    }
+    return script as FakeAgentTurn[];
+  } catch (error) {
+    throw new Error(
+      `Failed to load AGENT_FAKE_SCRIPT (${path}): ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -1,6 +1,23 @@
-import { GoogleGenerativeAI, Content, FunctionDeclaration, GenerateContentResult } from "@google/generative-ai";
 import { MCPTool } from "./mcp-client";
-import { getEnv } from "./env-init"; // Explicit env loading for Windows compatibility
+import {
+  getAgentProvider,
+  type AgentFunctionDeclaration,
+  type AgentFunctionResponse,
+  type AgentHistoryEntry,
+  type AgentTurn,
+} from "./agent-provider";
+import {
+  EXECUTION_PLAN_TOOL_NAME,
+  buildPlanRepairResponse,
+  executionPlanFunctionDeclaration,
+  validateExecutionPlan,
+} from "./execution-plan";
+import { getSessionTtlMs } from "./agent-session-store";
+import { describeIntent, type ChatContext } from "./intent-router";
+import { OPERATION_REGISTRY } from "./operations";
+import { findVideoTools } from "./video-tools";
+import { buildArgsRepairResponse, validateToolCall } from "./tool-args";
+import type { IntentDecision } from "@/types/chat-stream";
 
 export interface ChatMessage {
   role: "user" | "assistant" | "system";
@@ -18,6 +35,9 @@ export interface GenerationParams {
   prompt: string;
 }
 
+// How many times the model may resubmit rejected tool calls or plans per message
+const MAX_REPAIR_ATTEMPTS = 2;
+
 export interface AgentResponse {
   message: string;
   toolCalls?: Array<{
@@ -38,35 +58,57 @@ export interface AgentResponse {
       description: string;
     }>;
   };
+  planError?: string; // Set when the agent's execution plan could not be validated
 }
 
-class GeminiAgentService {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
-  private chatHistory: Content[] = [];
+/**
+ * Orchestrator agent. Talks to the model through the configured AgentProvider
+ * (AGENT_PROVIDER / AGENT_MODEL, see agent-provider.ts).
+ */
+class AgentService {
+  private functionDeclarations: AgentFunctionDeclaration[] = [];
+  private systemInstruction = "";
+  private chatHistory: AgentHistoryEntry[] = [];
   private availableTools: MCPTool[] = [];
-
-  constructor() {
-    // Load API key from environment (env-init automatically loads .env.local)
-    const apiKey = getEnv("GOOGLE_GENERATIVE_AI_API_KEY");
-    this.genAI = new GoogleGenerativeAI(apiKey);
-  }
+  private toolSignature: string | null = null;
 
   /**
    * Initialize agent with MCP tools - dynamic tool discovery
    * No hardcoded tool mappings - agent learns from tool schemas
+   *
+   * Safe to call on every request: declarations are only rebuilt when the tool
+   * set changes, and the conversation history is never reset here.
    */
   initializeWithMCPTools(mcpTools: MCPTool[]): void {
+    const signature = mcpTools.map(tool => tool.name).sort().join(",");
+    if (this.systemInstruction && signature === this.toolSignature) {
+      return;
+    }
+    this.toolSignature = signature;
+
     // Store tools for debugging
     this.availableTools = mcpTools;
     
-    // Convert MCP tools to Gemini function declarations
-    // MCP schema is JSON Schema compatible with Gemini
-    const functionDeclarations: FunctionDeclaration[] = mcpTools.map(tool => ({
+    // Convert MCP tools to function declarations
+    // MCP input schemas are JSON Schema; providers adapt them to their own dialect
+    const functionDeclarations: AgentFunctionDeclaration[] = mcpTools.map(tool => ({
       name: tool.name,
       description: tool.description || `Execute ${tool.name} tool`,
-      parameters: tool.inputSchema as any, // MCP schema format matches Gemini's expectations
+      parameters: tool.inputSchema as Record<string, unknown>,
     }));
+    // Multi-step requests submit their plan through a dedicated function
+    functionDeclarations.push(executionPlanFunctionDeclaration);
+
+    // Priority 1 mapping comes from the operation registry
+    const operationToolList = Object.entries(OPERATION_REGISTRY)
+      .map(([operation, targets]) => `  * ai_operation.name "${operation}" → call tool ${targets.map(t => `"${t.tool}"`).join(" or ")}`)
+      .join("\n");
+
+    // Video tools are offered to the model like any other; Priority 4 says when to use them
+    const videoTools = findVideoTools(mcpTools);
+    const videoToolList = videoTools.length > 0
+      ? videoTools.map(tool => `  * ${tool.name}${tool.description ? `: ${tool.description.split("\n")[0]}` : ""}`).join("\n")
+      : "  (none connected)";
 
     // Priority-based system instruction - PRD compliant
     const systemInstruction = `You are the Bria AI Orchestrator. Your goal is to translate user intentions into precise MCP tool calls based on context evaluation. You must strictly adhere to the available MCP tools provided.
@@ -93,18 +135,20 @@ CRITICAL: When user requests MULTIPLE images (e.g., "3 dogs", "5 cats", "same do
 3. For batch_independent: Create UNIQUE prompts for each (Golden Retriever, German Shepherd, Labrador)
 4. For batch_variations: Use SAME prompt, vary only aspect_ratio or other params
 5. Execute ONLY ONE step at a time (first subject only)
-6. Include EXECUTION_PLAN marker in your text response
+6. Call submit_execution_plan in the same turn with ALL steps (including step 1)
 
 EXAMPLE batch_independent (dogs):
 User: "generate 3 different dogs"
-Your response text: "Generating Golden Retriever (1 of 3). EXECUTION_PLAN: {\"current\": 1, \"total\": 3, \"description\": \"Golden Retriever\", \"continue\": true, \"plan_type\": \"batch_independent\", \"steps\": [{\"step\": 1, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A photorealistic Golden Retriever dog\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Golden Retriever\"}, {\"step\": 2, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A photorealistic German Shepherd dog\", \"aspect_ratio\": \"1:1\"}, \"description\": \"German Shepherd\"}, {\"step\": 3, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A photorealistic Labrador dog\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Labrador\"}]}"
+Your response text: "Generating Golden Retriever (1 of 3)"
+Your plan call: submit_execution_plan(plan_type="batch_independent", description="3 different dogs", steps=[{step: 1, tool: "text_to_image", args: '{\"prompt\": \"A photorealistic Golden Retriever dog\", \"aspect_ratio\": \"1:1\"}', description: "Golden Retriever"}, {step: 2, tool: "text_to_image", args: '{\"prompt\": \"A photorealistic German Shepherd dog\", \"aspect_ratio\": \"1:1\"}', description: "German Shepherd"}, {step: 3, tool: "text_to_image", args: '{\"prompt\": \"A photorealistic Labrador dog\", \"aspect_ratio\": \"1:1\"}', description: "Labrador"}])
 Your tool call: text_to_image(prompt="A photorealistic Golden Retriever dog", aspect_ratio="1:1")
 System will automatically execute steps 2 and 3 from the plan.
 
 EXAMPLE batch_independent (scenes - CRITICAL):
 User: "generate 3 Christmas office party scenes"
 **IMPORTANT**: For scenes/scenarios, create COMPLETELY DIFFERENT settings/contexts, not just variations of the same scene!
-Your response text: "Generating rooftop party (1 of 3). EXECUTION_PLAN: {\"current\": 1, \"total\": 3, \"description\": \"Rooftop party\", \"continue\": true, \"plan_type\": \"batch_independent\", \"steps\": [{\"step\": 1, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A Christmas office party on a rooftop with city lights in background, people celebrating around a fire pit, festive string lights\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Rooftop party\"}, {\"step\": 2, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A Christmas office party in a conference room with Secret Santa gift exchange, coworkers laughing around a table, wrapped presents\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Conference room\"}, {\"step\": 3, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A Christmas costume party in an office with people in Santa suits and elf costumes, festive games, decorated cubicles\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Costume party\"}]}"
+Your response text: "Generating rooftop party (1 of 3)"
+Your plan call: submit_execution_plan(plan_type="batch_independent", description="3 Christmas office party scenes", steps=[{step: 1, tool: "text_to_image", args: '{\"prompt\": \"A Christmas office party on a rooftop with city lights in background, people celebrating around a fire pit, festive string lights\", \"aspect_ratio\": \"1:1\"}', description: "Rooftop party"}, {step: 2, tool: "text_to_image", args: '{\"prompt\": \"A Christmas office party in a conference room with Secret Santa gift exchange, coworkers laughing around a table, wrapped presents\", \"aspect_ratio\": \"1:1\"}', description: "Conference room"}, {step: 3, tool: "text_to_image", args: '{\"prompt\": \"A Christmas costume party in an office with people in Santa suits and elf costumes, festive games, decorated cubicles\", \"aspect_ratio\": \"1:1\"}', description: "Costume party"}])
 Your tool call: text_to_image(prompt="A Christmas office party on a rooftop with city lights in background, people celebrating around a fire pit, festive string lights", aspect_ratio="1:1")
 System will automatically execute steps 2 and 3 from the plan.
 
@@ -115,19 +159,22 @@ System will automatically execute steps 2 and 3 from the plan.
 
 EXAMPLE batch_variations:
 User: "generate a cat with 3 aspect ratios"
-Your response text: "Generating cat 1:1 (1 of 3). EXECUTION_PLAN: {\"current\": 1, \"total\": 3, \"description\": \"Cat 1:1\", \"continue\": true, \"plan_type\": \"batch_variations\", \"steps\": [{\"step\": 1, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A cute cat\", \"aspect_ratio\": \"1:1\"}, \"description\": \"Cat 1:1\"}, {\"step\": 2, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A cute cat\", \"aspect_ratio\": \"16:9\"}, \"description\": \"Cat 16:9\"}, {\"step\": 3, \"tool\": \"text_to_image\", \"args\": {\"prompt\": \"A cute cat\", \"aspect_ratio\": \"9:16\"}, \"description\": \"Cat 9:16\"}]}"
+Your response text: "Generating cat 1:1 (1 of 3)"
+Your plan call: submit_execution_plan(plan_type="batch_variations", description="Cat in 3 aspect ratios", steps=[{step: 1, tool: "text_to_image", args: '{\"prompt\": \"A cute cat\", \"aspect_ratio\": \"1:1\"}', description: "Cat 1:1"}, {step: 2, tool: "text_to_image", args: '{\"prompt\": \"A cute cat\", \"aspect_ratio\": \"16:9\"}', description: "Cat 16:9"}, {step: 3, tool: "text_to_image", args: '{\"prompt\": \"A cute cat\", \"aspect_ratio\": \"9:16\"}', description: "Cat 9:16"}])
 Your tool call: text_to_image(prompt="A cute cat", aspect_ratio="1:1")
 System will automatically execute steps 2 and 3 from the plan.
 
 CONTEXT INPUTS YOU RECEIVE:
 You will receive a context object with the following fields:
 - user_input: The raw text content from the user
-- parameters: UI parameter controls (steps, model, aspect_ratio, seed)
-- reference_image: Optional uploaded reference image URL
+- parameters: UI parameter controls (steps, model, aspect_ratio, seed, mode: "image" or "video")
+- reference_image: Optional ordered list of uploaded reference images, each { image, role, weight }: role is subject (what to show), style (how it should look) or composition (layout); weight (0-1) is how strongly it should steer the result
 - ai_operation: Optional explicit operation triggered by user (e.g., { name: "upscale", params: { factor: 4 } })
 - preview_image_url: MCP image URL (e.g., "https://...") or data URL - pass this directly to tools as 'image' parameter
+- preview_media_type: "image" or "video" - what preview_image_url is; a video can only go to video tools
 - structured_prompt: Optional metadata from the preview_image_url generation
 - mask_data: Optional mask data drawn on the canvas
+The message may also carry an "Intent Router:" line: the system's deterministic classification of the context using the priority order below, with a suggested tool. Follow it unless the user's message clearly asks for something else.
 
 NOTE: Image URLs are provided directly. Pass them as-is to MCP tools (e.g., image="https://...").
 
@@ -139,14 +186,7 @@ IF ai_operation is present:
 - THIS IS THE HIGHEST PRIORITY - You MUST call a tool immediately
 - You MUST NOT respond with text only - a tool call is REQUIRED
 - Identify the MCP tool by matching the operation name:
-  * ai_operation.name "remove-background" → call tool "remove_background"
-  * ai_operation.name "blur-background" → call tool "blur_background"  
-  * ai_operation.name "enhance-image" → call tool "enhance_image"
-  * ai_operation.name "increase-resolution" → call tool "increase_resolution"
-  * ai_operation.name "generative-fill" → call tool "generative_fill" or "inpaint"
-  * ai_operation.name "object-eraser" or "eraser" → call tool "erase_foreground" or "eraser"
-  * ai_operation.name "expand" → call tool "expand_image"
-  * ai_operation.name "replace-background" → call tool "generate_background" or "replace_background"
+${operationToolList}
 - REQUIRED: Use preview_image_url as the 'image' parameter for the tool call
 - Include any additional parameters from ai_operation.params
 - DO NOT explain, DO NOT ask questions - JUST CALL THE TOOL
@@ -197,22 +237,33 @@ IF mask_data is present AND user_input is not empty:
 - You MUST use the appropriate MCP tool (e.g., generative_fill, eraser) that utilizes mask_data, preview_image_url, and user_input as the prompt
 - Execute immediately
 
-**PRIORITY 4: Reference Image Generation**
+**PRIORITY 4: Video**
+IF parameters.mode is "video", OR user_input asks for a video or to animate something, OR preview_media_type is "video" and user_input is not empty:
+- Use ONLY video tools. The connected video tools are:
+${videoToolList}
+- Video from text: call the text-to-video tool with user_input as the prompt
+- Animating an image ("animate this", or reference_image present): call the image-to-video tool with preview_image_url or the reference image as its image parameter
+- Editing the current video: call the video tool matching the request with preview_image_url as its video parameter
+- Map aspect_ratio and other UI parameters the video tool's schema accepts; leave out the rest (steps, model)
+- If no video tool fits, say so in your reply - NEVER generate an image instead
+- Videos take minutes to render: tell the user their video will appear in the gallery when it's ready
+
+**PRIORITY 5: Reference Image Generation**
 IF reference_image is present AND ai_operation is null:
-- User intent is to generate a new image based on their uploaded reference
+- User intent is to generate a new image based on their uploaded references
 - Call the text_to_image tool
 - Pass user_input as the prompt
-- Pass reference_image as the image parameter
+- The reference images are attached to the call by the server according to their roles; you don't need to pass them
 - Apply all standard UI parameters (steps, model, etc.)
 
-**PRIORITY 5: Conversational Refinement (Refine Mode)**
+**PRIORITY 6: Conversational Refinement (Refine Mode)**
 IF preview_image_url exists AND structured_prompt exists AND user_input is not empty (and NO mask is present):
 - User intent is to refine the current generation using natural language (e.g., "make it closer", "change the object's color")
 - Call the text_to_image tool
 - Pass the NEW user_input as the prompt
 - **Crucial:** You MUST pass the provided structured_prompt context into the tool's structured_prompt parameter to ensure consistency with the previous generation
 
-**PRIORITY 6: Standard Text-to-Image (Default)**
+**PRIORITY 7: Standard Text-to-Image (Default)**
 IF none of the above conditions are met:
 - User intent is a standard generation
 - **IMPORTANT: Check if user wants MULTIPLE images (e.g., "3 dogs", "5 cats", "dog in 3 ratios")**
@@ -234,6 +285,7 @@ EXECUTION RULES:
 2. Each tool has its own parameter schema - validate before calling
 3. Only use parameters that exist in the tool's schema
 4. When in doubt, follow the priority order strictly
+5. Calls are checked against the schemas before they run: if a call comes back with error "invalid_arguments", fix every listed issue and make the call again
 
 MULTI-STEP EXECUTION PLANNING:
 
@@ -250,73 +302,45 @@ When user requests multiple images or a pipeline:
    - For pipeline: track output of each step as input for next step
    - Calculate total steps (e.g., 3 dogs × 3 ratios = 9 steps)
 
-3. RETURN metadata with your tool call:
+3. SUBMIT the plan together with your tool call:
    - You MUST call the appropriate tool (e.g., text_to_image) for step 1
-   - In your text response, include a special marker: "EXECUTION_PLAN: {json}"
-   - execution_plan JSON structure: {"current": 1, "total": number, "description": string, "continue": true, "plan_type": string, "steps": [{step, tool, args, description}, ...]}
-   - **CRITICAL**: Include ALL steps in the "steps" array with their complete tool args
-   - Example: For "3 different dogs", return steps for ALL 3 dogs in JSON format
-   - Each step should have: step (number), tool (string), args (object with tool parameters), description (string)
+   - In the SAME turn, call submit_execution_plan(plan_type, description, steps)
+   - **CRITICAL**: Include ALL steps in "steps", each with: step (number, 1..N in order), tool (string), args (JSON string of the tool's arguments), description (string)
+   - Step args must match the tool's schema exactly - the plan is validated and rejected otherwise
+   - If the plan is rejected you receive the list of issues: fix them and call submit_execution_plan again with the complete corrected plan, together with the step 1 tool call
    - The system will execute step 1, then automatically execute steps 2-N without calling you again
+   - For pipeline steps, write "<url_from_step_N>" in args wherever step N's output image is needed - the system substitutes the real URL
 
 4. You will ONLY be called for the first step
    - The system will execute remaining steps automatically
-   - Do NOT expect CONTINUE_EXECUTION messages
 
 MULTI-STEP EXAMPLES:
 
 Request: "Generate 3 different dogs with aspect ratios 1:1, 16:9, 3:4"
 Plan: 3 dogs × 3 aspect ratios = 9 total steps
-
-Response 1: 
-  Text: "Generating Golden Retriever. EXECUTION_PLAN: {\"current\": 1, \"total\": 9, \"description\": \"Golden Retriever 1:1\", \"continue\": true, \"plan_type\": \"batch_independent\"}"
+  Text: "Creating 3 different dogs in 3 aspect ratios for you!"
   Call: text_to_image(prompt="A photorealistic Golden Retriever dog", aspect_ratio="1:1")
-
-Response 2 (after CONTINUE_EXECUTION):
-  Text: "Generating Golden Retriever. EXECUTION_PLAN: {\"current\": 2, \"total\": 9, \"description\": \"Golden Retriever 16:9\", \"continue\": true, \"plan_type\": \"batch_independent\"}"
-  Call: text_to_image(prompt="A photorealistic Golden Retriever dog", aspect_ratio="16:9")
-
-Response 3 (after CONTINUE_EXECUTION):
-  Text: "Generating Golden Retriever. EXECUTION_PLAN: {\"current\": 3, \"total\": 9, \"description\": \"Golden Retriever 3:4\", \"continue\": true, \"plan_type\": \"batch_independent\"}"
-  Call: text_to_image(prompt="A photorealistic Golden Retriever dog", aspect_ratio="3:4")
-
-Response 4 (after CONTINUE_EXECUTION):
-  Text: "Generating German Shepherd. EXECUTION_PLAN: {\"current\": 4, \"total\": 9, \"description\": \"German Shepherd 1:1\", \"continue\": true, \"plan_type\": \"batch_independent\"}"
-  Call: text_to_image(prompt="A photorealistic German Shepherd dog", aspect_ratio="1:1")
-
-... continue pattern ...
-
-Response 9 (after CONTINUE_EXECUTION):
-  Text: "Generating Labrador. EXECUTION_PLAN: {\"current\": 9, \"total\": 9, \"description\": \"Labrador 3:4\", \"continue\": false, \"plan_type\": \"batch_independent\"}"
-  Call: text_to_image(prompt="A photorealistic Labrador dog", aspect_ratio="3:4")
+  Call: submit_execution_plan(plan_type="batch_independent", description="3 dogs in 3 aspect ratios", steps=[
+    {step: 1, tool: "text_to_image", args: '{"prompt": "A photorealistic Golden Retriever dog", "aspect_ratio": "1:1"}', description: "Golden Retriever 1:1"},
+    {step: 2, tool: "text_to_image", args: '{"prompt": "A photorealistic Golden Retriever dog", "aspect_ratio": "16:9"}', description: "Golden Retriever 16:9"},
+    ... continue pattern ...
+    {step: 9, tool: "text_to_image", args: '{"prompt": "A photorealistic Labrador dog", "aspect_ratio": "3:4"}', description: "Labrador 3:4"}])
 
 Request: "Generate a cat, remove its background, replace with forest"
 Plan: 3 sequential steps (pipeline)
-
-Response 1:
-  Text: "Generating cat. EXECUTION_PLAN: {\"current\": 1, \"total\": 3, \"description\": \"Generate cat\", \"continue\": true, \"plan_type\": \"pipeline\"}"
+  Text: "Creating your cat and giving it a forest background!"
   Call: text_to_image(prompt="a cat")
-
-Response 2 (after CONTINUE_EXECUTION):
-  Text: "Removing background. EXECUTION_PLAN: {\"current\": 2, \"total\": 3, \"description\": \"Remove background\", \"continue\": true, \"plan_type\": \"pipeline\"}"
-  Call: remove_background(image="<url_from_step_1>")
-
-Response 3 (after CONTINUE_EXECUTION):
-  Text: "Adding forest background. EXECUTION_PLAN: {\"current\": 3, \"total\": 3, \"description\": \"Replace with forest\", \"continue\": false, \"plan_type\": \"pipeline\"}"
-  Call: generate_background(image="<url_from_step_2>", prompt="forest background")
+  Call: submit_execution_plan(plan_type="pipeline", description="Cat with forest background", steps=[
+    {step: 1, tool: "text_to_image", args: '{"prompt": "a cat"}', description: "Generate cat"},
+    {step: 2, tool: "remove_background", args: '{"image": "<url_from_step_1>"}', description: "Remove background"},
+    {step: 3, tool: "generate_background", args: '{"image": "<url_from_step_2>", "prompt": "forest background"}', description: "Replace with forest"}])
 
 IMPORTANT: For pipelines, use the image URL from the previous step's result as input for the next step.
 
 The available tools and their exact schemas are provided via function calling.`;
 
-    this.model = this.genAI.getGenerativeModel({
-      model: "gemini-2.0-flash-exp",
-      systemInstruction,
-      tools: [{ functionDeclarations }],
-    });
-
-    // Initialize chat history
-    this.chatHistory = [];
+    this.functionDeclarations = functionDeclarations;
+    this.systemInstruction = systemInstruction;
   }
 
   // Legacy method for backwards compatibility
@@ -324,7 +348,19 @@ The available tools and their exact schemas are provided via function calling.`;
     this.initializeWithMCPTools(mcpTools);
   }
 
-  async sendMessage(userMessage: string, currentParams?: any): Promise<AgentResponse> {
+  /**
+   * Send a message to the agent.
+   * When onTextDelta is provided the response is streamed and text is
+   * forwarded as it arrives (repair rounds aren't streamed; the returned
+   * message is the final text). Aborting the signal stops waiting for the model.
+   */
+  async sendMessage(
+    userMessage: string,
+    currentParams?: ChatContext,
+    onTextDelta?: (delta: string) => void,
+    signal?: AbortSignal,
+    intent?: IntentDecision
+  ): Promise<AgentResponse> {
     try {
       // Console debugging: Log agent inputs
       console.group("🤖 Agent Context Inputs");
@@ -342,52 +378,14 @@ The available tools and their exact schemas are provided via function calling.`;
           }
         }
         console.log("Context Object:", contextPreview);
-        
-        // Highlight which priority should be triggered
-        if (currentParams.ai_operation) {
-          console.log("🔴 PRIORITY 1: Explicit AI Operation Detected");
-          console.log("  Operation:", currentParams.ai_operation);
-          const imageType = currentParams.preview_image_url?.startsWith('http') ? 'MCP URL' : 
-                           currentParams.preview_image_url?.startsWith('data:') ? 'BASE64' : 'none';
-          console.log(`  Image type: ${imageType}`);
-        } else if (currentParams.preview_image_url && userMessage) {
-          // Check for AI operation keywords in natural language
-          const userInput = userMessage.toLowerCase();
-          const hasOpKeywords = [
-            'expand', 'aspect ratio', 'aspect ratios', 'resize', 'crop',
-            'change background', 'replace background', 'new background',
-            'remove background', 'bg remove', 'transparent',
-            'blur background', 'upscale', 'increase resolution',
-            'enhance', 'improve quality'
-          ].some(keyword => userInput.includes(keyword));
-          
-          if (hasOpKeywords) {
-            console.log("🟡 PRIORITY 2: AI Operations from Natural Language");
-            console.log("  Detected keywords in:", userMessage);
-            const imageType = currentParams.preview_image_url?.startsWith('http') ? 'MCP URL' : 'BASE64';
-            console.log(`  Preview image type: ${imageType}`);
-          } else if (currentParams.mask_data) {
-            console.log("🟠 PRIORITY 3: Masked Editing Detected");
-            console.log("  Mask data present:", !!currentParams.mask_data);
-          } else if (currentParams.structured_prompt) {
-            console.log("🟢 PRIORITY 5: Conversational Refinement Detected");
-            const imageType = currentParams.preview_image_url?.startsWith('http') ? 'MCP URL' : 'BASE64';
-            console.log(`  Preview image type: ${imageType}`);
-            console.log("  Structured prompt available:", !!currentParams.structured_prompt);
-          }
-        } else if (currentParams.mask_data && userMessage) {
-          console.log("🟠 PRIORITY 3: Masked Editing Detected");
-          console.log("  Mask data present:", !!currentParams.mask_data);
-        } else if (currentParams.reference_image && !currentParams.ai_operation) {
-          console.log("🟣 PRIORITY 4: Reference Image Generation Detected");
-          console.log("  Reference image:", currentParams.reference_image?.substring(0, 50) + "...");
-        } else {
-          console.log("🔵 PRIORITY 6: Standard Text-to-Image (Default)");
-        }
+      }
+
+      if (intent) {
+        console.log(`🧭 Intent: ${describeIntent(intent)}`);
       }
       
       // Log available tools for debugging
-      if (this.model) {
+      if (this.systemInstruction) {
         console.log("📚 Available MCP Tools:", this.getAvailableToolNames());
       }
       console.groupEnd();
@@ -396,9 +394,10 @@ The available tools and their exact schemas are provided via function calling.`;
       let contextMessage = userMessage;
       
       if (currentParams) {
+        const routerHint = intent ? `\nIntent Router: ${describeIntent(intent)}\n` : "";
         const paramsContext = `Current UI Parameters:
 ${JSON.stringify(currentParams, null, 2)}
-
+${routerHint}
 User Message: ${userMessage}`;
         contextMessage = paramsContext;
       }
@@ -409,78 +408,76 @@ User Message: ${userMessage}`;
         parts: [{ text: contextMessage }],
       });
 
-      const chat = this.model.startChat({
+      const chat = getAgentProvider().startChat({
+        systemInstruction: this.systemInstruction,
+        functions: this.functionDeclarations,
         history: this.chatHistory.slice(0, -1),
       });
 
-      const result = await chat.sendMessage(contextMessage);
-      const response = result.response;
-
-      // Check for function calls (tool calls from agent)
-      const functionCalls = response.functionCalls();
-      const toolCalls: Array<{ name: string; args: Record<string, any> }> = [];
+      let response = await chat.send(contextMessage, { onTextDelta, signal });
+      let { toolCalls, planSubmission } = this.collectFunctionCalls(response, currentParams);
       let execution_plan: AgentResponse["execution_plan"] = undefined;
+      let planError: string | undefined;
+
+      // Validate the turn's tool calls and plan; on failure hand the issues back so the model can repair them
+      for (let attempt = 0; ; attempt++) {
+        // Tool args are coerced to each tool's schema here, the same way the MCP client does
+        const argValidations = toolCalls.map(call => validateToolCall(this.availableTools, call.name, call.args));
+        toolCalls = toolCalls.map((call, index) => {
+          const validation = argValidations[index];
+          return validation.ok ? { ...call, args: validation.args } : call;
+        });
+        const invalidCalls = argValidations.filter(validation => !validation.ok).length;
+
+        let planIssues: string[] | undefined;
+        if (planSubmission !== undefined) {
+          const validation = validateExecutionPlan(planSubmission, this.availableTools, toolCalls.length);
+          if (validation.success) {
+            execution_plan = validation.plan;
+            planError = undefined;
+            console.log("📋 Execution Plan:", execution_plan);
+          } else {
+            planIssues = validation.issues;
+            planError = `Invalid execution plan: ${validation.issues.join("; ")}`;
+            console.warn(`⚠️ ${planError}`);
+          }
+        }
 
-      if (functionCalls && functionCalls.length > 0) {
-        // Console debugging: Log agent's decision
-        console.group("🎯 Agent Decision");
-        console.log(`Agent decided to call ${functionCalls.length} tool(s):`);
-        
-        for (const call of functionCalls) {
-          const { name, args } = call;
-          console.log(`📞 Tool Call: ${name}`);
-          console.log("  Arguments:", args);
-          
-          // All function calls are now MCP tool calls
-          // Agent handles parameter mapping dynamically
-          toolCalls.push({ name, args: args as Record<string, any> });
+        if (!planIssues && invalidCalls === 0) break;
+        if (invalidCalls > 0) {
+          console.warn(`⚠️ ${invalidCalls} tool call(s) with invalid arguments`);
         }
-        console.groupEnd();
-      } else {
-        const responseText = response.text();
-        console.log("💬 Agent Response (no tool calls):", responseText);
-        console.log("⚠️ WARNING: Agent should have called a tool but didn't!");
-        console.log("   User input indicated:", currentParams?.user_input);
+        // Calls that are still invalid fail in the MCP client with the same structured issues
+        if (attempt >= MAX_REPAIR_ATTEMPTS) break;
+
+        // Every call in the turn needs a response; nothing runs until the whole turn is valid
+        let toolIndex = 0;
+        const functionResponses: AgentFunctionResponse[] = response.functionCalls.map(call => {
+          if (call.name === EXECUTION_PLAN_TOOL_NAME) {
+            return {
+              name: call.name,
+              response: planIssues
+                ? buildPlanRepairResponse(planIssues)
+                : { status: "accepted", reason: "The plan is valid; no need to submit it again" },
+            };
+          }
+          const validation = argValidations[toolIndex++];
+          return {
+            name: call.name,
+            response: validation.ok
+              ? { status: "not_executed", reason: "Waiting for the other calls in this turn to be fixed - make this call again" }
+              : buildArgsRepairResponse(call.name, validation.issues),
+          };
+        });
+
+        // Not streamed: the text would be appended to what the first attempt already streamed
+        response = await chat.send(functionResponses, { signal });
+        ({ toolCalls, planSubmission } = this.collectFunctionCalls(response, currentParams));
       }
 
-      const assistantMessage = response.text() || "I'm processing your request...";
+      const assistantMessage = response.text || "I'm processing your request...";
       console.log("📄 Agent's full text response:", assistantMessage);
 
-      // Extract execution_plan from text response if present
-      // Use a more robust regex that handles nested objects
-      const executionPlanMatch = assistantMessage.match(/EXECUTION_PLAN:\s*(\{[\s\S]+)/);
-      if (executionPlanMatch) {
-        try {
-          // Find the complete JSON by counting braces
-          let jsonStr = '';
-          let braceCount = 0;
-          let startFound = false;
-          
-          for (let i = 0; i < executionPlanMatch[0].length; i++) {
-            const char = executionPlanMatch[0][i];
-            if (char === '{') {
-              startFound = true;
-              braceCount++;
-            }
-            if (startFound) {
-              jsonStr += char;
-            }
-            if (char === '}') {
-              braceCount--;
-              if (braceCount === 0 && startFound) {
-                break; // Found complete JSON object
-              }
-            }
-          }
-          
-          execution_plan = JSON.parse(jsonStr);
-          console.log("📋 Execution Plan:", execution_plan);
-        } catch (e) {
-          console.error("Failed to parse execution_plan:", e);
-          console.error("Raw match:", executionPlanMatch[0]);
-        }
-      }
-
       // Add assistant response to history
       this.chatHistory.push({
         role: "model",
@@ -491,13 +488,52 @@ User Message: ${userMessage}`;
         message: assistantMessage,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         execution_plan,
+        planError,
       };
     } catch (error) {
-      console.error("Error in Gemini agent:", error);
+      console.error("Error in agent:", error);
       throw error;
     }
   }
 
+  /**
+   * Split the model's function calls into MCP tool calls and a submitted execution plan
+   */
+  private collectFunctionCalls(
+    response: AgentTurn,
+    currentParams?: ChatContext
+  ): { toolCalls: Array<{ name: string; args: Record<string, unknown> }>; planSubmission?: unknown } {
+    const functionCalls = response.functionCalls;
+    const toolCalls: Array<{ name: string; args: Record<string, unknown> }> = [];
+    let planSubmission: unknown = undefined;
+
+    if (functionCalls && functionCalls.length > 0) {
+      // Console debugging: Log agent's decision
+      console.group("🎯 Agent Decision");
+      console.log(`Agent decided to call ${functionCalls.length} tool(s):`);
+
+      for (const call of functionCalls) {
+        const { name, args } = call;
+        console.log(`📞 Tool Call: ${name}`);
+        console.log("  Arguments:", args);
+
+        if (name === EXECUTION_PLAN_TOOL_NAME) {
+          planSubmission = args;
+        } else {
+          // Agent handles parameter mapping dynamically
+          toolCalls.push({ name, args });
+        }
+      }
+      console.groupEnd();
+    } else {
+      console.log("💬 Agent Response (no tool calls):", response.text);
+      console.log("⚠️ WARNING: Agent should have called a tool but didn't!");
+      console.log("   User input indicated:", currentParams?.user_input);
+    }
+
+    return { toolCalls, planSubmission };
+  }
+
   private generateRandomPrompt(): string {
     const prompts = [
       "A majestic phoenix rising from vibrant flames against a sunset sky",
@@ -519,23 +555,61 @@ User Message: ${userMessage}`;
     return this.availableTools.map(tool => tool.name);
   }
 
-  getChatHistory(): Content[] {
+  /**
+   * Record a turn that was handled without the model (e.g. a routed operation)
+   * so later messages can refer to it
+   */
+  recordTurn(userMessage: string, reply: string): void {
+    this.chatHistory.push(
+      { role: "user", parts: [{ text: userMessage }] },
+      { role: "model", parts: [{ text: reply }] }
+    );
+  }
+
+  getChatHistory(): AgentHistoryEntry[] {
     return this.chatHistory;
   }
 
+  /**
+   * Restore a previously saved conversation (e.g. when resuming a chat session)
+   */
+  setChatHistory(history: AgentHistoryEntry[]): void {
+    this.chatHistory = [...history];
+  }
+
   clearHistory(): void {
     this.chatHistory = [];
   }
 }
 
-let agentInstance: GeminiAgentService | null = null;
+// One agent per conversation, keyed by session key (see buildSessionKey).
+// Idle agents are evicted after the session TTL; history lives in the session store.
+const agentPool = new Map<string, { agent: AgentService; lastUsed: number }>();
 
-export function getGeminiAgent(): GeminiAgentService {
-  if (!agentInstance) {
-    agentInstance = new GeminiAgentService();
+function evictIdleAgents(): void {
+  const cutoff = Date.now() - getSessionTtlMs();
+  for (const [key, entry] of agentPool) {
+    if (entry.lastUsed < cutoff) {
+      agentPool.delete(key);
+    }
   }
-  return agentInstance;
 }
 
-export { GeminiAgentService };
+export function getAgentForSession(sessionKey: string): AgentService {
+  evictIdleAgents();
+
+  let entry = agentPool.get(sessionKey);
+  if (!entry) {
+    entry = { agent: new AgentService(), lastUsed: Date.now() };
+    agentPool.set(sessionKey, entry);
+  }
+  entry.lastUsed = Date.now();
+  return entry.agent;
+}
+
+export function releaseAgentSession(sessionKey: string): void {
+  agentPool.delete(sessionKey);
+}
+
+export { AgentService };
 
@@ -0,0 +1,149 @@
+/**
+ * Google Gemini implementation of AgentProvider
+ */
+
+import {
+  GoogleGenerativeAI,
+  type ChatSession,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclaration,
+  type FunctionDeclarationSchema,
+  type Part,
+} from "@google/generative-ai";
+import { getEnv } from "./env-init"; // Explicit env loading for Windows compatibility
+import type {
+  AgentChat,
+  AgentChatOptions,
+  AgentFunctionResponse,
+  AgentProvider,
+  AgentSendOptions,
+  AgentTurn,
+} from "./agent-provider";
+
+// Keys of a JSON Schema that Gemini's function declarations accept
+const SCHEMA_KEYS = ["type", "description", "enum", "items", "properties", "required", "nullable"];
+
+export class GeminiAgentProvider implements AgentProvider {
+  readonly name = "gemini" as const;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(readonly model: string) {
+    // Load API key from environment (env-init automatically loads .env.local)
+    this.genAI = new GoogleGenerativeAI(getEnv("GOOGLE_GENERATIVE_AI_API_KEY"));
+  }
+
+  startChat(options: AgentChatOptions): AgentChat {
+    const functionDeclarations: FunctionDeclaration[] = options.functions.map((fn) => ({
+      name: fn.name,
+      description: fn.description,
+      parameters: toGeminiSchema(fn.parameters) as unknown as FunctionDeclarationSchema,
+    }));
+
+    const history: Content[] = options.history.map((entry) => ({
+      role: entry.role,
+      parts: entry.parts.map((part) => ({ text: part.text || "" })),
+    }));
+
+    const chat = this.genAI
+      .getGenerativeModel({
+        model: this.model,
+        systemInstruction: options.systemInstruction,
+        tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+      })
+      .startChat({ history });
+
+    return {
+      send: (input, sendOptions) => sendToChat(chat, input, sendOptions),
+    };
+  }
+
+  async checkHealth(signal?: AbortSignal): Promise<void> {
+    // Counting tokens checks the key and the model without generating anything
+    await this.genAI.getGenerativeModel({ model: this.model }).countTokens("ping", { signal });
+  }
+}
+
+async function sendToChat(
+  chat: ChatSession,
+  input: string | AgentFunctionResponse[],
+  options: AgentSendOptions = {}
+): Promise<AgentTurn> {
+  const { onTextDelta, signal } = options;
+  const request: string | Part[] = typeof input === "string"
+    ? input
+    : input.map((fn) => ({ functionResponse: { name: fn.name, response: fn.response } }));
+
+  let response: EnhancedGenerateContentResponse;
+  if (onTextDelta) {
+    const result = await chat.sendMessageStream(request, { signal });
+    for await (const chunk of result.stream) {
+      const chunkText = textOf(chunk);
+      if (chunkText) {
+        onTextDelta(chunkText);
+      }
+    }
+    response = await result.response;
+  } else {
+    response = (await chat.sendMessage(request, { signal })).response;
+  }
+
+  return {
+    text: textOf(response),
+    functionCalls: (response.functionCalls() || []).map((call) => ({
+      name: call.name,
+      args: (call.args || {}) as Record<string, unknown>,
+    })),
+  };
+}
+
+function textOf(response: EnhancedGenerateContentResponse): string {
+  try {
+    return response.text();
+  } catch {
+    return ""; // Function-call-only (or blocked) responses have no text
+  }
+}
+
+/**
+ * Reduce a JSON Schema to what Gemini accepts: string enums need format "enum",
+ * non-string enums and type unions aren't supported, and objects must declare properties.
+ */
+function toGeminiSchema(schema: unknown): Record<string, unknown> {
+  if (!schema || typeof schema !== "object") return { type: "string" };
+
+  const source = schema as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of SCHEMA_KEYS) {
+    if (source[key] !== undefined) result[key] = source[key];
+  }
+
+  if (Array.isArray(result.type)) {
+    const types = result.type as string[];
+    result.type = types.find((t) => t !== "null") || "string";
+    if (types.includes("null")) result.nullable = true;
+  }
+
+  if (Array.isArray(result.enum)) {
+    if (result.type === "string" || result.enum.every((value) => typeof value === "string")) {
+      result.format = "enum";
+    } else {
+      result.description = `${result.description ? `${result.description}. ` : ""}One of: ${result.enum.join(", ")}`;
+      delete result.enum;
+    }
+  }
+
+  if (result.type === "object") {
+    const properties = Object.entries((result.properties || {}) as Record<string, unknown>);
+    if (properties.length === 0) {
+      return { type: "string", description: `${result.description || "Object"} (JSON-encoded)` };
+    }
+    result.properties = Object.fromEntries(properties.map(([name, value]) => [name, toGeminiSchema(value)]));
+  }
+
+  if (result.type === "array") {
+    result.items = toGeminiSchema(result.items);
+  }
+
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * Generation history persistence
+ *
+ * Thin data-access layer over the Generation model so API routes (and later
+ * server-side executors) share one way of reading and writing gallery items.
+ */
+
+import { Types } from "mongoose";
+import { connectToDatabase } from "./mongodb";
+import Generation from "@/models/Generation";
+import type { GeneratedMedia } from "@/hooks/useBriaGeneration";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface GenerationPage {
+  items: GeneratedMedia[];
+  nextCursor: string | null;
+}
+
+type GenerationInput = Omit<GeneratedMedia, "timestamp" | "isLoading">;
+
+/**
+ * Thrown for a `before` cursor that listGenerations didn't produce (400)
+ */
+export class InvalidCursorError extends Error {
+  constructor(readonly cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function isInvalidCursorError(error: unknown): error is InvalidCursorError {
+  return error instanceof Error && error.name === "InvalidCursorError";
+}
+
+interface GenerationDocument {
+  _id: Types.ObjectId;
+  itemId: string;
+  type: "image" | "video";
+  url: string;
+  imageUrl?: string;
+  posterUrl?: string;
+  duration?: number;
+  metadata?: GeneratedMedia["metadata"];
+  generationParams?: GeneratedMedia["generationParams"];
+  createdAt: Date;
+}
+
+/**
+ * Convert a stored document into the client-facing GeneratedMedia shape
+ */
+export function toGeneratedMedia(doc: GenerationDocument): GeneratedMedia {
+  return {
+    id: doc.itemId,
+    type: doc.type,
+    url: doc.url,
+    imageUrl: doc.imageUrl || undefined,
+    posterUrl: doc.posterUrl || undefined,
+    duration: doc.duration || undefined,
+    timestamp: doc.createdAt,
+    metadata: doc.metadata && Object.keys(doc.metadata).length > 0 ? doc.metadata : undefined,
+    generationParams: doc.generationParams || undefined,
+  };
+}
+
+/**
+ * List a user's generations, newest first.
+ * `before` is the `nextCursor` of the previous page: the last item's creation time
+ * and id, so items created in the same millisecond aren't skipped.
+ * @throws InvalidCursorError when `before` isn't such a cursor
+ */
+export async function listGenerations(
+  clerkId: string,
+  options: { limit?: number; before?: string | null } = {}
+): Promise<GenerationPage> {
+  await connectToDatabase();
+
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const query: Record<string, unknown> = { clerkId };
+
+  if (options.before) {
+    const { createdAt, id } = parseCursor(options.before);
+    query.$or = [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: id } }];
+  }
+
+  // Fetch one extra document to know whether another page exists
+  const docs = (await Generation.find(query)
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean()) as unknown as GenerationDocument[];
+
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+
+  return {
+    items: page.map(toGeneratedMedia),
+    nextCursor: hasMore ? toCursor(page[page.length - 1]) : null,
+  };
+}
+
+// "<ISO createdAt>_<ObjectId>"
+function toCursor(doc: GenerationDocument): string {
+  return `${doc.createdAt.toISOString()}_${doc._id.toString()}`;
+}
+
+function parseCursor(cursor: string): { createdAt: Date; id: Types.ObjectId } {
+  const [timestamp, id, ...rest] = cursor.split("_");
+  const createdAt = new Date(timestamp);
+  if (rest.length > 0 || isNaN(createdAt.getTime()) || !id || !Types.ObjectId.isValid(id)) {
+    throw new InvalidCursorError(cursor);
+  }
+  return { createdAt, id: new Types.ObjectId(id) };
+}
+
+export async function getGeneration(clerkId: string, itemId: string): Promise<GeneratedMedia | null> {
+  await connectToDatabase();
+
+  const doc = (await Generation.findOne({ clerkId, itemId }).lean()) as unknown as GenerationDocument | null;
+  return doc ? toGeneratedMedia(doc) : null;
+}
+
+/**
+ * Insert or update a generation (keyed by the client gallery item id)
+ */
+export async function saveGeneration(clerkId: string, media: GenerationInput): Promise<GeneratedMedia> {
+  await connectToDatabase();
+
+  const doc = (await Generation.findOneAndUpdate(
+    { clerkId, itemId: media.id },
+    {
+      $set: {
+        type: media.type,
+        url: media.url,
+        imageUrl: media.imageUrl,
+        posterUrl: media.posterUrl,
+        duration: media.duration,
+        metadata: media.metadata || {},
+        generationParams: media.generationParams,
+      },
+      $setOnInsert: {
+        clerkId,
+        itemId: media.id,
+      },
+    },
+    { upsert: true, new: true, lean: true }
+  )) as unknown as GenerationDocument;
+
+  return toGeneratedMedia(doc);
+}
+
+export async function deleteGeneration(clerkId: string, itemId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  const result = await Generation.deleteOne({ clerkId, itemId });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,135 @@
+/**
+ * Image ingestion for uploads
+ *
+ * Uploaded bytes are untrusted: the client's MIME type and file name are
+ * ignored. An upload must be PNG, JPEG, WebP or HEIC by its magic bytes, and
+ * within UPLOAD_MAX_BYTES and UPLOAD_MAX_PIXELS (checked from the header,
+ * before the image is decoded). It is then auto-oriented from its EXIF
+ * orientation, scaled down to UPLOAD_MAX_DIMENSION on the long edge and
+ * re-encoded without any metadata (EXIF, GPS, XMP, ICC) as JPEG, or PNG when
+ * it has transparency: formats every Bria tool accepts.
+ */
+
+import sharp from "sharp";
+import { hasEnv } from "./env-init";
+import { sniffMimeType } from "./storage";
+
+export type IngestedFormat = "jpeg" | "png";
+
+export interface IngestedImage {
+  body: Buffer;
+  mimeType: `image/${IngestedFormat}`;
+  format: IngestedFormat;
+  width: number; // After orientation and resizing
+  height: number;
+  original: { mimeType: string; width: number; height: number; size: number };
+}
+
+export type ImageRejection = "file_too_large" | "too_many_pixels" | "unsupported_format" | "invalid_image";
+
+/**
+ * Thrown when an upload isn't an acceptable image. Routes answer with its
+ * status (413 too large, 415 unsupported format, 400 unreadable) and code.
+ */
+export class ImageValidationError extends Error {
+  readonly status: 400 | 413 | 415;
+
+  constructor(readonly code: ImageRejection, message: string) {
+    super(message);
+    this.name = "ImageValidationError";
+    this.status = code === "unsupported_format" ? 415 : code === "invalid_image" ? 400 : 413;
+  }
+}
+
+export function isImageValidationError(error: unknown): error is ImageValidationError {
+  return error instanceof Error && error.name === "ImageValidationError";
+}
+
+const ACCEPTED_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic"];
+
+const DEFAULT_MAX_BYTES = 15 * 1024 * 1024;
+const DEFAULT_MAX_PIXELS = 40_000_000;
+const DEFAULT_MAX_DIMENSION = 2048;
+const JPEG_QUALITY = 90;
+
+/**
+ * Validate and normalize an uploaded image
+ * @throws ImageValidationError
+ */
+export async function ingestImage(input: Buffer): Promise<IngestedImage> {
+  const maxBytes = getMaxUploadBytes();
+  if (input.length > maxBytes) {
+    throw new ImageValidationError("file_too_large", `Images can be at most ${formatBytes(maxBytes)}`);
+  }
+
+  const mimeType = sniffMimeType(input);
+  if (!mimeType || !ACCEPTED_TYPES.includes(mimeType)) {
+    throw new ImageValidationError("unsupported_format", "Upload a PNG, JPEG, WebP or HEIC image");
+  }
+
+  const maxPixels = readLimit("UPLOAD_MAX_PIXELS", DEFAULT_MAX_PIXELS);
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch (error) {
+    throw unreadable(mimeType, error);
+  }
+
+  const { width = 0, height = 0 } = metadata;
+  if (!width || !height) {
+    throw new ImageValidationError("invalid_image", "The image has no dimensions");
+  }
+  if (width * height > maxPixels) {
+    throw new ImageValidationError(
+      "too_many_pixels",
+      `Images can have at most ${+(maxPixels / 1e6).toFixed(1)} megapixels (this one is ${width}×${height})`
+    );
+  }
+
+  const maxDimension = readLimit("UPLOAD_MAX_DIMENSION", DEFAULT_MAX_DIMENSION);
+  const format: IngestedFormat = metadata.hasAlpha ? "png" : "jpeg";
+
+  try {
+    // sharp writes no metadata unless asked to, so EXIF/GPS are dropped here
+    const pipeline = sharp(input, { limitInputPixels: maxPixels, failOn: "error" })
+      .rotate()
+      .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+      .toColourspace("srgb");
+    const { data, info } = await (format === "png"
+      ? pipeline.png({ compressionLevel: 9 })
+      : pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+    ).toBuffer({ resolveWithObject: true });
+
+    return {
+      body: data,
+      mimeType: `image/${format}`,
+      format,
+      width: info.width,
+      height: info.height,
+      original: { mimeType, width, height, size: input.length },
+    };
+  } catch (error) {
+    throw unreadable(mimeType, error);
+  }
+}
+
+export function getMaxUploadBytes(): number {
+  return readLimit("UPLOAD_MAX_BYTES", DEFAULT_MAX_BYTES);
+}
+
+function unreadable(mimeType: string, error: unknown): ImageValidationError {
+  console.warn(`[ImageIngest] Could not decode ${mimeType}:`, error instanceof Error ? error.message : error);
+  // HEIC needs an HEVC decoder, which prebuilt libvips doesn't ship
+  return mimeType === "image/heic"
+    ? new ImageValidationError("unsupported_format", "This server can't read HEIC images; upload a JPEG or PNG")
+    : new ImageValidationError("invalid_image", "The image is corrupt or can't be read");
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return hasEnv(name) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+}
@@ -0,0 +1,251 @@
+/**
+ * Deterministic intent router
+ *
+ * Classifies the chat context object with the seven-priority rules that the
+ * agent's system instruction describes in prose:
+ *
+ *   1. explicit ai_operation       5. reference image
+ *   2. operation keywords (NL)     6. refinement of the current generation
+ *   3. masked editing              7. text-to-image (default)
+ *   4. video (video mode, a video asked for, or the current media is a video)
+ *
+ * Priority 1 operations whose arguments can be filled from the context (see
+ * the operation registry) go straight to MCP; everything else is handed to the agent together with the
+ * decision. The trace lists every rule evaluated, for the UI and the logs.
+ */
+
+import type { MCPTool } from "./mcp-client";
+import type { ToolCall } from "./tool-execution";
+import type { IntentDecision, IntentKind, IntentTraceStep } from "@/types/chat-stream";
+import { OPERATION_REGISTRY, buildOperationInput, isAIOperation, operationReply, resolveOperation } from "./operations";
+import { normalizeReferenceImages } from "./reference-params";
+import { findVideoTools, pickVideoTool } from "./video-tools";
+import type { ContextReferenceImage } from "@/types/references";
+
+// Context object built by the UI (see useBriaGeneration)
+export interface ChatContext {
+  user_input?: string;
+  parameters?: Record<string, unknown>;
+  reference_image?: ContextReferenceImage[] | string | null; // A single URL from older clients
+  ai_operation?: { name: string; params?: Record<string, unknown> } | null;
+  preview_image_url?: string | null;
+  preview_media_type?: "image" | "video" | null; // What preview_image_url points at
+  structured_prompt?: unknown;
+  mask_data?: string | null;
+}
+
+export interface IntentRoute {
+  decision: IntentDecision;
+  toolCall?: ToolCall; // Set when the operation can run without the agent
+  reply?: string; // Chat message for a direct route
+}
+
+// Natural-language operation keywords (Priority 2), checked in order
+const OPERATION_KEYWORDS: Array<{ tool: string; keywords: string[] }> = [
+  { tool: "remove_background", keywords: ["remove background", "bg remove", "transparent"] },
+  { tool: "blur_background", keywords: ["blur background", "background blur"] },
+  {
+    tool: "generate_background",
+    keywords: ["change background", "replace background", "new background", "different background"],
+  },
+  { tool: "expand_image", keywords: ["expand", "aspect ratio", "different size", "resize", "crop"] },
+  { tool: "increase_resolution", keywords: ["upscale", "increase resolution", "higher quality", "enlarge"] },
+  { tool: "enhance_image", keywords: ["enhance", "improve quality", "better quality"] },
+];
+
+const ERASE_KEYWORDS = /\b(erase|remove|delete|get rid of)\b/;
+
+// Priority 4: a video asked for in image mode, and asking to animate the current image
+const VIDEO_KEYWORDS = /\b(videos?|animate|clip)\b/;
+const ANIMATE_KEYWORDS = /\b(animate|bring (it|this) to life|make (it|this) move|this (image|picture|photo))\b/;
+
+interface Rule {
+  priority: number;
+  intent: IntentKind;
+  evaluate(input: RuleInput): { matched: boolean; reason: string; tool?: string };
+}
+
+interface RuleInput {
+  context: ChatContext;
+  userInput: string;
+  tools: Map<string, MCPTool>;
+}
+
+const RULES: Rule[] = [
+  {
+    priority: 1,
+    intent: "explicit_operation",
+    evaluate: ({ context, tools }) => {
+      const operation = context.ai_operation;
+      if (!operation?.name) return { matched: false, reason: "No ai_operation in context" };
+      const targets = isAIOperation(operation.name) ? OPERATION_REGISTRY[operation.name] : [];
+      const tool = targets.find((target) => tools.has(target.tool))?.tool;
+      return {
+        matched: true,
+        reason: tool
+          ? `ai_operation "${operation.name}" maps to ${tool}`
+          : `ai_operation "${operation.name}" has no matching MCP tool`,
+        tool,
+      };
+    },
+  },
+  {
+    priority: 2,
+    intent: "nl_operation",
+    evaluate: ({ context, userInput }) => {
+      if (!context.preview_image_url) return { matched: false, reason: "No current image to operate on" };
+      if (context.preview_media_type === "video") return { matched: false, reason: "The current media is a video" };
+      const text = userInput.toLowerCase();
+      for (const { tool, keywords } of OPERATION_KEYWORDS) {
+        const keyword = keywords.find((k) => text.includes(k));
+        if (keyword) return { matched: true, reason: `Keyword "${keyword}" about the current image`, tool };
+      }
+      return { matched: false, reason: "No operation keywords in the message" };
+    },
+  },
+  {
+    priority: 3,
+    intent: "masked_edit",
+    evaluate: ({ context, userInput, tools }) => {
+      if (!context.mask_data) return { matched: false, reason: "No mask drawn" };
+      if (!userInput) return { matched: false, reason: "Mask present but no instruction" };
+      const erase = ERASE_KEYWORDS.test(userInput.toLowerCase()) && tools.has("eraser");
+      return {
+        matched: true,
+        reason: erase ? "Mask with an erase instruction" : "Mask with a fill instruction",
+        tool: erase ? "eraser" : "generative_fill",
+      };
+    },
+  },
+  {
+    priority: 4,
+    intent: "video_generation",
+    evaluate: ({ context, userInput, tools }) => {
+      const text = userInput.toLowerCase();
+      const reason =
+        context.parameters?.mode === "video"
+          ? "Video mode"
+          : context.preview_media_type === "video" && userInput
+            ? "Instruction about the current video"
+            : VIDEO_KEYWORDS.test(text)
+              ? "Video asked for in the message"
+              : null;
+      if (!reason) return { matched: false, reason: "Image mode and no video asked for" };
+
+      const connected = [...tools.values()];
+      if (findVideoTools(connected).length === 0) {
+        return { matched: true, reason: `${reason}, but no connected MCP server offers a video tool` };
+      }
+      if (context.preview_media_type === "video") {
+        return { matched: true, reason }; // The agent picks the video tool for the edit
+      }
+
+      // Animate an uploaded reference or the current image, otherwise generate from text
+      const fromImage =
+        normalizeReferenceImages(context.reference_image).length > 0 ||
+        (!!context.preview_image_url && ANIMATE_KEYWORDS.test(text));
+      const tool = pickVideoTool(connected, fromImage ? "image_to_video" : "text_to_video");
+      return {
+        matched: true,
+        reason: `${reason}: ${fromImage ? "animate an image" : "generate from text"}`,
+        tool: tool?.name,
+      };
+    },
+  },
+  {
+    priority: 5,
+    intent: "reference_generation",
+    evaluate: ({ context }) => {
+      const count = normalizeReferenceImages(context.reference_image).length;
+      return count > 0
+        ? { matched: true, reason: count === 1 ? "Reference image uploaded" : `${count} reference images uploaded`, tool: "text_to_image" }
+        : { matched: false, reason: "No reference image" };
+    },
+  },
+  {
+    priority: 6,
+    intent: "refinement",
+    evaluate: ({ context, userInput }) => {
+      if (!context.preview_image_url || !context.structured_prompt) {
+        return { matched: false, reason: "No current generation with a structured prompt" };
+      }
+      if (!userInput) return { matched: false, reason: "No refinement instruction" };
+      return { matched: true, reason: "Refine the current generation", tool: "text_to_image" };
+    },
+  },
+  {
+    priority: 7,
+    intent: "text_to_image",
+    evaluate: () => ({ matched: true, reason: "Standard generation", tool: "text_to_image" }),
+  },
+];
+
+/**
+ * Classify a chat turn. Returns a tool call only for Priority 1 operations
+ * whose required arguments are all available; otherwise the agent decides.
+ */
+export function routeIntent(message: string, context: ChatContext | undefined, mcpTools: MCPTool[]): IntentRoute {
+  const input: RuleInput = {
+    context: context || {},
+    userInput: (context?.user_input ?? message).trim(),
+    tools: new Map(mcpTools.map((tool) => [tool.name, tool])),
+  };
+
+  const trace: IntentTraceStep[] = [];
+  for (const rule of RULES) {
+    const result = rule.evaluate(input);
+    trace.push({ priority: rule.priority, intent: rule.intent, matched: result.matched, reason: result.reason });
+    if (!result.matched) continue;
+
+    const decision: IntentDecision = {
+      priority: rule.priority,
+      intent: rule.intent,
+      route: "agent",
+      tool: result.tool,
+      reason: result.reason,
+      trace,
+    };
+
+    if (rule.intent === "explicit_operation") {
+      return routeOperation(decision, input);
+    }
+    return { decision };
+  }
+
+  // Unreachable: the last rule always matches
+  throw new Error("Intent router: no rule matched");
+}
+
+/**
+ * Priority 1: build the tool call through the operation registry, or leave it
+ * to the agent when the operation needs inputs the context doesn't provide
+ */
+function routeOperation(decision: IntentDecision, { context, tools }: RuleInput): IntentRoute {
+  const operation = context.ai_operation!;
+  const resolution = resolveOperation(
+    operation.name,
+    buildOperationInput(context, operation.params),
+    [...tools.values()]
+  );
+
+  if (!resolution.ok) {
+    return { decision: { ...decision, reason: resolution.error } };
+  }
+
+  const { toolCall } = resolution;
+  const reason = `ai_operation "${operation.name}" maps to ${toolCall.name}; arguments taken from context`;
+  const trace = decision.trace.map((step) => (step.matched ? { ...step, reason } : step));
+  return {
+    decision: { ...decision, route: "direct", tool: toolCall.name, reason, trace },
+    toolCall,
+    reply: operationReply(operation.name),
+  };
+}
+
+/**
+ * One-line summary for logs and the agent's context
+ */
+export function describeIntent(decision: IntentDecision): string {
+  const tool = decision.tool ? ` -> ${decision.tool}` : "";
+  return `PRIORITY ${decision.priority} (${decision.intent})${tool}, ${decision.route}: ${decision.reason}`;
+}
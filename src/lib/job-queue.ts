@@ -0,0 +1,453 @@
+/**
+ * Generation job queue
+ *
+ * Every MCP tool call that produces media runs as a job: queued, executed with
+ * a process-wide concurrency limit (JOB_CONCURRENCY), and recorded in the job
+ * store. Jobs are independent of the HTTP request that created them, so a
+ * client can reload and pick a job back up by id. Every job belongs to a
+ * signed-in user, and its outputs are copied into asset storage and saved
+ * to their gallery when it succeeds. Jobs only stop early when cancelled explicitly (cancelJob, or the
+ * AbortSignal of the chat turn). Video renders take minutes, so a chat turn can
+ * leave them running (detach) and the client follows the job instead.
+ */
+
+import { randomUUID } from "crypto";
+import { getMCPClient } from "./mcp-client";
+import { cancelledToolResult, executeToolCall, type ChatEventEmitter, type ToolCall } from "./tool-execution";
+import { isCancelledError, throwIfCancelled } from "./cancellation";
+import { getJobStore } from "./job-store";
+import { saveGeneration } from "./generations";
+import { consumeGenerationQuota, refundGenerationQuota } from "./quotas";
+import { isRateLimitError } from "./rate-limit";
+import { mirrorMedia } from "./storage";
+import { getRetryPolicy } from "./retry-policy";
+import { mediaTypeOfTool } from "./video-tools";
+import type { ChatStreamEvent, ChatToolResult } from "@/types/chat-stream";
+import { TERMINAL_JOB_STATUSES, type GenerationJob } from "@/types/jobs";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_STALE_MINUTES = 30;
+
+export type JobListener = (job: GenerationJob, event?: ChatStreamEvent) => void;
+
+export interface EnqueueJobInput {
+  clerkId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  mediaType?: "image" | "video";
+  label?: string;
+  requester?: string; // Quota key the job was charged to; refunded unless the job succeeds
+  onUpdate?: JobListener; // Registered before the job can start, so no event is missed
+}
+
+const listeners = new Map<string, Set<JobListener>>();
+const completions = new Map<string, Promise<GenerationJob>>(); // Jobs owned by this process
+const controllers = new Map<string, AbortController>(); // Cancellation of jobs owned by this process
+const waiting: Array<{ jobId: string; start: () => void }> = [];
+let runningCount = 0;
+
+function getConcurrency(): number {
+  const value = Number(process.env.JOB_CONCURRENCY);
+  return value > 0 ? Math.floor(value) : DEFAULT_CONCURRENCY;
+}
+
+// Never shorter than the tool's calls may run without a progress notification (long video renders)
+function getStaleMs(toolName: string): number {
+  const minutes = Number(process.env.JOB_STALE_MINUTES);
+  const policy = getRetryPolicy(toolName);
+  return Math.max(
+    (minutes > 0 ? minutes : DEFAULT_STALE_MINUTES) * 60 * 1000,
+    (policy.timeoutMs + policy.maxDelayMs) * (policy.maxRetries + 1)
+  );
+}
+
+export function isTerminal(job: GenerationJob): boolean {
+  return TERMINAL_JOB_STATUSES.includes(job.status);
+}
+
+/**
+ * Create a job and queue it for execution
+ */
+export async function enqueueToolJob(input: EnqueueJobInput): Promise<GenerationJob> {
+  const now = new Date().toISOString();
+  const job: GenerationJob = {
+    id: randomUUID(),
+    clerkId: input.clerkId,
+    status: "queued",
+    toolName: input.toolName,
+    args: input.args,
+    mediaType: input.mediaType || mediaTypeOfTool(input.toolName),
+    label: input.label,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getJobStore().create(job);
+  if (input.onUpdate) {
+    subscribeToJob(job.id, input.onUpdate);
+  }
+
+  const controller = new AbortController();
+  const completion = new Promise<GenerationJob>((resolve) => {
+    waiting.push({
+      jobId: job.id,
+      start: () => {
+        runJob(job, controller.signal, input.requester).then(resolve);
+      },
+    });
+  });
+  controllers.set(job.id, controller);
+  completions.set(job.id, completion);
+  drainQueue();
+
+  console.log(`[JobQueue] Queued job ${job.id} (${job.toolName})`);
+  return job;
+}
+
+/**
+ * Look up a job. Jobs left queued/running by a process that went away are
+ * marked failed once they have been silent for JOB_STALE_MINUTES (or longer
+ * than their tool's timeout, when that is longer).
+ */
+export async function getJob(jobId: string): Promise<GenerationJob | null> {
+  const store = getJobStore();
+  const job = await store.get(jobId);
+  if (!job || isTerminal(job) || completions.has(jobId)) return job;
+
+  if (Date.now() - new Date(job.updatedAt).getTime() > getStaleMs(job.toolName)) {
+    return store.update(jobId, {
+      status: "failed",
+      error: "The job was interrupted. Please try again.",
+      progress: undefined,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+  return job;
+}
+
+/**
+ * Resolve once the job reaches a terminal state (jobs owned by this process),
+ * or with its current state otherwise
+ */
+export async function waitForJob(jobId: string): Promise<GenerationJob | null> {
+  return completions.get(jobId) ?? getJob(jobId);
+}
+
+/**
+ * Cancel a job. Queued jobs finish as cancelled right away; running jobs abort
+ * their MCP call. Resolves with the job's final state.
+ */
+export async function cancelJob(jobId: string): Promise<GenerationJob | null> {
+  const controller = controllers.get(jobId);
+  if (controller) {
+    controller.abort();
+
+    // Not started yet: run it now so it settles as cancelled without waiting for a slot
+    const index = waiting.findIndex((entry) => entry.jobId === jobId);
+    if (index !== -1) {
+      const [entry] = waiting.splice(index, 1);
+      runningCount++;
+      entry.start();
+    }
+    return waitForJob(jobId);
+  }
+
+  // Owned by another process (or already finished): just record the cancellation
+  const job = await getJob(jobId);
+  if (!job || isTerminal(job)) return job;
+  return getJobStore().update(jobId, {
+    status: "cancelled",
+    error: "Cancelled",
+    progress: undefined,
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Listen to a job's state changes and tool events. Returns an unsubscribe function.
+ */
+export function subscribeToJob(jobId: string, listener: JobListener): () => void {
+  let set = listeners.get(jobId);
+  if (!set) {
+    set = new Set();
+    listeners.set(jobId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    const current = listeners.get(jobId);
+    current?.delete(listener);
+    if (current?.size === 0) listeners.delete(jobId);
+  };
+}
+
+/**
+ * Run tool calls as jobs, one after another, forwarding their events.
+ * Emits "job_queued" for each so the client can bind placeholders to job ids.
+ * Once the signal aborts, the running job is cancelled and the rest are not queued.
+ * With detachVideos, video tool calls are queued without waiting for them.
+ */
+export async function executeToolCallsAsJobs(
+  toolCalls: ToolCall[],
+  options: {
+    clerkId: string;
+    requester?: string;
+    mediaType?: "image" | "video";
+    detachVideos?: boolean;
+    emit?: ChatEventEmitter;
+    signal?: AbortSignal;
+  }
+): Promise<ChatToolResult[]> {
+  const results: ChatToolResult[] = [];
+
+  for (const toolCall of toolCalls) {
+    results.push(
+      await runToolCallAsJob(toolCall, {
+        clerkId: options.clerkId,
+        requester: options.requester,
+        mediaType: options.mediaType,
+        detach: options.detachVideos && mediaTypeOfTool(toolCall.name) === "video",
+        emit: options.emit,
+        signal: options.signal,
+      })
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Run a single tool call as a job and wait for its result. With a requester,
+ * the call counts against their daily generation quota (refunded unless the
+ * job succeeds) and fails without running once it is used up. With detach, resolves as soon as the job is
+ * queued, with a pending result carrying the job id.
+ */
+export async function runToolCallAsJob(
+  toolCall: ToolCall,
+  options: {
+    clerkId: string;
+    requester?: string; // Quota key (lib/rate-limit requesterKey)
+    mediaType?: "image" | "video";
+    label?: string;
+    detach?: boolean;
+    emit?: ChatEventEmitter;
+    signal?: AbortSignal;
+  }
+): Promise<ChatToolResult> {
+  const { emit, signal } = options;
+  if (signal?.aborted) {
+    return cancelledToolResult(toolCall);
+  }
+
+  if (options.requester) {
+    try {
+      await consumeGenerationQuota(options.requester);
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error;
+      return { name: toolCall.name, error: error.message, quotaExceeded: true };
+    }
+  }
+
+  let job: GenerationJob;
+  try {
+    job = await enqueueToolJob({
+      clerkId: options.clerkId,
+      toolName: toolCall.name,
+      args: toolCall.args,
+      mediaType: options.mediaType,
+      label: options.label,
+      requester: options.requester,
+      onUpdate: emit ? (_job, event) => event && emit(event) : undefined,
+    });
+  } catch (error) {
+    if (options.requester) await refundGenerationQuota(options.requester);
+    throw error;
+  }
+  emit?.({ type: "job_queued", callId: job.id, jobId: job.id, name: toolCall.name, mediaType: job.mediaType });
+
+  if (options.detach) {
+    return { name: toolCall.name, mediaType: job.mediaType, jobId: job.id, pending: true };
+  }
+
+  const onAbort = () => {
+    cancelJob(job.id).catch((error) => console.warn(`[JobQueue] Failed to cancel job ${job.id}:`, error));
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const finished = await waitForJob(job.id);
+    return jobToToolResult(finished || job);
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+function jobToToolResult(job: GenerationJob): ChatToolResult {
+  if (job.result) {
+    return { ...job.result, jobId: job.id };
+  }
+  return {
+    name: job.toolName,
+    error: job.error || `Job ${job.status}`,
+    cancelled: job.status === "cancelled" || undefined,
+    jobId: job.id,
+  };
+}
+
+function drainQueue(): void {
+  while (runningCount < getConcurrency() && waiting.length > 0) {
+    const entry = waiting.shift()!;
+    runningCount++;
+    entry.start();
+  }
+}
+
+function notify(job: GenerationJob, event?: ChatStreamEvent): void {
+  for (const listener of listeners.get(job.id) || []) {
+    try {
+      listener(job, event);
+    } catch (error) {
+      console.warn(`[JobQueue] Listener for job ${job.id} failed:`, error);
+    }
+  }
+}
+
+async function runJob(queued: GenerationJob, signal: AbortSignal, requester?: string): Promise<GenerationJob> {
+  const store = getJobStore();
+  let job = queued;
+
+  try {
+    throwIfCancelled(signal);
+    job = (await store.update(job.id, { status: "running", startedAt: new Date().toISOString() })) || job;
+    notify(job);
+
+    const mcpClient = getMCPClient();
+    if (!mcpClient.isConnected()) {
+      await mcpClient.connect();
+    }
+    throwIfCancelled(signal);
+
+    const result = await executeToolCall(
+      mcpClient,
+      { name: job.toolName, args: job.args },
+      job.id,
+      (event) => {
+        if (event.type === "tool_progress") {
+          const progress = { message: event.message, progress: event.progress, total: event.total };
+          job = { ...job, progress };
+          store.update(job.id, { progress }).catch((error) =>
+            console.warn(`[JobQueue] Failed to record progress for job ${job.id}:`, error)
+          );
+        }
+        notify(job, event);
+      },
+      signal
+    );
+
+    if (!result.error && result.mediaUrl) {
+      result.itemId = await persistJobOutput(job, result);
+    }
+
+    job = (await store.update(job.id, {
+      status: result.cancelled ? "cancelled" : result.error ? "failed" : "succeeded",
+      result,
+      error: result.error,
+      progress: undefined,
+      finishedAt: new Date().toISOString(),
+    })) || job;
+  } catch (error) {
+    const cancelled = isCancelledError(error);
+    if (!cancelled) {
+      console.error(`[JobQueue] Job ${job.id} crashed:`, error);
+    }
+    const status = cancelled ? "cancelled" : "failed";
+    job = (await store
+      .update(job.id, {
+        status,
+        error: cancelled ? "Cancelled" : error instanceof Error ? error.message : String(error),
+        progress: undefined,
+        finishedAt: new Date().toISOString(),
+      })
+      .catch(() => null)) || { ...job, status };
+  } finally {
+    runningCount--;
+    drainQueue();
+  }
+
+  console.log(`[JobQueue] Job ${job.id} ${job.status}`);
+  if (requester && job.status !== "succeeded") {
+    await refundGenerationQuota(requester);
+  }
+  notify(job);
+  listeners.delete(job.id);
+  completions.delete(job.id);
+  controllers.delete(job.id);
+  return job;
+}
+
+// Save the output so it reaches the gallery even if the client is gone. The media
+// is mirrored first, so the result and the gallery point at storage, not at an
+// MCP link that expires (remoteUrl/imageUrl keep that link for follow-up tool calls).
+async function persistJobOutput(job: GenerationJob, result: ChatToolResult): Promise<string | undefined> {
+  const itemId = `job-${job.id}`;
+  const metadata = {
+    structuredPrompt: result.structuredPrompt || undefined,
+    jobId: job.id,
+    description: job.label,
+  };
+
+  result.mediaUrl = await mirrorJobMedia(job, result.mediaUrl!);
+  if (result.posterUrl) {
+    result.posterUrl = await mirrorJobMedia(job, result.posterUrl);
+  }
+  for (const [index, output] of (result.outputs || []).entries()) {
+    output.url = index === 0 ? result.mediaUrl : await mirrorJobMedia(job, output.url);
+    if (output.posterUrl) {
+      output.posterUrl = index === 0 ? result.posterUrl : await mirrorJobMedia(job, output.posterUrl);
+    }
+  }
+
+  try {
+    await saveGeneration(job.clerkId, {
+      id: itemId,
+      type: result.mediaType || job.mediaType,
+      url: result.mediaUrl!,
+      imageUrl: result.imageUrl || undefined,
+      posterUrl: result.posterUrl,
+      duration: result.duration,
+      metadata,
+    });
+
+    // Further outputs of the same call (the first one is mediaUrl)
+    for (const [index, output] of (result.outputs || []).entries()) {
+      if (index === 0) {
+        output.itemId = itemId;
+        continue;
+      }
+      output.itemId = `${itemId}-${index + 1}`;
+      await saveGeneration(job.clerkId, {
+        id: output.itemId,
+        type: output.type,
+        url: output.url,
+        imageUrl: output.remoteUrl,
+        posterUrl: output.posterUrl,
+        duration: output.duration,
+        metadata,
+      });
+    }
+    return itemId;
+  } catch (error) {
+    console.warn(`[JobQueue] Failed to save output of job ${job.id}:`, error);
+    return undefined;
+  }
+}
+
+// Stored asset URL, or the original URL when storing fails (the output still shows)
+async function mirrorJobMedia(job: GenerationJob, url: string): Promise<string> {
+  try {
+    return await mirrorMedia(url);
+  } catch (error) {
+    console.warn(`[JobQueue] Failed to store output of job ${job.id}:`, error instanceof Error ? error.message : error);
+    return url;
+  }
+}
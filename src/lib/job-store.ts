@@ -0,0 +1,164 @@
+/**
+ * Generation Job Store
+ *
+ * Persists job state so clients can look jobs up (and resume them) by id.
+ *
+ * Backends (JOB_STORE):
+ * - "memory" (default): process-local Map, finished jobs kept for a day
+ * - "mongo": GenerationJob collection, shared across instances
+ */
+
+import { hasEnv } from "./env-init";
+import { connectToDatabase } from "./mongodb";
+import GenerationJobModel from "@/models/GenerationJob";
+import { TERMINAL_JOB_STATUSES, type GenerationJob } from "@/types/jobs";
+
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_ACTIVE_JOBS_LISTED = 50;
+
+export type JobUpdate = Partial<Omit<GenerationJob, "id" | "clerkId" | "createdAt">>;
+
+export interface JobStore {
+  create(job: GenerationJob): Promise<void>;
+  get(id: string): Promise<GenerationJob | null>;
+  update(id: string, changes: JobUpdate): Promise<GenerationJob | null>;
+  listActive(clerkId: string): Promise<GenerationJob[]>;
+}
+
+class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, GenerationJob>();
+
+  async create(job: GenerationJob): Promise<void> {
+    this.evictFinished();
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, changes: JobUpdate): Promise<GenerationJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    return { ...updated };
+  }
+
+  async listActive(clerkId: string): Promise<GenerationJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.clerkId === clerkId && !TERMINAL_JOB_STATUSES.includes(job.status))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, MAX_ACTIVE_JOBS_LISTED)
+      .map((job) => ({ ...job }));
+  }
+
+  private evictFinished(): void {
+    const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+interface GenerationJobDocument extends Omit<GenerationJob, "id" | "clerkId" | "createdAt" | "updatedAt" | "startedAt" | "finishedAt"> {
+  jobId: string;
+  clerkId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+function toJob(doc: GenerationJobDocument): GenerationJob {
+  return {
+    id: doc.jobId,
+    clerkId: doc.clerkId,
+    status: doc.status,
+    toolName: doc.toolName,
+    args: doc.args || {},
+    mediaType: doc.mediaType,
+    label: doc.label || undefined,
+    progress: doc.progress || undefined,
+    result: doc.result || undefined,
+    error: doc.error || undefined,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+    startedAt: doc.startedAt?.toISOString(),
+    finishedAt: doc.finishedAt?.toISOString(),
+  };
+}
+
+class MongoJobStore implements JobStore {
+  async create(job: GenerationJob): Promise<void> {
+    await connectToDatabase();
+    await GenerationJobModel.create({
+      jobId: job.id,
+      clerkId: job.clerkId,
+      status: job.status,
+      toolName: job.toolName,
+      args: job.args,
+      mediaType: job.mediaType,
+      label: job.label,
+    });
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    await connectToDatabase();
+    const doc = (await GenerationJobModel.findOne({ jobId: id }).lean()) as unknown as GenerationJobDocument | null;
+    return doc ? toJob(doc) : null;
+  }
+
+  async update(id: string, changes: JobUpdate): Promise<GenerationJob | null> {
+    await connectToDatabase();
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ""> = {};
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) {
+        $unset[key] = "";
+      } else {
+        $set[key] = key === "startedAt" || key === "finishedAt" ? new Date(value as string) : value;
+      }
+    }
+
+    const doc = (await GenerationJobModel.findOneAndUpdate(
+      { jobId: id },
+      { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) },
+      { new: true, lean: true }
+    )) as unknown as GenerationJobDocument | null;
+    return doc ? toJob(doc) : null;
+  }
+
+  async listActive(clerkId: string): Promise<GenerationJob[]> {
+    await connectToDatabase();
+    const docs = (await GenerationJobModel.find({ clerkId, status: { $in: ["queued", "running"] } })
+      .sort({ createdAt: 1 })
+      .limit(MAX_ACTIVE_JOBS_LISTED)
+      .lean()) as unknown as GenerationJobDocument[];
+    return docs.map(toJob);
+  }
+}
+
+let storeInstance: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!storeInstance) {
+    const backend = hasEnv("JOB_STORE") ? process.env.JOB_STORE : "memory";
+
+    if (backend === "mongo") {
+      storeInstance = new MongoJobStore();
+    } else {
+      if (backend !== "memory") {
+        console.warn(`[JobStore] Unknown backend "${backend}", falling back to memory`);
+      }
+      storeInstance = new InMemoryJobStore();
+    }
+    console.log(`[JobStore] Using ${backend === "mongo" ? "mongo" : "memory"} backend`);
+  }
+  return storeInstance;
+}
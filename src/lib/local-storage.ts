@@ -0,0 +1,110 @@
+/**
+ * Local-disk StorageProvider
+ *
+ * Files live under STORAGE_LOCAL_DIR (default .storage in the project root),
+ * outside public/, and are served by /api/assets. Signed URLs point at that
+ * route with an expiry and an HMAC of key and expiry (STORAGE_SIGNING_SECRET).
+ * Use a persistent volume for the directory in production, or the s3 provider.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { access, mkdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { hasEnv } from "./env-init";
+import {
+  assetUrl,
+  contentTypeForKey,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  isStorageKey,
+  type StorageProvider,
+  type StoredObject,
+} from "./storage";
+
+let signingSecret: string | undefined;
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local" as const;
+  private readonly root: string;
+
+  constructor(root = hasEnv("STORAGE_LOCAL_DIR") ? process.env.STORAGE_LOCAL_DIR! : join(process.cwd(), ".storage")) {
+    this.root = root;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    const path = this.pathOf(key);
+    if (!(await this.exists(key))) {
+      await mkdir(dirname(path), { recursive: true });
+      // Write then rename, so a reader never sees a partial file
+      const temp = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+      await writeFile(temp, body);
+      await rename(temp, path);
+    }
+    return { key, contentType, size: body.length };
+  }
+
+  async get(key: string): Promise<{ body: Buffer; contentType: string } | null> {
+    try {
+      return { body: await readFile(this.pathOf(key)), contentType: contentTypeForKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.pathOf(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathOf(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${assetUrl(key)}?expires=${expires}&signature=${signAsset(key, expires)}`;
+  }
+
+  // Keys are validated, so a crafted key can't escape the storage directory
+  private pathOf(key: string): string {
+    if (!isStorageKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return join(this.root, ...key.split("/"));
+  }
+}
+
+/**
+ * Check the expiry and signature of a signed /api/assets URL
+ */
+export function verifyAssetSignature(key: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signAsset(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function signAsset(key: string, expires: number): string {
+  return createHmac("sha256", getSigningSecret()).update(`${key}:${expires}`).digest("hex");
+}
+
+function getSigningSecret(): string {
+  if (hasEnv("STORAGE_SIGNING_SECRET")) return process.env.STORAGE_SIGNING_SECRET!;
+
+  if (!signingSecret) {
+    // Signed URLs stop working when the server restarts
+    console.warn("[Storage] STORAGE_SIGNING_SECRET is not set; using a random secret for this process");
+    signingSecret = randomBytes(32).toString("hex");
+  }
+  return signingSecret;
+}
@@ -1,10 +1,14 @@
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { getEnv } from "./env-init"; // Explicit env loading for Windows compatibility
+import "./env-init"; // Explicit env loading for Windows compatibility
+import { validateOperationRegistry } from "./operations";
+import { ToolArgsValidationError, validateToolCall } from "./tool-args";
+import { MCPServerConnection, type MCPServerHealth } from "./mcp-connection";
+import type { RetryPolicy, ToolCallAttempt } from "./retry-policy";
+import { NAMESPACE_SEPARATOR, PRIMARY_SERVER_NAME, loadMCPServerConfigs, namespacedToolName } from "./mcp-servers";
 
 export interface MCPTool {
-  name: string;
+  name: string; // Namespaced for servers other than Bria (see lib/mcp-servers)
   description?: string;
+  server?: string; // Configured server the tool comes from
   inputSchema: {
     type: string;
     properties?: Record<string, any>;
@@ -12,200 +16,138 @@ export interface MCPTool {
   };
 }
 
+// Parsed into media/text/error by lib/mcp-result
 export interface MCPToolResult {
   content: Array<{
     type: string;
     text?: string;
     data?: string;
     mimeType?: string;
+    uri?: string; // resource_link
+    resource?: { uri?: string; mimeType?: string; text?: string; blob?: string }; // Embedded resource
   }>;
   isError?: boolean;
 }
 
-// Streamable HTTP Transport for MCP
-class StreamableHTTPTransport implements Transport {
-  private url: string;
-  private headers: Record<string, string>;
-  private oncloseCallback?: () => void;
-  private onerrorCallback?: (error: Error) => void;
-
-  constructor(url: string, headers: Record<string, string> = {}) {
-    this.url = url;
-    this.headers = headers;
-  }
-
-  async start(): Promise<void> {
-    // HTTP transport doesn't need a persistent connection
-    console.log("StreamableHTTP transport initialized");
-  }
-
-  async send(message: any): Promise<void> {
-    try {
-      const response = await fetch(this.url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...this.headers,
-        },
-        body: JSON.stringify(message),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      // Handle streaming response (SSE format or JSONL)
-      const text = await response.text();
-      console.log("MCP Response (first 200 chars):", text.substring(0, 200));
-
-      // Skip empty responses
-      if (!text || text.trim() === "") {
-        console.log("Empty response, skipping");
-        return;
-      }
-
-      // Parse SSE format: "data: {...}\n\n"
-      let data: any = null;
-      
-      if (text.startsWith("data: ")) {
-        // SSE format - extract JSON from "data: {...}" lines
-        const lines = text.split("\n");
-        const dataLines = lines
-          .filter(line => line.startsWith("data: "))
-          .map(line => line.substring(6).trim()) // Remove "data: " prefix
-          .filter(line => line && line !== ""); // Filter empty lines
-        
-        if (dataLines.length > 0) {
-          // Parse all data lines and collect them
-          for (const jsonStr of dataLines) {
-            try {
-              const parsed = JSON.parse(jsonStr);
-              data = parsed; // Use the last valid parsed data
-              console.log("Parsed SSE data:", parsed);
-            } catch (e) {
-              console.warn("Failed to parse SSE line:", jsonStr.substring(0, 100), e);
-            }
-          }
-        }
-      } else {
-        // Regular JSON response
-        try {
-          data = JSON.parse(text);
-          console.log("Parsed JSON data:", data);
-        } catch (e) {
-          console.warn("Failed to parse JSON response:", text.substring(0, 100), e);
-        }
-      }
-      
-      // Trigger message handler if it exists
-      if (this.onmessage && data) {
-        this.onmessage(data);
-      }
-    } catch (error) {
-      console.error("Error sending MCP message:", error);
-      if (this.onerrorCallback) {
-        this.onerrorCallback(error as Error);
-      }
-      throw error;
-    }
-  }
-
-  async close(): Promise<void> {
-    if (this.oncloseCallback) {
-      this.oncloseCallback();
-    }
-  }
-
-  // Message handler
-  onmessage?: (message: any) => void;
+export interface ToolProgressUpdate {
+  message: string;
+  progress?: number;
+  total?: number;
+}
 
-  set onclose(callback: () => void) {
-    this.oncloseCallback = callback;
-  }
+export interface CallToolOptions {
+  retryPolicy?: Partial<RetryPolicy>; // Overrides the tool's policy (see lib/retry-policy)
+  onProgress?: (update: ToolProgressUpdate) => void; // Server progress notifications and retry notices
+  onAttempt?: (attempt: ToolCallAttempt) => void; // After each attempt, failed or not
+  signal?: AbortSignal; // Aborts the current attempt and any pending retry
+}
 
-  set onerror(callback: (error: Error) => void) {
-    this.onerrorCallback = callback;
-  }
+interface ToolRoute {
+  connection: MCPServerConnection;
+  toolName: string; // Name on its own server
 }
 
+/**
+ * All configured MCP servers behind one tool registry. Bria's tools keep their
+ * names; other servers' tools are "<server>__<tool>", and calls are routed to
+ * the server the name belongs to.
+ */
 class BriaMCPClient {
-  private client: Client | null = null;
-  private transport: StreamableHTTPTransport | null = null;
+  private connections: MCPServerConnection[] | null = null;
   private tools: MCPTool[] = [];
-  private connected: boolean = false;
+  private routes = new Map<string, ToolRoute>();
+  private operationIssues: string[] = [];
 
+  private getConnections(): MCPServerConnection[] {
+    if (!this.connections) {
+      this.connections = loadMCPServerConfigs().map(
+        (config) => new MCPServerConnection(config, () => this.rebuildRegistry())
+      );
+    }
+    return this.connections;
+  }
+
+  /**
+   * Connect every server that isn't connected yet. Only the primary (Bria)
+   * server is required; others that fail are skipped and reconnect in the background.
+   */
   async connect(): Promise<void> {
-    if (this.connected && this.client) {
+    const pending = this.getConnections().filter((connection) => !connection.isConnected());
+    if (pending.length === 0) {
       console.log("MCP client already connected");
       return;
     }
 
-    // Get environment variables (env-init automatically loads .env.local)
-    const mcpUrl = getEnv("BRIA_MCP_URL");
-    const apiToken = getEnv("BRIA_MCP_API_TOKEN");
+    const results = await Promise.allSettled(pending.map((connection) => connection.connect()));
+    this.rebuildRegistry();
 
-    console.log("MCP Connect attempt:", {
-      hasUrl: !!mcpUrl,
-      hasToken: !!apiToken,
-      url: mcpUrl,
-      tokenLength: apiToken?.length,
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") return;
+      const { config } = pending[index];
+      if (config.primary) throw result.reason;
+      console.warn(`[MCP] Server "${config.name}" unavailable, its tools are skipped:`, result.reason);
     });
+  }
 
-    if (!mcpUrl || !apiToken) {
-      const error = new Error(`MCP URL or API token not configured. URL: ${!!mcpUrl}, Token: ${!!apiToken}`);
-      console.error("MCP Configuration Error:", error);
-      throw error;
+  /**
+   * Rediscover the tools of every connected server
+   */
+  async discoverTools(): Promise<MCPTool[]> {
+    const connected = this.getConnections().filter((connection) => connection.isConnected());
+    if (connected.length === 0) {
+      throw new Error("MCP client not connected");
     }
 
-    try {
-      // Create Streamable HTTP transport for MCP communication
-      // Bria MCP requires api_token header (not Authorization Bearer)
-      this.transport = new StreamableHTTPTransport(mcpUrl, {
-        "api_token": apiToken,
-      });
-
-      this.client = new Client(
-        {
-          name: "bria-agentic-interface",
-          version: "1.0.0",
-        },
-        {
-          capabilities: {
-            tools: {},
-          },
-        }
-      );
-
-      await this.client.connect(this.transport);
-      this.connected = true;
-
-      // Discover available tools
-      await this.discoverTools();
-    } catch (error) {
-      console.error("Failed to connect to MCP server:", error);
-      throw error;
-    }
+    await Promise.all(connected.map((connection) => connection.discoverTools()));
+    this.rebuildRegistry();
+    return this.tools;
   }
 
-  async discoverTools(): Promise<MCPTool[]> {
-    if (!this.client || !this.connected) {
-      throw new Error("MCP client not connected");
+  // Merge the servers' tools under their namespaced names. Servers that are
+  // reconnecting keep their last known tools; calls reconnect on demand.
+  private rebuildRegistry(): void {
+    const tools: MCPTool[] = [];
+    const routes = new Map<string, ToolRoute>();
+
+    for (const connection of this.connections || []) {
+      for (const tool of connection.getTools()) {
+        const name = namespacedToolName(connection.config, tool.name);
+        tools.push({ ...tool, name, server: connection.config.name });
+        routes.set(name, { connection, toolName: tool.name });
+      }
     }
 
-    try {
-      const response = await this.client.listTools();
-      this.tools = response.tools as MCPTool[];
-      return this.tools;
-    } catch (error) {
-      console.error("Failed to discover MCP tools:", error);
-      throw error;
+    this.tools = tools;
+    this.routes = routes;
+
+    // The operation registry must fit the tools the servers actually have (logged when that changes)
+    const issues = validateOperationRegistry(this.tools);
+    if (issues.join("\n") !== this.operationIssues.join("\n")) {
+      for (const issue of issues) {
+        console.warn(`[Operations] ${issue}`);
+      }
     }
+    this.operationIssues = issues;
   }
 
   getTools(): MCPTool[] {
     return this.tools;
   }
 
+  /**
+   * Mismatches between the operation registry and the discovered tools
+   */
+  getOperationIssues(): string[] {
+    return this.operationIssues;
+  }
+
+  /**
+   * Connection status of each configured server
+   */
+  getServerHealth(): MCPServerHealth[] {
+    return (this.connections || []).map((connection) => connection.getHealth());
+  }
+
   /**
    * Convert MCP tools to Gemini FunctionDeclaration format
    * This enables automatic tool discovery without hardcoded mappings
@@ -213,7 +155,7 @@ class BriaMCPClient {
   toGeminiFunctionDeclarations(): any[] {
     return this.tools.map(tool => ({
       name: tool.name,
-      description: tool.description || `Tool: ${tool.name}`,
+      description: describeTool(tool),
       parameters: tool.inputSchema, // MCP schema is JSON Schema compatible with Gemini
     }));
   }
@@ -233,7 +175,7 @@ class BriaMCPClient {
         : "none";
       const required = tool.inputSchema.required?.join(", ") || "none";
       
-      return `- ${tool.name}: ${tool.description || "No description"}
+      return `- ${tool.name}: ${describeTool(tool)}
   Parameters: ${params}
   Required: ${required}`;
     }).join("\n\n");
@@ -242,94 +184,75 @@ class BriaMCPClient {
   }
 
   /**
-   * Call an MCP tool with automatic retry logic for transient failures
-   * @param name Tool name
+   * Call an MCP tool on the server its name belongs to, with automatic retry logic for transient failures
+   * @param name Tool name (namespaced for servers other than Bria)
    * @param args Tool arguments
-   * @param maxRetries Maximum number of retry attempts (default: 2)
-   * @param retryDelay Initial retry delay in ms (default: 1000)
+   * @param options Retry policy overrides, progress and attempt callbacks, abort signal
    * @returns Tool result
+   * @throws CancelledError when the signal aborts
+   * @throws ToolArgsValidationError when the tool is unknown or the args don't match its inputSchema (nothing is sent)
    */
   async callTool(
     name: string, 
     args: Record<string, any>,
-    maxRetries: number = 2,
-    retryDelay: number = 1000
+    options: CallToolOptions = {}
   ): Promise<MCPToolResult> {
-    if (!this.client || !this.connected) {
+    // Servers that dropped their connection reconnect on demand (or fail fast while their circuit is open)
+    if (!this.connections) {
       throw new Error("MCP client not connected");
     }
 
-    let lastError: any;
-    
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          const delay = retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
-          console.log(`[MCP] Retry attempt ${attempt}/${maxRetries} after ${delay}ms delay...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-        
-        console.log(`[MCP] Calling tool ${name} (attempt ${attempt + 1}/${maxRetries + 1}) with args:`, JSON.stringify(args, null, 2));
-        
-        const response = await this.client.callTool({
-          name,
-          arguments: args,
-        });
-
-        console.log(`[MCP] Tool ${name} SUCCESS on attempt ${attempt + 1}`);
-        console.log(`[MCP] Response:`, JSON.stringify(response, null, 2).substring(0, 500));
-        return response as MCPToolResult;
-        
-      } catch (error: any) {
-        lastError = error;
-        
-        console.error(`[MCP] Tool ${name} failed on attempt ${attempt + 1}/${maxRetries + 1}:`, {
-          error: error?.message || error,
-          code: error?.code,
-          data: error?.data,
-          stack: error?.stack?.substring(0, 500),
-          args: JSON.stringify(args, null, 2)
-        });
-        
-        // Don't retry on certain error codes (e.g., validation errors)
-        if (error?.code && [400, 401, 403, 404].includes(error.code)) {
-          console.log(`[MCP] Non-retryable error code ${error.code}, aborting retries`);
-          break;
-        }
-        
-        // If this was the last attempt, we'll throw the error below
-        if (attempt === maxRetries) {
-          console.error(`[MCP] All retry attempts exhausted for tool ${name}`);
-        }
-      }
+    const route = this.resolveTool(name);
+    if (!route) {
+      const validation = validateToolCall(this.tools, name, args);
+      throw validation.ok
+        ? new Error(`MCP tool '${name}' is not available`)
+        : new ToolArgsValidationError(name, validation.issues);
     }
-    
-    // If we get here, all attempts failed
-    const enhancedError = new Error(
-      `MCP tool '${name}' failed after ${maxRetries + 1} attempts: ${lastError?.message || lastError}. Args: ${JSON.stringify(args)}`
-    );
-    (enhancedError as any).originalError = lastError;
-    (enhancedError as any).toolName = name;
-    (enhancedError as any).args = args;
-    (enhancedError as any).attempts = maxRetries + 1;
-    
-    throw enhancedError;
+
+    return route.connection.callTool(route.toolName, args, options);
   }
 
-  async disconnect(): Promise<void> {
-    if (this.client && this.connected) {
-      await this.client.close();
-      this.connected = false;
-      this.client = null;
-      this.transport = null;
+  // Registry lookup; "bria__<tool>" is accepted for the primary server's plain names
+  private resolveTool(name: string): ToolRoute | undefined {
+    const route = this.routes.get(name);
+    if (route) return route;
+
+    const separator = name.indexOf(NAMESPACE_SEPARATOR);
+    if (separator === -1) return undefined;
+
+    const serverName = name.slice(0, separator);
+    const connection = this.connections?.find((candidate) => candidate.config.name === serverName);
+    if (connection && !connection.isConnected()) {
+      throw new Error(`MCP server "${serverName}" is unavailable`);
     }
+    return connection?.config.primary ? this.routes.get(name.slice(separator + NAMESPACE_SEPARATOR.length)) : undefined;
   }
 
+  async disconnect(): Promise<void> {
+    await Promise.all((this.connections || []).map((connection) => connection.disconnect()));
+    this.tools = [];
+    this.routes = new Map();
+  }
+
+  /**
+   * True when the primary server is connected and every other server is either
+   * connected or being reconnected in the background
+   */
   isConnected(): boolean {
-    return this.connected;
+    if (!this.connections) return false;
+    return this.connections.every(
+      (connection) => connection.isConnected() || (!connection.config.primary && connection.hasFailed())
+    );
   }
 }
 
+// Tools from other servers say where they come from
+function describeTool(tool: MCPTool): string {
+  const description = tool.description || `Tool: ${tool.name}`;
+  return tool.server && tool.server !== PRIMARY_SERVER_NAME ? `[${tool.server} server] ${description}` : description;
+}
+
 // Singleton instance
 let mcpClientInstance: BriaMCPClient | null = null;
 
@@ -341,4 +264,5 @@ export function getMCPClient(): BriaMCPClient {
 }
 
 export { BriaMCPClient };
+export type { MCPServerHealth };
 
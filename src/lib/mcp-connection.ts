@@ -0,0 +1,476 @@
+/**
+ * Connection to a single MCP server
+ *
+ * Owns the SDK client and transport for one configured server, its discovered
+ * tools (under the server's own names) and retrying tool calls. The MCP client
+ * (lib/mcp-client) merges several of these into one namespaced registry.
+ *
+ * While connected, the server is pinged every MCP_PING_INTERVAL_MS and its tools
+ * are rediscovered after MCP_TOOLS_TTL_MS or on notifications/tools/list_changed.
+ * A failed ping or a connection-level call failure drops the session and
+ * reconnects in the background with exponential backoff. Repeated failures open
+ * a circuit breaker, and calls then fail fast with CircuitOpenError.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { hasEnv } from "./env-init";
+import { CancelledError, isCancelledError, sleep } from "./cancellation";
+import { CircuitBreaker, type CircuitSnapshot } from "./circuit-breaker";
+import { ToolArgsValidationError, formatIssue, validateToolCall } from "./tool-args";
+import { StreamableHTTPTransport, type MCPHTTPError } from "./mcp-transport";
+import { buildAuthHeaders, namespacedToolName, type MCPServerConfig } from "./mcp-servers";
+import {
+  classifyError,
+  getRetryPolicy,
+  retryDelayMs,
+  type ClassifiedError,
+  type ToolCallAttempt,
+} from "./retry-policy";
+import type { CallToolOptions, MCPTool, MCPToolResult } from "./mcp-client";
+
+export type MCPServerStatus = "connected" | "disconnected" | "error";
+
+export interface MCPServerHealth {
+  name: string;
+  url: string;
+  primary: boolean;
+  status: MCPServerStatus;
+  toolCount: number;
+  connectedAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastPingAt?: string;
+  pingLatencyMs?: number;
+  toolsRefreshedAt?: string;
+  nextReconnectAt?: string;
+  circuit: CircuitSnapshot;
+}
+
+const PING_TIMEOUT_MS = 10000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+
+function numberFromEnv(key: string, fallback: number): number {
+  const value = hasEnv(key) ? Number(process.env[key]) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Failures that say the connection (not the tool) is broken: network errors,
+ * dropped streams, 5xx and rejected credentials
+ */
+function isConnectionFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === "MCPHTTPError") {
+    const { status } = error as MCPHTTPError;
+    return status >= 500 || status === 401 || status === 403;
+  }
+  return error instanceof TypeError || /^MCP (stream|transport)/.test(error.message);
+}
+
+interface ToolCallError {
+  message?: string;
+  code?: unknown;
+  data?: unknown;
+  stack?: string;
+}
+
+export class MCPServerConnection {
+  private client: Client | null = null;
+  private tools: MCPTool[] = []; // Kept while reconnecting, so the registry doesn't flicker
+  private connected = false;
+  private connecting: Promise<void> | null = null;
+  private connectedAt?: string;
+  private lastError?: string;
+  private lastErrorAt?: number;
+  private lastPingAt?: number;
+  private pingLatencyMs?: number;
+  private toolsRefreshedAt?: number;
+  private maintenanceTimer: ReturnType<typeof setInterval> | null = null;
+  private maintenanceRunning = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private nextReconnectAt?: number;
+  private closed = false;
+  private readonly breaker: CircuitBreaker;
+  private readonly pingIntervalMs = numberFromEnv("MCP_PING_INTERVAL_MS", 30000);
+  private readonly toolsTtlMs = numberFromEnv("MCP_TOOLS_TTL_MS", 5 * 60 * 1000);
+
+  /**
+   * @param onChange Called when the tools or the connection status change
+   */
+  constructor(readonly config: MCPServerConfig, private readonly onChange?: () => void) {
+    this.breaker = new CircuitBreaker(`MCP server "${config.name}"`, {
+      failureThreshold: numberFromEnv("MCP_CIRCUIT_FAILURE_THRESHOLD", 5),
+      resetTimeoutMs: numberFromEnv("MCP_CIRCUIT_RESET_MS", 30000),
+    });
+  }
+
+  /**
+   * Initialize a session and discover the server's tools. Concurrent callers share one attempt.
+   * @throws CircuitOpenError while the circuit is open
+   */
+  async connect(): Promise<void> {
+    if (this.connected && this.client) return;
+    if (!this.connecting) {
+      this.closed = false;
+      this.breaker.assertCanRequest();
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    const { name, url } = this.config;
+    console.log(`[MCP] Connecting to server "${name}" at ${url}`);
+
+    try {
+      const transport = new StreamableHTTPTransport(url, { headers: buildAuthHeaders(this.config) });
+      const client = new Client(
+        {
+          name: "bria-agentic-interface",
+          version: "1.0.0",
+        },
+        {
+          capabilities: {
+            tools: {},
+          },
+        }
+      );
+
+      // The server announces tool changes; rediscover right away
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        await this.refreshTools("tools/list_changed");
+      });
+
+      await client.connect(transport);
+      this.client = client;
+      this.connected = true;
+
+      await this.discoverTools();
+      this.connectedAt = new Date().toISOString();
+      this.lastError = undefined;
+      this.lastErrorAt = undefined;
+      this.reconnectAttempts = 0;
+      this.breaker.recordSuccess();
+      this.startMaintenance();
+      console.log(`[MCP] Server "${name}" connected with ${this.tools.length} tools`);
+      this.onChange?.();
+    } catch (error) {
+      console.error(`[MCP] Failed to connect to server "${name}":`, error);
+      this.recordError(error);
+      this.breaker.recordFailure(error);
+      this.connected = false;
+      this.client?.close().catch(() => undefined);
+      this.client = null;
+      this.scheduleReconnect();
+      throw error;
+    }
+  }
+
+  async discoverTools(): Promise<MCPTool[]> {
+    if (!this.client || !this.connected) {
+      throw new Error(`MCP server "${this.config.name}" not connected`);
+    }
+
+    const response = await this.client.listTools();
+    this.tools = response.tools as MCPTool[];
+    this.toolsRefreshedAt = Date.now();
+    return this.tools;
+  }
+
+  /**
+   * Rediscover tools and let the registry know. Failures are logged, not thrown.
+   */
+  private async refreshTools(reason: string): Promise<void> {
+    if (!this.connected) return;
+    try {
+      const before = this.tools.map((tool) => tool.name).join(",");
+      await this.discoverTools();
+      const changed = before !== this.tools.map((tool) => tool.name).join(",");
+      console.log(`[MCP] Refreshed tools of "${this.config.name}" (${reason})${changed ? ": tool list changed" : ""}`);
+      this.onChange?.();
+    } catch (error) {
+      console.warn(`[MCP] Tool refresh of "${this.config.name}" failed:`, error instanceof Error ? error.message : error);
+      if (isConnectionFailure(error)) this.markDown(error);
+    }
+  }
+
+  getTools(): MCPTool[] {
+    return this.tools;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * True once connecting or the connection has failed (the server is then reconnected in the background)
+   */
+  hasFailed(): boolean {
+    return this.lastErrorAt !== undefined;
+  }
+
+  getHealth(): MCPServerHealth {
+    return {
+      name: this.config.name,
+      url: this.config.url,
+      primary: !!this.config.primary,
+      status: this.connected ? "connected" : this.lastError ? "error" : "disconnected",
+      toolCount: this.tools.length,
+      connectedAt: this.connectedAt,
+      lastError: this.lastError,
+      lastErrorAt: toISO(this.lastErrorAt),
+      lastPingAt: toISO(this.lastPingAt),
+      pingLatencyMs: this.pingLatencyMs,
+      toolsRefreshedAt: toISO(this.toolsRefreshedAt),
+      nextReconnectAt: toISO(this.nextReconnectAt),
+      circuit: this.breaker.snapshot(),
+    };
+  }
+
+  /**
+   * Call one of this server's tools (by its own name), retrying transient failures
+   * as the tool's retry policy (lib/retry-policy) allows. Reconnects first when
+   * the session was dropped.
+   * @throws CancelledError when the signal aborts
+   * @throws ToolArgsValidationError when the args don't match the tool's inputSchema (nothing is sent)
+   * @throws CircuitOpenError when the server keeps failing
+   */
+  async callTool(name: string, args: Record<string, unknown>, options: CallToolOptions = {}): Promise<MCPToolResult> {
+    const { onProgress, onAttempt, signal } = options;
+    const policy = getRetryPolicy(namespacedToolName(this.config, name), options.retryPolicy);
+    const maxAttempts = policy.maxRetries + 1;
+
+    // Coerce and check args against the tool's schema; a bad call fails here, not after a round trip
+    const validation = validateToolCall(this.tools, name, args);
+    if (!validation.ok) {
+      console.warn(`[MCP] Rejected ${name} call: ${validation.issues.map(formatIssue).join("; ")}`);
+      throw new ToolArgsValidationError(name, validation.issues);
+    }
+    args = validation.args;
+
+    const attempts: ToolCallAttempt[] = [];
+    const recordAttempt = (attempt: ToolCallAttempt) => {
+      attempts.push(attempt);
+      onAttempt?.(attempt);
+    };
+    let lastError: ToolCallError | undefined;
+    let lastClassified: ClassifiedError | undefined;
+    let nextDelay = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let called = false;
+      let started = Date.now();
+      try {
+        if (attempt > 1) {
+          console.log(`[MCP] Retry attempt ${attempt - 1}/${policy.maxRetries} after ${nextDelay}ms delay...`);
+          onProgress?.({ message: `Retrying ${name} (attempt ${attempt}/${maxAttempts})` });
+          await sleep(nextDelay, signal);
+          started = Date.now();
+        }
+
+        if (signal?.aborted) {
+          throw new CancelledError();
+        }
+
+        // Fails fast (CircuitOpenError) while the circuit is open
+        await this.connect();
+
+        console.log(`[MCP] Calling tool ${name} on "${this.config.name}" (attempt ${attempt}/${maxAttempts}) with args:`, JSON.stringify(args, null, 2));
+
+        called = true;
+        const response = await this.client!.callTool(
+          {
+            name,
+            arguments: args,
+          },
+          undefined,
+          {
+            signal, // The SDK also sends notifications/cancelled to the server
+            timeout: policy.timeoutMs,
+            resetTimeoutOnProgress: true,
+            maxTotalTimeout: policy.maxTotalTimeoutMs,
+            onprogress: onProgress
+              ? ({ progress, total, message }) =>
+                  onProgress({ message: message || `Running ${name}`, progress, total })
+              : undefined,
+          }
+        );
+
+        this.breaker.recordSuccess();
+        recordAttempt({ attempt, startedAt: new Date(started).toISOString(), durationMs: Date.now() - started });
+        console.log(`[MCP] Tool ${name} SUCCESS on attempt ${attempt}`);
+        console.log(`[MCP] Response:`, JSON.stringify(response, null, 2).substring(0, 500));
+        return response as MCPToolResult;
+      } catch (caught) {
+        if (signal?.aborted || isCancelledError(caught)) {
+          console.log(`[MCP] Tool ${name} cancelled`);
+          throw new CancelledError(`MCP tool '${name}' was cancelled`);
+        }
+
+        const error = caught as ToolCallError;
+        const classified = classifyError(caught, policy);
+        lastError = error;
+        lastClassified = classified;
+
+        if (called && classified.errorClass === "session_expired") {
+          // The server forgot our session: the next attempt starts a new one
+          console.warn(`[MCP] Session expired, reconnecting before retrying ${name}`);
+          this.markDown(caught, false);
+        } else if (called && isConnectionFailure(caught)) {
+          this.breaker.recordFailure(caught);
+          this.markDown(caught);
+        }
+
+        // Once the circuit opens, further attempts would only fail fast
+        const retrying = attempt < maxAttempts && classified.retryable && this.breaker.getState() !== "open";
+        nextDelay = retrying ? retryDelayMs(policy, attempt, classified) : 0;
+        recordAttempt({
+          attempt,
+          startedAt: new Date(started).toISOString(),
+          durationMs: Date.now() - started,
+          error: error?.message || String(error),
+          errorClass: classified.errorClass,
+          retryInMs: retrying ? nextDelay : undefined,
+        });
+
+        console.error(`[MCP] Tool ${name} failed on attempt ${attempt}/${maxAttempts}:`, {
+          error: error?.message || error,
+          errorClass: classified.errorClass,
+          status: classified.status,
+          code: error?.code,
+          data: error?.data,
+          retryAfterMs: classified.retryAfterMs,
+          stack: error?.stack?.substring(0, 500),
+          args: JSON.stringify(args, null, 2),
+        });
+
+        if (!retrying) {
+          // connect() failed (and recorded it) or the circuit is open: surface that error as is
+          if (!called) throw caught;
+          console.log(`[MCP] Not retrying ${name}: ${classified.retryable ? "attempts exhausted" : `${classified.errorClass} error`}`);
+          break;
+        }
+      }
+    }
+
+    // If we get here, every attempt failed or the failure wasn't retryable.
+    // Server health only tracks connection failures (markDown), not tool errors.
+    const enhancedError = new Error(
+      `MCP tool '${name}' failed after ${attempts.length} attempt${attempts.length === 1 ? "" : "s"}: ${lastError?.message || lastError}. Args: ${JSON.stringify(args)}`
+    );
+    Object.assign(enhancedError, {
+      originalError: lastError,
+      code: lastError?.code,
+      errorClass: lastClassified?.errorClass,
+      toolName: name,
+      args,
+      attempts,
+    });
+
+    throw enhancedError;
+  }
+
+  async disconnect(): Promise<void> {
+    this.closed = true;
+    this.stopMaintenance();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.nextReconnectAt = undefined;
+
+    if (this.client && this.connected) {
+      await this.client.close();
+    }
+    this.connected = false;
+    this.client = null;
+  }
+
+  // --- Health ---
+
+  /**
+   * Drop a broken session (without waiting for the old one to be deleted) and
+   * reconnect in the background
+   */
+  private markDown(error: unknown, reconnectInBackground = true): void {
+    if (!this.connected) return;
+    console.warn(`[MCP] Server "${this.config.name}" connection lost:`, error instanceof Error ? error.message : error);
+
+    const previous = this.client;
+    this.connected = false;
+    this.client = null;
+    previous?.close().catch(() => undefined);
+    this.stopMaintenance();
+    this.recordError(error);
+    this.onChange?.();
+    if (reconnectInBackground) this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+
+    // Exponential backoff with +-20% jitter so several servers/processes don't retry in step
+    const base = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    const delay = Math.round(base * (0.8 + Math.random() * 0.4));
+    this.reconnectAttempts++;
+    this.nextReconnectAt = Date.now() + delay;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.nextReconnectAt = undefined;
+      if (this.connected || this.closed) return;
+      console.log(`[MCP] Reconnecting to "${this.config.name}" (attempt ${this.reconnectAttempts})`);
+      this.connect().catch(() => {
+        // open() schedules the next attempt; an open circuit doesn't reach open()
+        this.scheduleReconnect();
+      });
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+
+  private startMaintenance(): void {
+    this.stopMaintenance();
+    if (this.pingIntervalMs <= 0) return;
+    this.maintenanceTimer = setInterval(() => void this.maintain(), this.pingIntervalMs);
+    this.maintenanceTimer.unref?.();
+  }
+
+  private stopMaintenance(): void {
+    if (this.maintenanceTimer) clearInterval(this.maintenanceTimer);
+    this.maintenanceTimer = null;
+  }
+
+  // Ping, then rediscover tools once the TTL has passed
+  private async maintain(): Promise<void> {
+    if (this.maintenanceRunning || !this.connected || !this.client) return;
+    this.maintenanceRunning = true;
+
+    try {
+      const started = Date.now();
+      await this.client.ping({ timeout: PING_TIMEOUT_MS });
+      this.lastPingAt = Date.now();
+      this.pingLatencyMs = this.lastPingAt - started;
+
+      if (this.toolsTtlMs > 0 && Date.now() - (this.toolsRefreshedAt ?? 0) >= this.toolsTtlMs) {
+        await this.refreshTools("TTL expired");
+      }
+    } catch (error) {
+      this.breaker.recordFailure(error);
+      this.markDown(error);
+    } finally {
+      this.maintenanceRunning = false;
+    }
+  }
+
+  private recordError(error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String((error as ToolCallError)?.message ?? error);
+    this.lastErrorAt = Date.now();
+  }
+}
+
+function toISO(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
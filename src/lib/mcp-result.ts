@@ -0,0 +1,314 @@
+/**
+ * MCP tool result parsing
+ *
+ * Turns the content array of a tools/call result into a typed MediaResult:
+ * a single image or video, several outputs, text only, or an error. Used by
+ * the server (tool execution, jobs) and the client (direct /api/mcp-tools calls),
+ * so it must stay free of server-only imports.
+ *
+ * Media can arrive as inline image/video content (base64), embedded resources
+ * (blob or URI), resource links, or URLs in text ("for full image Preview use: ...",
+ * or JSON with image_url/video_url/result_url). Bria returns an inline preview
+ * plus a text line with the full-size URL; those are paired into one output.
+ * Videos (mp4, webm, mov) carry a poster frame when the result has one: JSON
+ * poster_url/thumbnail_url next to the video, or an inline image with no URL of
+ * its own; and their duration when the JSON reports it.
+ */
+
+export type MediaKind = "image" | "video";
+
+export interface MediaOutput {
+  type: MediaKind;
+  url: string; // Displayable: the remote URL when known, otherwise a data URL
+  remoteUrl?: string; // MCP-hosted URL, reusable as input to later tool calls
+  mimeType?: string;
+  posterUrl?: string; // Video: still frame shown before it plays
+  duration?: number; // Video: length in seconds, when the tool reports it
+  itemId?: string; // Gallery item id once saved server-side
+}
+
+export type StructuredPrompt = Record<string, unknown>;
+
+export type MediaResult =
+  | { kind: "image"; output: MediaOutput; structuredPrompt: StructuredPrompt | null; text: string }
+  | { kind: "video"; output: MediaOutput; structuredPrompt: StructuredPrompt | null; text: string }
+  | { kind: "multiple"; outputs: MediaOutput[]; structuredPrompt: StructuredPrompt | null; text: string }
+  | { kind: "text"; structuredPrompt: StructuredPrompt | null; text: string }
+  | { kind: "error"; message: string };
+
+// Content items as defined by the MCP spec (loosely typed: servers vary)
+interface ContentItem {
+  type?: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri?: string; mimeType?: string; text?: string; blob?: string };
+}
+
+// Media found in the content before inline previews and remote URLs are paired
+interface Candidate {
+  type: MediaKind;
+  dataUrl?: string;
+  remoteUrl?: string;
+  mimeType?: string;
+  posterUrl?: string;
+  duration?: number;
+}
+
+const PREVIEW_URL_PATTERN = /for full (image |video )?preview use:\s*(https?:\/\/\S+)/gi;
+const VIDEO_EXTENSION = /\.(mp4|webm|mov|m4v)(\?|#|$)/i;
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+};
+
+// Keys whose URLs are outputs; null = infer from the URL ("url" only counts with a media extension)
+const JSON_URL_KEYS: Array<[string, MediaKind | null]> = [
+  ["image_url", "image"],
+  ["video_url", "video"],
+  ["result_url", null],
+  ["url", null],
+];
+
+// Next to a video in the same JSON object
+const POSTER_KEYS = ["poster_url", "thumbnail_url", "poster", "thumbnail", "cover_url"];
+const DURATION_KEYS: Array<[string, number]> = [
+  ["duration", 1],
+  ["duration_seconds", 1],
+  ["duration_sec", 1],
+  ["duration_ms", 0.001],
+];
+
+/**
+ * Parse a tools/call result. Never throws; anything unrecognizable is text.
+ */
+export function parseMCPResult(result: unknown): MediaResult {
+  const raw = (result && typeof result === "object" ? result : {}) as { content?: unknown; isError?: boolean };
+  const content = (Array.isArray(raw.content) ? raw.content : []) as ContentItem[];
+
+  const texts: string[] = [];
+  const inline: Candidate[] = [];
+  const remote: Candidate[] = [];
+  let structuredPrompt: StructuredPrompt | null = null;
+
+  for (const item of content) {
+    if (!item || typeof item !== "object") continue;
+
+    switch (item.type) {
+      case "text": {
+        if (!item.text) break;
+        texts.push(item.text);
+        const parsed = parseText(item.text);
+        structuredPrompt = structuredPrompt || parsed.structuredPrompt;
+        remote.push(...parsed.urls);
+        break;
+      }
+      case "resource": {
+        const resource = item.resource || {};
+        const type = mediaKindOf(resource.mimeType, resource.uri);
+        const remoteUrl = isRemoteUrl(resource.uri) ? resource.uri : undefined;
+        if (type && resource.blob) {
+          inline.push({ type, dataUrl: toDataUrl(resource.blob, resource.mimeType, type), remoteUrl, mimeType: resource.mimeType });
+        } else if (type && remoteUrl) {
+          remote.push({ type, remoteUrl, mimeType: resource.mimeType });
+        } else if (resource.text) {
+          texts.push(resource.text);
+          const parsed = parseText(resource.text);
+          structuredPrompt = structuredPrompt || parsed.structuredPrompt;
+          remote.push(...parsed.urls);
+        }
+        break;
+      }
+      case "resource_link": {
+        const type = mediaKindOf(item.mimeType, item.uri);
+        if (type && isRemoteUrl(item.uri)) {
+          remote.push({ type, remoteUrl: item.uri, mimeType: item.mimeType });
+        }
+        break;
+      }
+      default: {
+        // "image" / "video", or any item that carries media by MIME type
+        const type = item.type === "image" || item.type === "video" ? item.type : mediaKindOf(item.mimeType);
+        const data = item.data || (type ? item.text : undefined);
+        if (type && data) {
+          inline.push({ type, dataUrl: toDataUrl(data, item.mimeType, type), mimeType: item.mimeType });
+        }
+      }
+    }
+  }
+
+  const text = texts.join("\n");
+  if (raw.isError) {
+    return { kind: "error", message: text || "The tool reported an error" };
+  }
+
+  const outputs = pairOutputs(inline, remote);
+  if (outputs.length === 0) return { kind: "text", structuredPrompt, text };
+  if (outputs.length > 1) return { kind: "multiple", outputs, structuredPrompt, text };
+  return { kind: outputs[0].type, output: outputs[0], structuredPrompt, text };
+}
+
+/**
+ * All media outputs of a parsed result, in order
+ */
+export function mediaOutputs(result: MediaResult): MediaOutput[] {
+  switch (result.kind) {
+    case "image":
+    case "video":
+      return [result.output];
+    case "multiple":
+      return result.outputs;
+    default:
+      return [];
+  }
+}
+
+// --- Helpers ---
+
+/**
+ * Each inline preview takes the first unused remote URL of the same kind;
+ * remote URLs left over are outputs of their own
+ */
+function pairOutputs(inline: Candidate[], remote: Candidate[]): MediaOutput[] {
+  const unused = remote.filter(
+    (candidate, index) => remote.findIndex((other) => other.remoteUrl === candidate.remoteUrl) === index
+  );
+  const outputs: MediaOutput[] = [];
+
+  for (const candidate of inline) {
+    let remoteUrl = candidate.remoteUrl;
+    if (!remoteUrl) {
+      const index = unused.findIndex((other) => other.type === candidate.type);
+      if (index !== -1) remoteUrl = unused.splice(index, 1)[0].remoteUrl;
+    }
+    outputs.push(toOutput({ ...candidate, remoteUrl }));
+  }
+
+  const all = [...outputs, ...unused.map(toOutput)];
+
+  // An inline image without a URL of its own next to a video is that video's poster frame
+  const posterless = all.filter((output) => output.type === "video" && !output.posterUrl);
+  return all.filter((output) => {
+    if (output.type !== "image" || output.remoteUrl || posterless.length === 0) return true;
+    posterless.shift()!.posterUrl = output.url;
+    return false;
+  });
+}
+
+function toOutput(candidate: Candidate): MediaOutput {
+  const url = candidate.remoteUrl || candidate.dataUrl || "";
+  const mimeType = candidate.mimeType || (candidate.type === "video" ? videoMimeTypeOf(url) : undefined);
+  return {
+    type: candidate.type,
+    url,
+    ...(candidate.remoteUrl ? { remoteUrl: candidate.remoteUrl } : {}),
+    ...(mimeType ? { mimeType } : {}),
+    ...(candidate.posterUrl ? { posterUrl: candidate.posterUrl } : {}),
+    ...(candidate.duration ? { duration: candidate.duration } : {}),
+  };
+}
+
+function parseText(text: string): { structuredPrompt: StructuredPrompt | null; urls: Candidate[] } {
+  const urls: Candidate[] = [];
+
+  for (const match of text.matchAll(PREVIEW_URL_PATTERN)) {
+    const url = trimUrl(match[2]);
+    const hint = match[1]?.trim().toLowerCase() as MediaKind | undefined;
+    urls.push({ type: hint || mediaKindOf(undefined, url) || "image", remoteUrl: url });
+  }
+
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return { structuredPrompt: null, urls };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return { structuredPrompt: null, urls };
+  }
+
+  return { structuredPrompt: findStructuredPrompt(parsed), urls: [...urls, ...findJsonUrls(parsed)] };
+}
+
+function findStructuredPrompt(value: unknown): StructuredPrompt | null {
+  if (!isRecord(value)) return null;
+  if (value.short_description || value.objects || value.aesthetics) return value;
+
+  // Wrapped: { structured_prompt: {...} } or a JSON string of it
+  const wrapped = value.structured_prompt ?? (isRecord(value.result) ? value.result.structured_prompt : undefined);
+  if (typeof wrapped === "string") {
+    try {
+      return findStructuredPrompt(JSON.parse(wrapped));
+    } catch {
+      return null;
+    }
+  }
+  return findStructuredPrompt(wrapped);
+}
+
+// URLs under well-known keys, at the top level or under "result" (object or array)
+function findJsonUrls(value: unknown): Candidate[] {
+  const scopes: unknown[] = [value];
+  if (isRecord(value)) {
+    scopes.push(...(Array.isArray(value.result) ? value.result : [value.result]));
+  } else if (Array.isArray(value)) {
+    scopes.push(...value);
+  }
+
+  const urls: Candidate[] = [];
+  for (const scope of scopes) {
+    if (!isRecord(scope)) continue;
+    const found: Candidate[] = [];
+    for (const [key, hint] of JSON_URL_KEYS) {
+      const entries = Array.isArray(scope[key]) ? (scope[key] as unknown[]) : [scope[key]];
+      for (const entry of entries) {
+        if (typeof entry !== "string" || !isRemoteUrl(entry)) continue;
+        const type = hint || mediaKindOf(undefined, entry) || (key === "url" ? null : "image");
+        if (type) found.push({ type, remoteUrl: entry });
+      }
+    }
+
+    const video = found.find((candidate) => candidate.type === "video");
+    if (video) {
+      video.posterUrl = POSTER_KEYS.map((key) => scope[key]).find(isRemoteUrl);
+      const [durationKey, scale] = DURATION_KEYS.find(([key]) => Number(scope[key]) > 0) || [];
+      if (durationKey) video.duration = Number(scope[durationKey]) * scale!;
+    }
+    urls.push(...found);
+  }
+  return urls;
+}
+
+function mediaKindOf(mimeType?: string, uri?: string): MediaKind | null {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType?.startsWith("video/")) return "video";
+  if (mimeType || !uri) return null;
+  if (VIDEO_EXTENSION.test(uri)) return "video";
+  return /\.(png|jpe?g|webp|gif|heic|avif)(\?|#|$)/i.test(uri) ? "image" : null;
+}
+
+function videoMimeTypeOf(url: string): string | undefined {
+  const extension = url.match(VIDEO_EXTENSION)?.[1].toLowerCase();
+  return extension ? VIDEO_MIME_TYPES[extension] : undefined;
+}
+
+function toDataUrl(data: string, mimeType: string | undefined, type: MediaKind): string {
+  if (data.startsWith("data:") || isRemoteUrl(data)) return data;
+  return `data:${mimeType || (type === "video" ? "video/mp4" : "image/jpeg")};base64,${data}`;
+}
+
+function isRemoteUrl(value: unknown): value is string {
+  return typeof value === "string" && /^https?:\/\//i.test(value);
+}
+
+// Sentence punctuation and closing brackets are not part of the URL
+function trimUrl(url: string): string {
+  return url.replace(/[)\]}>"'.,;]+$/, "");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
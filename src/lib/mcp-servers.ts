@@ -0,0 +1,120 @@
+/**
+ * MCP server configuration
+ *
+ * Bria (BRIA_MCP_URL / BRIA_MCP_API_TOKEN) is always the primary server; its
+ * tools keep their plain names because the operation registry, the intent
+ * router and the agent's instructions refer to them. Additional servers come
+ * from MCP_SERVERS (a JSON array, or the path of a JSON file holding one):
+ *
+ *   [{ "name": "assets", "url": "http://localhost:4000/mcp",
+ *      "auth": { "type": "bearer", "tokenEnv": "ASSETS_MCP_TOKEN" } }]
+ *
+ * Their tools are exposed as "<name>__<tool>" so names never collide.
+ */
+
+import { readFileSync } from "fs";
+import { getEnv, hasEnv } from "./env-init";
+
+// How a server expects its credentials. Tokens are read from an env var (tokenEnv) or given inline (token).
+export type MCPServerAuth =
+  | { type: "none" }
+  | { type: "bearer"; token?: string; tokenEnv?: string } // Authorization: Bearer <token>
+  | { type: "header"; header: string; token?: string; tokenEnv?: string }; // <header>: <token> (Bria: api_token)
+
+export interface MCPServerConfig {
+  name: string; // Namespace: letters, digits, "-" and "_"
+  url: string;
+  auth: MCPServerAuth;
+  headers?: Record<string, string>; // Extra headers sent with every request
+  primary?: boolean; // Tools keep their plain names; connection failures are fatal
+}
+
+export const PRIMARY_SERVER_NAME = "bria";
+export const NAMESPACE_SEPARATOR = "__";
+
+const SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * All configured servers, primary first. Throws on an invalid MCP_SERVERS entry.
+ */
+export function loadMCPServerConfigs(): MCPServerConfig[] {
+  const servers: MCPServerConfig[] = [
+    {
+      name: PRIMARY_SERVER_NAME,
+      url: getEnv("BRIA_MCP_URL"),
+      auth: { type: "header", header: "api_token", tokenEnv: "BRIA_MCP_API_TOKEN" },
+      primary: true,
+    },
+  ];
+
+  for (const entry of readAdditionalServers()) {
+    const server = parseServerConfig(entry);
+    if (servers.some((existing) => existing.name === server.name)) {
+      throw new Error(`MCP_SERVERS: duplicate server name "${server.name}"`);
+    }
+    servers.push(server);
+  }
+
+  return servers;
+}
+
+/**
+ * Request headers carrying the server's credentials
+ */
+export function buildAuthHeaders(server: MCPServerConfig): Record<string, string> {
+  const { auth } = server;
+  if (auth.type === "none") return { ...server.headers };
+
+  const token = auth.tokenEnv ? getEnv(auth.tokenEnv) : auth.token;
+  if (!token) {
+    throw new Error(`MCP server "${server.name}": no token configured (set token or tokenEnv)`);
+  }
+
+  return auth.type === "bearer"
+    ? { ...server.headers, Authorization: `Bearer ${token}` }
+    : { ...server.headers, [auth.header]: token };
+}
+
+/**
+ * Name a tool is exposed under in the merged registry
+ */
+export function namespacedToolName(server: MCPServerConfig, toolName: string): string {
+  return server.primary ? toolName : `${server.name}${NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+function readAdditionalServers(): unknown[] {
+  if (!hasEnv("MCP_SERVERS")) return [];
+
+  const value = process.env.MCP_SERVERS!.trim();
+  try {
+    const parsed = JSON.parse(value.startsWith("[") ? value : readFileSync(value, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array of servers");
+    }
+    return parsed;
+  } catch (error) {
+    throw new Error(`Failed to load MCP_SERVERS: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseServerConfig(entry: unknown): MCPServerConfig {
+  const raw = (entry && typeof entry === "object" ? entry : {}) as Partial<MCPServerConfig>;
+  const label = typeof raw.name === "string" ? `"${raw.name}"` : JSON.stringify(entry);
+
+  if (typeof raw.name !== "string" || !SERVER_NAME_PATTERN.test(raw.name) || raw.name.includes(NAMESPACE_SEPARATOR)) {
+    throw new Error(`MCP_SERVERS: invalid server name ${label} (letters, digits, "-" and single "_")`);
+  }
+  if (typeof raw.url !== "string" || !/^https?:\/\//i.test(raw.url)) {
+    throw new Error(`MCP_SERVERS: server ${label} needs an http(s) url`);
+  }
+
+  const auth = (raw.auth || { type: "none" }) as MCPServerAuth;
+  if (!["none", "bearer", "header"].includes(auth.type)) {
+    throw new Error(`MCP_SERVERS: server ${label} has unknown auth type "${auth.type}"`);
+  }
+  if (auth.type === "header" && !auth.header) {
+    throw new Error(`MCP_SERVERS: server ${label} needs auth.header for header auth`);
+  }
+
+  return { name: raw.name, url: raw.url, auth, headers: raw.headers, primary: false };
+}
@@ -0,0 +1,393 @@
+/**
+ * Streamable HTTP transport for MCP (protocol revision 2025-06-18)
+ *
+ * - Each JSON-RPC message is POSTed. The server answers 202 (nothing to return),
+ *   a JSON body, or an SSE stream that is parsed as it arrives, so progress
+ *   notifications reach the caller while the tool is still running.
+ * - Every message received is dispatched: responses, notifications and server requests.
+ * - The Mcp-Session-Id assigned at initialization (and the negotiated protocol
+ *   version) are sent with every later request.
+ * - After initialization a GET stream is opened for server-initiated messages,
+ *   unless the server answers 405.
+ * - Interrupted streams are resumed with a GET carrying Last-Event-ID, when the
+ *   server numbers its events.
+ * - close() aborts open streams and ends the session with DELETE.
+ */
+
+import type { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isInitializedNotification,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { readSSEMessages } from "./sse";
+import { isCancelledError, sleep } from "./cancellation";
+import { parseRetryAfter } from "./retry-policy";
+
+export interface StreamableHTTPTransportOptions {
+  headers?: Record<string, string>; // Sent with every request (e.g. Bria's api_token)
+  maxResumeAttempts?: number; // Per interrupted stream (default: 3)
+  listen?: boolean; // Open the GET stream for server-initiated messages (default: true)
+}
+
+/**
+ * Non-2xx answer from the MCP endpoint. code mirrors the HTTP status so retry
+ * logic can treat it like a JSON-RPC error code; retryAfterMs comes from the
+ * Retry-After header (429/503).
+ */
+export class MCPHTTPError extends Error {
+  readonly code: number;
+
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "MCPHTTPError";
+    this.code = status;
+  }
+}
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export class StreamableHTTPTransport implements Transport {
+  sessionId?: string;
+  onmessage?: (message: JSONRPCMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+
+  private protocolVersion?: string;
+  private closed = false;
+  private reconnectDelay = DEFAULT_RECONNECT_DELAY_MS;
+  private readonly maxResumeAttempts: number;
+  private readonly listen: boolean;
+  private readonly headers: Record<string, string>;
+  // Open POST streams by the request they answer, so a cancelled request frees its connection
+  private readonly requestStreams = new Map<RequestId, AbortController>();
+  private listenController: AbortController | null = null;
+
+  constructor(private readonly url: string, options: StreamableHTTPTransportOptions = {}) {
+    this.headers = options.headers || {};
+    this.maxResumeAttempts = options.maxResumeAttempts ?? 3;
+    this.listen = options.listen ?? true;
+  }
+
+  async start(): Promise<void> {
+    // Nothing to open until the first message; the GET stream follows initialization
+    this.closed = false;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  /**
+   * POST one message and dispatch whatever comes back. For requests answered
+   * with a stream this resolves once the response has arrived, so transport
+   * failures reject the pending request instead of leaving it to time out.
+   */
+  async send(message: JSONRPCMessage, options: TransportSendOptions = {}): Promise<void> {
+    if (this.closed) throw new Error("MCP transport is closed");
+
+    // A cancelled request's stream will never be read to the end
+    if (!isJSONRPCRequest(message) && "method" in message && message.method === "notifications/cancelled") {
+      const requestId = (message.params as { requestId?: RequestId } | undefined)?.requestId;
+      if (requestId !== undefined) this.requestStreams.get(requestId)?.abort();
+    }
+
+    // Resuming a request after a dropped stream: replay from the last event instead of re-sending
+    if (options.resumptionToken) {
+      const requestId = isJSONRPCRequest(message) ? message.id : undefined;
+      await this.resume(options.resumptionToken, requestId, options.onresumptiontoken);
+      return;
+    }
+
+    const controller = new AbortController();
+    const requestId = isJSONRPCRequest(message) ? message.id : undefined;
+    if (requestId !== undefined) this.requestStreams.set(requestId, controller);
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: this.buildHeaders({
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        }),
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+
+      const sessionId = response.headers.get("mcp-session-id");
+      if (sessionId) this.sessionId = sessionId;
+
+      if (!response.ok) {
+        throw await this.toHTTPError(response);
+      }
+
+      // Initialized: the server may now push messages on the GET stream
+      if (isInitializedNotification(message) && this.listen) {
+        this.startListening();
+      }
+
+      if (response.status === 202 || requestId === undefined) {
+        await response.body?.cancel();
+        return;
+      }
+
+      const contentType = response.headers.get("content-type") || "";
+      if (contentType.includes("text/event-stream")) {
+        await this.consumeStream(response, requestId, controller.signal, options.onresumptiontoken);
+      } else if (contentType.includes("application/json")) {
+        const body = await response.json();
+        for (const item of Array.isArray(body) ? body : [body]) {
+          this.dispatch(item);
+        }
+      } else {
+        await response.body?.cancel();
+        throw new Error(`Unexpected MCP response content type "${contentType}"`);
+      }
+    } catch (error) {
+      if (controller.signal.aborted || isCancelledError(error)) return; // Cancelled request or closed transport
+      this.onerror?.(error as Error);
+      throw error;
+    } finally {
+      if (requestId !== undefined) this.requestStreams.delete(requestId);
+    }
+  }
+
+  /**
+   * Abort open streams and end the session. The server may refuse DELETE (405).
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.listenController?.abort();
+    this.listenController = null;
+    for (const controller of this.requestStreams.values()) controller.abort();
+    this.requestStreams.clear();
+
+    if (this.sessionId) {
+      try {
+        const response = await fetch(this.url, { method: "DELETE", headers: this.buildHeaders({}) });
+        if (!response.ok && response.status !== 405) {
+          console.warn(`[MCP] Session termination answered HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.warn("[MCP] Session termination failed:", error);
+      }
+      this.sessionId = undefined;
+    }
+
+    this.onclose?.();
+  }
+
+  // --- Streams ---
+
+  /**
+   * Read a POST response stream until the request's response arrives. If the
+   * stream drops first, resume it from the last event id when there is one.
+   */
+  private async consumeStream(
+    response: Response,
+    requestId: RequestId,
+    signal: AbortSignal,
+    onResumptionToken?: (token: string) => void
+  ): Promise<void> {
+    const { answered, lastEventId } = await this.readStream(response, requestId, signal, onResumptionToken);
+    if (answered) return;
+
+    if (!lastEventId) {
+      throw new Error("MCP stream ended before the response arrived");
+    }
+    await this.resume(lastEventId, requestId, onResumptionToken);
+  }
+
+  /**
+   * Replay a stream with GET + Last-Event-ID until the request's response
+   * arrives, up to maxResumeAttempts reconnections
+   */
+  private async resume(
+    lastEventId: string,
+    requestId: RequestId | undefined,
+    onResumptionToken?: (token: string) => void
+  ): Promise<void> {
+    const controller = new AbortController();
+    if (requestId !== undefined) this.requestStreams.set(requestId, controller);
+
+    try {
+      for (let attempt = 1; attempt <= this.maxResumeAttempts; attempt++) {
+        console.log(`[MCP] Resuming stream after event ${lastEventId} (attempt ${attempt}/${this.maxResumeAttempts})`);
+        await sleep(this.reconnectDelay, controller.signal);
+
+        const response = await this.openGetStream(lastEventId, controller.signal);
+        if (!response) {
+          throw new Error("MCP server does not support stream resumption");
+        }
+
+        const result = await this.readStream(response, requestId, controller.signal, onResumptionToken);
+        if (result.answered || requestId === undefined) return;
+        lastEventId = result.lastEventId || lastEventId;
+      }
+      throw new Error(`MCP stream could not be resumed after ${this.maxResumeAttempts} attempts`);
+    } finally {
+      if (requestId !== undefined && this.requestStreams.get(requestId) === controller) {
+        this.requestStreams.delete(requestId);
+      }
+    }
+  }
+
+  /**
+   * Keep the GET stream open for server-initiated messages, reconnecting
+   * (with Last-Event-ID) whenever it drops. Stops if the server answers 405.
+   */
+  private startListening(): void {
+    if (this.listenController) return;
+    const controller = new AbortController();
+    this.listenController = controller;
+
+    const run = async () => {
+      let lastEventId: string | undefined;
+      let failures = 0;
+
+      while (!controller.signal.aborted) {
+        try {
+          const response = await this.openGetStream(lastEventId, controller.signal);
+          if (!response) {
+            console.log("[MCP] Server has no listening stream (405)");
+            return;
+          }
+          failures = 0;
+          const result = await this.readStream(response, undefined, controller.signal);
+          lastEventId = result.lastEventId || lastEventId;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          failures++;
+          console.warn("[MCP] Listening stream failed:", error instanceof Error ? error.message : error);
+        }
+
+        const delay = Math.min(this.reconnectDelay * 2 ** failures, MAX_RECONNECT_DELAY_MS);
+        await sleep(delay, controller.signal).catch(() => undefined);
+      }
+    };
+
+    run().finally(() => {
+      if (this.listenController === controller) this.listenController = null;
+    });
+  }
+
+  /**
+   * GET an event stream; null when the server doesn't offer one (405)
+   */
+  private async openGetStream(lastEventId: string | undefined, signal: AbortSignal): Promise<Response | null> {
+    const response = await fetch(this.url, {
+      method: "GET",
+      headers: this.buildHeaders({
+        Accept: "text/event-stream",
+        ...(lastEventId ? { "Last-Event-ID": lastEventId } : {}),
+      }),
+      signal,
+    });
+
+    if (response.status === 405) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok) {
+      throw await this.toHTTPError(response);
+    }
+    return response;
+  }
+
+  /**
+   * Dispatch each event of an SSE body as it arrives. Reports whether the
+   * response to requestId was among them and the last event id seen.
+   */
+  private async readStream(
+    response: Response,
+    requestId: RequestId | undefined,
+    signal: AbortSignal,
+    onResumptionToken?: (token: string) => void
+  ): Promise<{ answered: boolean; lastEventId?: string }> {
+    let answered = false;
+    let lastEventId: string | undefined;
+
+    if (!response.body) return { answered, lastEventId };
+
+    try {
+      await readSSEMessages(response.body, (event) => {
+        if (event.retry !== undefined) this.reconnectDelay = event.retry;
+        if (event.id) {
+          lastEventId = event.id;
+          onResumptionToken?.(event.id);
+        }
+        if (!event.data || (event.event && event.event !== "message")) return;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(event.data);
+        } catch {
+          console.warn("[MCP] Ignoring unparseable stream event:", event.data.substring(0, 100));
+          return;
+        }
+
+        for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+          const message = this.dispatch(item);
+          if (
+            message &&
+            requestId !== undefined &&
+            (isJSONRPCResponse(message) || isJSONRPCError(message)) &&
+            message.id === requestId
+          ) {
+            answered = true;
+          }
+        }
+      });
+    } catch (error) {
+      // A dropped connection is resumable; report how far we got
+      if (this.closed || signal.aborted || !lastEventId) throw error;
+      console.warn("[MCP] Stream interrupted:", error instanceof Error ? error.message : error);
+    }
+
+    return { answered, lastEventId };
+  }
+
+  private dispatch(value: unknown): JSONRPCMessage | null {
+    const result = JSONRPCMessageSchema.safeParse(value);
+    if (!result.success) {
+      this.onerror?.(new Error(`Invalid JSON-RPC message from MCP server: ${JSON.stringify(value).substring(0, 200)}`));
+      return null;
+    }
+    this.onmessage?.(result.data);
+    return result.data;
+  }
+
+  // --- Helpers ---
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    return {
+      ...this.headers,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+      ...(this.protocolVersion ? { "MCP-Protocol-Version": this.protocolVersion } : {}),
+      ...extra,
+    };
+  }
+
+  private async toHTTPError(response: Response): Promise<MCPHTTPError> {
+    const body = await response.text().catch(() => "");
+    const detail = body ? `: ${body.substring(0, 200)}` : "";
+
+    // The server dropped our session; the next connect must initialize a new one
+    if (response.status === 404 && this.sessionId) {
+      this.sessionId = undefined;
+      return new MCPHTTPError(404, `MCP session expired${detail}`);
+    }
+    return new MCPHTTPError(
+      response.status,
+      `HTTP ${response.status}: ${response.statusText}${detail}`,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Local mock of the Bria MCP server
+ *
+ * Served from /api/mock-mcp so the app can run without the live Bria service:
+ * point BRIA_MCP_URL at http://localhost:3000/api/mock-mcp (any
+ * BRIA_MCP_API_TOKEN works unless MOCK_MCP_API_TOKEN is set). Speaks JSON-RPC
+ * over Streamable HTTP, answers with deterministic SVG placeholders, the
+ * "for full image Preview use: URL" text and a structured prompt, just like
+ * the real service.
+ *
+ * Failure modes (MOCK_MCP_FAILURE): moderation (422 from the upstream API),
+ * timeout (hangs for MOCK_MCP_TIMEOUT_MS, then 504) and server_error (HTTP 500),
+ * applied to a fraction of calls (MOCK_MCP_FAILURE_RATE) of the tools in
+ * MOCK_MCP_FAILURE_TOOLS. A single call can also be forced to fail by putting
+ * "[mock:moderation]", "[mock:timeout]" or "[mock:server_error]" in any string argument.
+ */
+
+import { createHash } from "crypto";
+import type { MCPTool, MCPToolResult } from "./mcp-client";
+import { sleep } from "./cancellation";
+
+export const MOCK_MCP_SERVER_INFO = { name: "bria-mock-mcp", version: "1.0.0" };
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const DEFAULT_LATENCY_MS = 800;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const LONG_SIDE = 1024;
+
+export type MockFailure = "moderation" | "timeout" | "server_error";
+
+const FAILURES: readonly MockFailure[] = ["moderation", "timeout", "server_error"];
+const FAILURE_TRIGGER = /\[mock:(moderation|timeout|server_error)\]/;
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface MockRequestContext {
+  baseUrl: string; // Origin used in preview URLs
+  signal?: AbortSignal;
+  notify?: (notification: JsonRpcNotification) => void; // Progress, when the response is streamed
+}
+
+/**
+ * Raised for failures that surface as an HTTP status rather than a JSON-RPC error
+ */
+export class MockHTTPError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "MockHTTPError";
+  }
+}
+
+const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9"];
+const IMAGE_PARAM = { type: "string", description: "URL (or base64 data URL) of the input image" };
+
+export const MOCK_MCP_TOOLS: MCPTool[] = [
+  {
+    name: "text_to_image",
+    description: "Generate an image from a text prompt (or refine one from a structured prompt). Returns a preview URL and the structured prompt used.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: { type: "string", description: "What to generate" },
+        aspect_ratio: { type: "string", enum: ASPECT_RATIOS, default: "1:1" },
+        steps_num: { type: "integer", minimum: 20, maximum: 50, default: 50, description: "Number of diffusion steps" },
+        seed: { type: "integer", description: "Seed for reproducible results" },
+        model_version: { type: "string", enum: ["FIBO", "3.2"], default: "FIBO" },
+        structured_prompt: { type: "string", description: "JSON structured prompt from a previous generation, for refinement" },
+        image: { ...IMAGE_PARAM, description: "Optional reference image URL" },
+      },
+      required: ["prompt"],
+    },
+  },
+  {
+    name: "remove_background",
+    description: "Remove the background of an image, leaving the foreground on transparency.",
+    inputSchema: {
+      type: "object",
+      properties: { image: IMAGE_PARAM },
+      required: ["image"],
+    },
+  },
+  {
+    name: "generate_background",
+    description: "Replace the background of an image with a generated one described by the prompt.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        prompt: { type: "string", description: "Description of the new background" },
+      },
+      required: ["image", "prompt"],
+    },
+  },
+  {
+    name: "blur_background",
+    description: "Blur the background of an image.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        scale: { type: "integer", minimum: 1, maximum: 5, default: 5, description: "Blur strength" },
+      },
+      required: ["image"],
+    },
+  },
+  {
+    name: "expand_image",
+    description: "Expand (outpaint) an image to a new aspect ratio.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        target_aspect_ratio: { type: "string", enum: ASPECT_RATIOS },
+        prompt: { type: "string", description: "Optional description of the expanded area" },
+      },
+      required: ["image", "target_aspect_ratio"],
+    },
+  },
+  {
+    name: "enhance_image",
+    description: "Enhance the visual quality and detail of an image.",
+    inputSchema: {
+      type: "object",
+      properties: { image: IMAGE_PARAM },
+      required: ["image"],
+    },
+  },
+  {
+    name: "increase_resolution",
+    description: "Upscale an image.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        desired_increase: { type: "integer", enum: [2, 4], default: 2 },
+      },
+      required: ["image"],
+    },
+  },
+  {
+    name: "generative_fill",
+    description: "Fill the masked area of an image with content described by the prompt.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        mask: { type: "string", description: "Base64 PNG mask (white = area to fill)" },
+        prompt: { type: "string", description: "What to generate in the masked area" },
+      },
+      required: ["image", "mask", "prompt"],
+    },
+  },
+  {
+    name: "erase_foreground",
+    description: "Remove the foreground of an image and fill in the background behind it.",
+    inputSchema: {
+      type: "object",
+      properties: { image: IMAGE_PARAM },
+      required: ["image"],
+    },
+  },
+  {
+    name: "eraser",
+    description: "Erase the masked object from an image.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: IMAGE_PARAM,
+        mask: { type: "string", description: "Base64 PNG mask (white = area to erase)" },
+      },
+      required: ["image", "mask"],
+    },
+  },
+];
+
+export function isMockMCPEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.MOCK_MCP_ENABLED === "true";
+}
+
+/**
+ * Whether a request carries the right api_token (any token when MOCK_MCP_API_TOKEN is unset)
+ */
+export function isAuthorizedMockRequest(apiToken: string | null): boolean {
+  const expected = process.env.MOCK_MCP_API_TOKEN;
+  return expected ? apiToken === expected : !!apiToken;
+}
+
+/**
+ * Failure to simulate for a tools/call, if any: forced by an argument trigger,
+ * otherwise taken from the MOCK_MCP_FAILURE settings
+ */
+export function pickMockFailure(message: JsonRpcMessage): MockFailure | null {
+  if (message.method !== "tools/call") return null;
+
+  const toolName = String(message.params?.name ?? "");
+  const args = message.params?.arguments;
+  const triggered = JSON.stringify(args ?? {}).match(FAILURE_TRIGGER);
+  if (triggered) return triggered[1] as MockFailure;
+
+  const configured = process.env.MOCK_MCP_FAILURE as MockFailure | undefined;
+  if (!configured || !FAILURES.includes(configured)) return null;
+
+  const tools = (process.env.MOCK_MCP_FAILURE_TOOLS || "").split(",").map((t) => t.trim()).filter(Boolean);
+  if (tools.length > 0 && !tools.includes(toolName)) return null;
+
+  const rate = process.env.MOCK_MCP_FAILURE_RATE ? Number(process.env.MOCK_MCP_FAILURE_RATE) : 1;
+  return Math.random() < rate ? configured : null;
+}
+
+/**
+ * Failures that happen at the HTTP level, before any response body is written
+ */
+export async function simulateHTTPFailure(failure: MockFailure | null, signal?: AbortSignal): Promise<void> {
+  if (failure === "server_error") {
+    throw new MockHTTPError(500, "Internal Server Error");
+  }
+  if (failure === "timeout") {
+    const timeoutMs = Number(process.env.MOCK_MCP_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+    console.log(`[MockMCP] Simulating a timeout (${timeoutMs}ms)`);
+    await sleep(timeoutMs, signal);
+    throw new MockHTTPError(504, "Gateway Timeout");
+  }
+}
+
+/**
+ * Handle one JSON-RPC message. Returns null for notifications (no response).
+ */
+export async function handleMockMCPMessage(
+  message: JsonRpcMessage,
+  context: MockRequestContext,
+  failure: MockFailure | null = null
+): Promise<JsonRpcResponse | null> {
+  if (message.id === undefined || message.id === null) {
+    return null; // notifications/initialized, notifications/cancelled, ...
+  }
+
+  const respond = (result: unknown): JsonRpcResponse => ({ jsonrpc: "2.0", id: message.id!, result });
+  const fail = (code: number, errorMessage: string, data?: unknown): JsonRpcResponse => ({
+    jsonrpc: "2.0",
+    id: message.id!,
+    error: { code, message: errorMessage, ...(data !== undefined ? { data } : {}) },
+  });
+
+  switch (message.method) {
+    case "initialize": {
+      const requested = String(message.params?.protocolVersion ?? "");
+      return respond({
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: MOCK_MCP_SERVER_INFO,
+      });
+    }
+    case "ping":
+      return respond({});
+    case "tools/list":
+      return respond({ tools: MOCK_MCP_TOOLS });
+    case "tools/call":
+      break;
+    default:
+      return fail(-32601, `Method not found: ${message.method}`);
+  }
+
+  const name = String(message.params?.name ?? "");
+  const args = (message.params?.arguments ?? {}) as Record<string, unknown>;
+  const tool = MOCK_MCP_TOOLS.find((t) => t.name === name);
+  if (!tool) {
+    return fail(-32602, `Unknown tool: ${name}`);
+  }
+
+  const problems = validateArgs(tool, args);
+  if (problems.length > 0) {
+    return fail(-32602, `Invalid arguments for ${name}: ${problems.join("; ")}`);
+  }
+
+  const meta = message.params?._meta as { progressToken?: string | number } | undefined;
+  await simulateWork(name, meta?.progressToken, context);
+
+  if (failure === "moderation") {
+    console.log(`[MockMCP] Simulating content moderation for ${name}`);
+    return fail(-32000, "Bria API request failed with status 422: prompt did not pass content moderation", {
+      status: 422,
+    });
+  }
+
+  console.log(`[MockMCP] ${name}`, JSON.stringify(args).substring(0, 200));
+  return respond(buildToolResult(name, args, context.baseUrl));
+}
+
+/**
+ * Deterministic placeholder image. The colours come from the id, so the same
+ * tool call always produces the same picture.
+ */
+export function renderPlaceholderSVG(options: {
+  id: string;
+  tool: string;
+  aspectRatio?: string;
+  label?: string;
+}): string {
+  const { width, height } = dimensionsFor(options.aspectRatio);
+  const hue = parseInt(options.id.slice(0, 4), 16) % 360 || 0;
+  const transparent = options.tool === "remove_background";
+  const radius = Math.round(Math.min(width, height) * 0.22);
+  const label = escapeXML((options.label || options.tool).substring(0, 60));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">`,
+    `<stop offset="0" stop-color="hsl(${hue},65%,58%)"/><stop offset="1" stop-color="hsl(${(hue + 50) % 360},60%,32%)"/>`,
+    `</linearGradient></defs>`,
+    transparent ? "" : `<rect width="${width}" height="${height}" fill="url(#bg)"/>`,
+    `<circle cx="${width / 2}" cy="${height / 2 - radius * 0.2}" r="${radius}" fill="hsl(${(hue + 180) % 360},70%,70%)" opacity="0.9"/>`,
+    `<text x="50%" y="${height - 72}" text-anchor="middle" font-family="sans-serif" font-size="32" fill="${transparent ? "#333" : "#fff"}">${label}</text>`,
+    `<text x="50%" y="${height - 32}" text-anchor="middle" font-family="monospace" font-size="20" fill="${transparent ? "#666" : "#ffffffb3"}">${escapeXML(options.tool)} · ${options.id.substring(0, 8)}</text>`,
+    `</svg>`,
+  ].join("");
+}
+
+function buildToolResult(name: string, args: Record<string, unknown>, baseUrl: string): MCPToolResult {
+  const id = hashArgs(name, args);
+  const aspectRatio =
+    (typeof args.target_aspect_ratio === "string" && args.target_aspect_ratio) ||
+    (typeof args.aspect_ratio === "string" && args.aspect_ratio) ||
+    aspectRatioOfMockImage(args.image) ||
+    "1:1";
+  const label = typeof args.prompt === "string" ? args.prompt : name.replace(/_/g, " ");
+  const svg = renderPlaceholderSVG({ id, tool: name, aspectRatio, label });
+
+  const query = new URLSearchParams({ tool: name, ar: aspectRatio, label: label.substring(0, 60) });
+  const previewUrl = `${baseUrl}/api/mock-mcp/images/${id}?${query}`;
+
+  const content: MCPToolResult["content"] = [
+    { type: "image", data: Buffer.from(svg).toString("base64"), mimeType: "image/svg+xml" },
+    { type: "text", text: `for full image Preview use: ${previewUrl}` },
+  ];
+
+  if (name === "text_to_image") {
+    content.push({ type: "text", text: JSON.stringify(buildStructuredPrompt(String(args.prompt))) });
+  }
+
+  return { content };
+}
+
+function buildStructuredPrompt(prompt: string): Record<string, unknown> {
+  return {
+    short_description: prompt,
+    objects: [
+      {
+        description: prompt,
+        location: "center",
+        relative_size: "medium",
+      },
+    ],
+    background_setting: "A softly blurred, neutral studio backdrop",
+    lighting: {
+      conditions: "soft daylight",
+      direction: "front-lit",
+      shadows: "soft, subtle shadows",
+    },
+    aesthetics: {
+      composition: "centered, balanced composition",
+      color_scheme: "harmonious complementary colors",
+      mood_atmosphere: "calm",
+      preference_score: "high",
+      aesthetic_score: "high",
+    },
+    photographic_characteristics: {
+      depth_of_field: "shallow",
+      focus: "sharp focus on the subject",
+      camera_angle: "eye-level",
+      lens_focal_length: "standard lens (50mm)",
+    },
+    style_medium: "photograph",
+    artistic_style: "realistic",
+  };
+}
+
+// Spread MOCK_MCP_LATENCY_MS over a few progress notifications
+async function simulateWork(
+  name: string,
+  progressToken: string | number | undefined,
+  context: MockRequestContext
+): Promise<void> {
+  const latency = process.env.MOCK_MCP_LATENCY_MS !== undefined
+    ? Number(process.env.MOCK_MCP_LATENCY_MS)
+    : DEFAULT_LATENCY_MS;
+  const total = 3;
+
+  for (let progress = 1; progress <= total; progress++) {
+    if (latency > 0) {
+      await sleep(latency / total, context.signal);
+    }
+    if (progressToken !== undefined && context.notify) {
+      context.notify({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message: `Running ${name}` },
+      });
+    }
+  }
+}
+
+function validateArgs(tool: MCPTool, args: Record<string, unknown>): string[] {
+  const properties = tool.inputSchema.properties || {};
+  const problems: string[] = [];
+
+  for (const name of tool.inputSchema.required || []) {
+    if (args[name] === undefined || args[name] === null || args[name] === "") {
+      problems.push(`"${name}" is required`);
+    }
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const schema = properties[name] as { enum?: unknown[] } | undefined;
+    if (!schema) {
+      problems.push(`unknown argument "${name}"`);
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      problems.push(`"${name}" must be one of ${schema.enum.join(", ")}`);
+    }
+  }
+
+  return problems;
+}
+
+function hashArgs(name: string, args: Record<string, unknown>): string {
+  const sorted = Object.keys(args).sort().map((key) => [key, args[key]]);
+  return createHash("sha256").update(name).update(JSON.stringify(sorted)).digest("hex").substring(0, 32);
+}
+
+// Chained calls keep the aspect ratio of a mock image they were given
+function aspectRatioOfMockImage(image: unknown): string | undefined {
+  if (typeof image !== "string" || !image.includes("/api/mock-mcp/images/")) return undefined;
+  try {
+    return new URL(image).searchParams.get("ar") || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function dimensionsFor(aspectRatio = "1:1"): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) return { width: LONG_SIDE, height: LONG_SIDE };
+  return w >= h
+    ? { width: LONG_SIDE, height: Math.round((LONG_SIDE * h) / w) }
+    : { width: Math.round((LONG_SIDE * w) / h), height: LONG_SIDE };
+}
+
+function escapeXML(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
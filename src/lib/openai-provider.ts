@@ -0,0 +1,226 @@
+/**
+ * OpenAI-compatible implementation of AgentProvider
+ *
+ * Talks to any /chat/completions endpoint with tool calling: OpenAI itself,
+ * or a local vLLM / Ollama server. Configured with OPENAI_BASE_URL (default:
+ * Ollama on localhost) and an optional OPENAI_API_KEY.
+ */
+
+import type {
+  AgentChat,
+  AgentChatOptions,
+  AgentFunctionCall,
+  AgentFunctionResponse,
+  AgentProvider,
+  AgentSendOptions,
+  AgentTurn,
+} from "./agent-provider";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIEndpoint {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+export class OpenAICompatibleAgentProvider implements AgentProvider {
+  readonly name = "openai" as const;
+  private endpoint: OpenAIEndpoint;
+
+  constructor(readonly model: string) {
+    this.endpoint = {
+      baseUrl: (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+      model,
+    };
+  }
+
+  startChat(options: AgentChatOptions): AgentChat {
+    return new OpenAIChat(this.endpoint, options);
+  }
+
+  async checkHealth(signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.endpoint.baseUrl}/models`, {
+      headers: this.endpoint.apiKey ? { Authorization: `Bearer ${this.endpoint.apiKey}` } : {},
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${this.endpoint.baseUrl}/models`);
+    }
+  }
+}
+
+class OpenAIChat implements AgentChat {
+  private messages: OpenAIMessage[];
+  private tools: Array<{ type: "function"; function: { name: string; description: string; parameters: unknown } }>;
+  private pendingToolCalls: OpenAIToolCall[] = []; // Calls of the last turn awaiting a response
+
+  constructor(private endpoint: OpenAIEndpoint, options: AgentChatOptions) {
+    this.messages = [
+      { role: "system", content: options.systemInstruction },
+      ...options.history.map((entry): OpenAIMessage => {
+        const content = entry.parts.map((part) => part.text || "").join("");
+        return entry.role === "model" ? { role: "assistant", content } : { role: "user", content };
+      }),
+    ];
+    this.tools = options.functions.map((fn) => ({
+      type: "function",
+      function: { name: fn.name, description: fn.description, parameters: fn.parameters },
+    }));
+  }
+
+  async send(input: string | AgentFunctionResponse[], options: AgentSendOptions = {}): Promise<AgentTurn> {
+    if (typeof input === "string") {
+      this.messages.push({ role: "user", content: input });
+    } else {
+      this.pushToolResponses(input);
+    }
+
+    const body = {
+      model: this.endpoint.model,
+      messages: this.messages,
+      tools: this.tools.length > 0 ? this.tools : undefined,
+      stream: !!options.onTextDelta,
+    };
+
+    const response = await fetch(`${this.endpoint.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.endpoint.apiKey ? { Authorization: `Bearer ${this.endpoint.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail.substring(0, 300)}`);
+    }
+
+    const { text, toolCalls } = options.onTextDelta && response.body
+      ? await readStreamedCompletion(response.body, options.onTextDelta)
+      : readCompletion(await response.json());
+
+    this.messages.push({
+      role: "assistant",
+      content: text || null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    });
+    this.pendingToolCalls = toolCalls;
+
+    return { text, functionCalls: toolCalls.map(toFunctionCall) };
+  }
+
+  // Every tool call needs a "tool" message with its id; match responses by name, in order
+  private pushToolResponses(responses: AgentFunctionResponse[]): void {
+    const pending = [...this.pendingToolCalls];
+    for (const fn of responses) {
+      const index = pending.findIndex((call) => call.function.name === fn.name);
+      const call = index !== -1 ? pending.splice(index, 1)[0] : undefined;
+      this.messages.push({
+        role: "tool",
+        tool_call_id: call?.id || `call_${fn.name}`,
+        content: JSON.stringify(fn.response),
+      });
+    }
+    this.pendingToolCalls = [];
+  }
+}
+
+function readCompletion(data: {
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAIToolCall[] } }>;
+}): { text: string; toolCalls: OpenAIToolCall[] } {
+  const message = data.choices?.[0]?.message;
+  return { text: message?.content || "", toolCalls: message?.tool_calls || [] };
+}
+
+// Accumulate "data:" chunks: content deltas are forwarded, tool call fragments are joined by index
+async function readStreamedCompletion(
+  body: ReadableStream<Uint8Array>,
+  onTextDelta: (delta: string) => void
+): Promise<{ text: string; toolCalls: OpenAIToolCall[] }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: OpenAIToolCall[] = [];
+  let text = "";
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+
+    let chunk: {
+      choices?: Array<{
+        delta?: {
+          content?: string | null;
+          tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+        };
+      }>;
+    };
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      console.warn("[OpenAIProvider] Skipping malformed stream chunk:", payload.substring(0, 100));
+      return;
+    }
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta?.content) {
+      text += delta.content;
+      onTextDelta(delta.content);
+    }
+    for (const fragment of delta?.tool_calls || []) {
+      const call = (toolCalls[fragment.index] ||= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      handleLine(buffer.slice(0, newline).trim());
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  handleLine(buffer.trim());
+
+  return {
+    text,
+    toolCalls: toolCalls.filter(Boolean).map((call, index) => ({ ...call, id: call.id || `call_${index}` })),
+  };
+}
+
+function toFunctionCall(call: OpenAIToolCall): AgentFunctionCall {
+  let args: Record<string, unknown> = {};
+  try {
+    args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    console.warn(`[OpenAIProvider] Unparseable arguments for ${call.function.name}:`, call.function.arguments);
+  }
+  return { name: call.function.name, args };
+}
@@ -0,0 +1,193 @@
+/**
+ * AI operation registry
+ *
+ * Single source of truth for how each AIOperation maps to an MCP tool and its
+ * arguments. Used for one-click operations (executed without the agent) and by
+ * the intent router's Priority 1, and checked against the discovered tools
+ * whenever the MCP client (re)discovers them.
+ */
+
+import type { MCPTool } from "./mcp-client";
+import { OPERATION_METADATA, type AIOperation } from "@/types/instructions";
+
+// Everything an operation can draw its arguments from
+export interface OperationInput {
+  image?: string | null; // Current image (MCP URL or data URL)
+  mask?: string | null;
+  prompt?: string | null;
+  scale?: number | null;
+  aspectRatio?: string | null;
+}
+
+interface OperationTarget {
+  tool: string;
+  needs: Array<keyof OperationInput>; // Inputs that must be present to use this tool
+  buildArgs(input: OperationInput): Record<string, unknown>;
+}
+
+// Tools that implement an operation, in order of preference
+export type OperationDefinition = OperationTarget[];
+
+export const OPERATION_REGISTRY: Record<AIOperation, OperationDefinition> = {
+  "remove-background": [
+    { tool: "remove_background", needs: ["image"], buildArgs: ({ image }) => ({ image }) },
+  ],
+  "blur-background": [
+    {
+      tool: "blur_background",
+      needs: ["image"],
+      buildArgs: ({ image, scale }) => ({ image, ...(scale ? { scale } : {}) }),
+    },
+  ],
+  "enhance-image": [
+    { tool: "enhance_image", needs: ["image"], buildArgs: ({ image }) => ({ image }) },
+  ],
+  "increase-resolution": [
+    {
+      tool: "increase_resolution",
+      needs: ["image"],
+      buildArgs: ({ image, scale }) => ({ image, desired_increase: scale || 2 }),
+    },
+  ],
+  "replace-background": [
+    {
+      tool: "generate_background",
+      needs: ["image", "prompt"],
+      buildArgs: ({ image, prompt }) => ({ image, prompt }),
+    },
+  ],
+  "generative-fill": [
+    {
+      tool: "generative_fill",
+      needs: ["image", "mask", "prompt"],
+      buildArgs: ({ image, mask, prompt }) => ({ image, mask, prompt }),
+    },
+  ],
+  "object-eraser": [
+    { tool: "eraser", needs: ["image", "mask"], buildArgs: ({ image, mask }) => ({ image, mask }) },
+    { tool: "erase_foreground", needs: ["image"], buildArgs: ({ image }) => ({ image }) },
+  ],
+  "expand": [
+    {
+      tool: "expand_image",
+      needs: ["image", "aspectRatio"],
+      buildArgs: ({ image, aspectRatio, prompt }) => ({
+        image,
+        target_aspect_ratio: aspectRatio,
+        ...(prompt ? { prompt } : {}),
+      }),
+    },
+  ],
+  "inpainting": [
+    {
+      tool: "generative_fill",
+      needs: ["image", "mask", "prompt"],
+      buildArgs: ({ image, mask, prompt }) => ({ image, mask, prompt }),
+    },
+    { tool: "eraser", needs: ["image", "mask"], buildArgs: ({ image, mask }) => ({ image, mask }) },
+  ],
+};
+
+export function isAIOperation(name: string): name is AIOperation {
+  return Object.prototype.hasOwnProperty.call(OPERATION_REGISTRY, name);
+}
+
+/**
+ * Chat reply for an operation that runs without the agent
+ */
+export function operationReply(operation: string): string {
+  const description = isAIOperation(operation) ? OPERATION_METADATA[operation].description : `Run ${operation}`;
+  return `On it: ${description.charAt(0).toLowerCase()}${description.slice(1)}.`;
+}
+
+/**
+ * Gather operation input from the chat context and the operation's params.
+ * Params win; aliases used by the UI (factor, target_aspect_ratio, ...) are accepted.
+ */
+export function buildOperationInput(
+  context: { preview_image_url?: string | null; mask_data?: string | null } | undefined,
+  params: Record<string, unknown> = {}
+): OperationInput {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const scale = Number(params.scale ?? params.factor ?? params.desired_increase);
+
+  return {
+    image: text(params.image) || context?.preview_image_url || null,
+    mask: text(params.mask) || context?.mask_data || null,
+    prompt: text(params.prompt),
+    scale: Number.isFinite(scale) && scale > 0 ? scale : null,
+    aspectRatio: text(params.aspectRatio) || text(params.aspect_ratio) || text(params.target_aspect_ratio),
+  };
+}
+
+export type OperationResolution =
+  | { ok: true; toolCall: { name: string; args: Record<string, unknown> } }
+  | { ok: false; error: string; missing: Array<keyof OperationInput> };
+
+/**
+ * Pick the first discovered tool for the operation whose inputs are all available
+ */
+export function resolveOperation(operation: string, input: OperationInput, tools: MCPTool[]): OperationResolution {
+  if (!isAIOperation(operation)) {
+    return { ok: false, error: `Unknown operation "${operation}"`, missing: [] };
+  }
+
+  const discovered = new Set(tools.map((tool) => tool.name));
+  const targets = OPERATION_REGISTRY[operation].filter((target) => discovered.has(target.tool));
+  if (targets.length === 0) {
+    const names = OPERATION_REGISTRY[operation].map((target) => target.tool).join(" or ");
+    return { ok: false, error: `Operation "${operation}" needs MCP tool ${names}, which the server doesn't provide`, missing: [] };
+  }
+
+  for (const target of targets) {
+    if (target.needs.every((key) => input[key] !== null && input[key] !== undefined)) {
+      return { ok: true, toolCall: { name: target.tool, args: target.buildArgs(input) } };
+    }
+  }
+
+  const missing = targets[0].needs.filter((key) => input[key] === null || input[key] === undefined);
+  return { ok: false, error: `Operation "${operation}" is missing ${missing.join(", ")}`, missing };
+}
+
+// Placeholder input for checking what each arg builder produces
+const SAMPLE_INPUT: Required<{ [K in keyof OperationInput]: NonNullable<OperationInput[K]> }> = {
+  image: "https://example.com/image.png",
+  mask: "mask",
+  prompt: "prompt",
+  scale: 2,
+  aspectRatio: "16:9",
+};
+
+/**
+ * Check the registry against the discovered tools: every operation needs at
+ * least one tool, and each builder's args must fit that tool's input schema.
+ * Returns human-readable issues (empty when everything matches).
+ */
+export function validateOperationRegistry(tools: MCPTool[]): string[] {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  const issues: string[] = [];
+
+  for (const [operation, targets] of Object.entries(OPERATION_REGISTRY)) {
+    const available = targets.filter((target) => byName.has(target.tool));
+    if (available.length === 0) {
+      issues.push(`${operation}: no discovered tool (expected ${targets.map((t) => t.tool).join(" or ")})`);
+      continue;
+    }
+
+    for (const target of available) {
+      const schema = byName.get(target.tool)!.inputSchema;
+      const args = target.buildArgs(SAMPLE_INPUT);
+      const unknown = Object.keys(args).filter((key) => !(key in (schema.properties || {})));
+      const missing = (schema.required || []).filter((key) => !(key in args));
+
+      if (unknown.length > 0) {
+        issues.push(`${operation} -> ${target.tool}: tool has no parameter ${unknown.join(", ")}`);
+      }
+      if (missing.length > 0) {
+        issues.push(`${operation} -> ${target.tool}: required parameter ${missing.join(", ")} is never set`);
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,265 @@
+/**
+ * Server-side execution plan runner
+ *
+ * The agent executes the first step of a plan itself; the remaining steps run
+ * here. Batch plans run in parallel (bounded by PLAN_CONCURRENCY), pipelines run
+ * in order with "<url_from_step_N>" placeholders replaced by earlier outputs.
+ *
+ * Steps run as generation jobs, so they are not tied to the HTTP request: if
+ * the browser goes away the run keeps going and signed-in users still get
+ * every output saved to their gallery. Aborting the run's signal cancels the
+ * running steps and marks the remaining ones cancelled.
+ */
+
+import { randomUUID } from "crypto";
+import type { ChatEventEmitter } from "./tool-execution";
+import { runToolCallAsJob } from "./job-queue";
+import type {
+  ChatToolResult,
+  ExecutionPlan,
+  PlanRunState,
+  PlanStepState,
+} from "@/types/chat-stream";
+
+const DEFAULT_CONCURRENCY = 3;
+const RUN_RETENTION_MS = 60 * 60 * 1000; // Finished runs stay queryable for an hour
+
+const STEP_PLACEHOLDER = /<url_from_step_(\d+)>/g;
+const PREVIOUS_STEP_PLACEHOLDER = /<url_from_previous_step>/g;
+
+export interface StartPlanRunOptions {
+  completedResults: ChatToolResult[]; // Results of the steps the agent already executed, in order
+  clerkId: string; // Owner; outputs are saved to this user's gallery
+  requester?: string; // Each step counts against this requester's daily quota
+  emit?: ChatEventEmitter;
+  signal?: AbortSignal;
+}
+
+interface PlanRunEntry {
+  clerkId: string;
+  state: PlanRunState;
+  expiresAt: number | null;
+}
+
+const runs = new Map<string, PlanRunEntry>();
+
+export function getPlanConcurrency(): number {
+  const value = Number(process.env.PLAN_CONCURRENCY);
+  return value > 0 ? Math.floor(value) : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Whether a plan has steps left after the ones the agent executed
+ */
+export function hasRemainingSteps(plan: ExecutionPlan | undefined): plan is ExecutionPlan {
+  return !!(plan?.continue && plan.steps && plan.steps.length > plan.current);
+}
+
+/**
+ * Start running the remaining steps of a plan. Resolves when every step has
+ * finished; the run continues even if the caller stops waiting.
+ */
+export function startPlanRun(
+  plan: ExecutionPlan,
+  options: StartPlanRunOptions
+): { state: PlanRunState; done: Promise<PlanRunState> } {
+  evictExpiredRuns();
+
+  const steps = [...(plan.steps || [])].sort((a, b) => a.step - b.step);
+  const state: PlanRunState = {
+    id: randomUUID(),
+    planType: plan.plan_type,
+    description: plan.description,
+    status: "running",
+    startedAt: new Date().toISOString(),
+    steps: steps.map((step, index): PlanStepState => {
+      const base = {
+        step: step.step,
+        tool: step.tool,
+        description: step.description,
+        args: step.args,
+      };
+
+      // Steps the agent already executed
+      if (index < plan.current) {
+        const result = options.completedResults[index];
+        if (!result) return { ...base, status: "skipped", error: "No result from the agent" };
+        return result.error
+          ? { ...base, status: "failed", result, error: result.error }
+          : { ...base, status: "succeeded", result };
+      }
+
+      return { ...base, status: "pending" };
+    }),
+  };
+
+  const entry: PlanRunEntry = { clerkId: options.clerkId, state, expiresAt: null };
+  runs.set(state.id, entry);
+
+  console.log(`[PlanExecutor] Run ${state.id}: ${state.steps.length} steps (${plan.plan_type || "batch"})`);
+
+  const done = executeRun(entry, options)
+    .catch((error) => {
+      console.error(`[PlanExecutor] Run ${state.id} crashed:`, error);
+      for (const step of state.steps) {
+        if (step.status === "pending" || step.status === "running") {
+          step.status = "failed";
+          step.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+    })
+    .then(() => {
+      if (options.signal?.aborted) {
+        cancelRemainingSteps(state, options);
+      }
+      state.status = options.signal?.aborted
+        ? "cancelled"
+        : state.steps.some((s) => s.status === "succeeded") ? "completed" : "failed";
+      state.finishedAt = new Date().toISOString();
+      entry.expiresAt = Date.now() + RUN_RETENTION_MS;
+      console.log(`[PlanExecutor] Run ${state.id} ${state.status}`);
+      return state;
+    });
+
+  return { state, done };
+}
+
+/**
+ * Current state of a run. Runs are only visible to the user who started them.
+ */
+export function getPlanRun(runId: string, clerkId: string): PlanRunState | null {
+  evictExpiredRuns();
+
+  const entry = runs.get(runId);
+  if (!entry) return null;
+  if (entry.clerkId !== clerkId) return null;
+  return entry.state;
+}
+
+async function executeRun(entry: PlanRunEntry, options: StartPlanRunOptions): Promise<void> {
+  const { state } = entry;
+  const pending = state.steps.filter((s) => s.status === "pending");
+
+  if (state.planType === "pipeline") {
+    // Each step may consume the previous step's output
+    for (const step of pending) {
+      if (options.signal?.aborted) return;
+      await runStep(entry, step, options);
+    }
+    return;
+  }
+
+  // Independent steps: bounded worker pool
+  const queue = [...pending];
+  const workerCount = Math.min(getPlanConcurrency(), queue.length);
+  await Promise.all(
+    Array.from({ length: workerCount }, async () => {
+      let step = queue.shift();
+      while (step && !options.signal?.aborted) {
+        await runStep(entry, step, options);
+        step = queue.shift();
+      }
+    })
+  );
+}
+
+async function runStep(entry: PlanRunEntry, step: PlanStepState, options: StartPlanRunOptions): Promise<void> {
+  const { state } = entry;
+  const notify = () => options.emit?.({ type: "plan_step", runId: state.id, step: { ...step } });
+
+  const { value: args, missing } = resolvePlaceholders(step.args, state, step.step);
+  if (missing.length > 0) {
+    step.status = "skipped";
+    step.error = `Depends on step ${missing.join(", ")}, which produced no output`;
+    notify();
+    return;
+  }
+
+  step.args = args as Record<string, unknown>;
+  step.status = "running";
+  notify();
+
+  const result = await runToolCallAsJob(
+    { name: step.tool, args: step.args },
+    {
+      clerkId: entry.clerkId,
+      requester: options.requester,
+      label: step.description,
+      emit: options.emit,
+      signal: options.signal,
+    }
+  );
+
+  if (result.cancelled) {
+    step.status = "cancelled";
+    step.error = result.error;
+  } else if (result.error) {
+    step.status = "failed";
+    step.error = result.error;
+  } else {
+    step.status = "succeeded";
+  }
+
+  step.result = result;
+  notify();
+}
+
+function cancelRemainingSteps(state: PlanRunState, options: StartPlanRunOptions): void {
+  for (const step of state.steps) {
+    if (step.status === "pending" || step.status === "running") {
+      step.status = "cancelled";
+      step.error = "Cancelled";
+      options.emit?.({ type: "plan_step", runId: state.id, step: { ...step } });
+    }
+  }
+}
+
+function stepOutputUrl(state: PlanRunState, stepNumber: number): string | undefined {
+  const step = state.steps.find((s) => s.step === stepNumber);
+  if (step?.status !== "succeeded" || !step.result) return undefined;
+  return step.result.imageUrl || step.result.mediaUrl || undefined;
+}
+
+/**
+ * Replace "<url_from_step_N>" / "<url_from_previous_step>" anywhere in the args.
+ * Returns the step numbers whose output was needed but is missing.
+ */
+function resolvePlaceholders(
+  value: unknown,
+  state: PlanRunState,
+  currentStep: number
+): { value: unknown; missing: number[] } {
+  const missing = new Set<number>();
+
+  const resolve = (input: unknown): unknown => {
+    if (typeof input === "string") {
+      return input
+        .replace(PREVIOUS_STEP_PLACEHOLDER, () => `<url_from_step_${currentStep - 1}>`)
+        .replace(STEP_PLACEHOLDER, (placeholder, n: string) => {
+          const url = stepOutputUrl(state, Number(n));
+          if (!url) {
+            missing.add(Number(n));
+            return placeholder;
+          }
+          return url;
+        });
+    }
+    if (Array.isArray(input)) return input.map(resolve);
+    if (input && typeof input === "object") {
+      return Object.fromEntries(Object.entries(input).map(([key, v]) => [key, resolve(v)]));
+    }
+    return input;
+  };
+
+  const resolved = resolve(value);
+  return { value: resolved, missing: [...missing].sort((a, b) => a - b) };
+}
+
+function evictExpiredRuns(): void {
+  const now = Date.now();
+  for (const [id, entry] of runs) {
+    if (entry.expiresAt !== null && entry.expiresAt <= now) {
+      runs.delete(id);
+    }
+  }
+}
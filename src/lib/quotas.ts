@@ -0,0 +1,204 @@
+/**
+ * Daily generation quotas
+ *
+ * Every MCP tool call run as a generation job counts once; calls that are
+ * rejected or fail are refunded. Signed-in users' counts are stored on their
+ * User document (generationQuota, reset at UTC midnight), and
+ * User.dailyGenerationLimit overrides DAILY_GENERATION_LIMIT.
+ * Anonymous requesters (DAILY_ANONYMOUS_GENERATION_LIMIT), users without a
+ * User document yet (the Clerk webhook hasn't run) and setups without MongoDB
+ * are counted in process memory.
+ */
+
+import { hasEnv } from "./env-init";
+import { connectToDatabase } from "./mongodb";
+import { RateLimitError, isRateLimitError } from "./rate-limit";
+import User from "@/models/User";
+
+export interface GenerationQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string; // Next UTC midnight
+}
+
+interface StoredQuota {
+  dailyGenerationLimit?: number | null;
+  generationQuota?: { day?: string; used?: number };
+}
+
+const DEFAULT_DAILY_LIMIT = 100;
+const DEFAULT_ANONYMOUS_DAILY_LIMIT = 10;
+const MAX_MEMORY_COUNTS = 10000; // Past days' entries are dropped beyond this
+
+const memoryCounts = new Map<string, { day: string; used: number }>();
+
+/**
+ * Count one generation for the requester (see lib/rate-limit requesterKey)
+ * @throws RateLimitError (quota_exceeded) when today's generations are used up
+ */
+export async function consumeGenerationQuota(requester: string): Promise<GenerationQuota> {
+  const day = utcDay();
+  const clerkId = clerkIdOf(requester);
+
+  if (clerkId && hasEnv("MONGODB_URI")) {
+    try {
+      const quota = await consumeUserQuota(clerkId, day);
+      if (quota) return quota;
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+      console.warn(`[Quota] Counting ${requester} in memory:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const limit = clerkId ? getDailyLimit() : getAnonymousDailyLimit();
+  const count = memoryCounts.get(requester);
+  const used = count?.day === day ? count.used : 0;
+  if (used >= limit) {
+    throw quotaExceeded(limit);
+  }
+
+  if (memoryCounts.size > MAX_MEMORY_COUNTS) {
+    for (const [key, entry] of memoryCounts) {
+      if (entry.day !== day) memoryCounts.delete(key);
+    }
+  }
+  memoryCounts.set(requester, { day, used: used + 1 });
+  return toQuota(limit, used + 1);
+}
+
+/**
+ * Give back a generation counted by consumeGenerationQuota, when the call was
+ * rejected or failed. Never goes below zero, and a count from a previous day
+ * is left alone.
+ */
+export async function refundGenerationQuota(requester: string): Promise<void> {
+  const day = utcDay();
+  const clerkId = clerkIdOf(requester);
+
+  const count = memoryCounts.get(requester);
+  if (count?.day === day && count.used > 0) {
+    memoryCounts.set(requester, { day, used: count.used - 1 });
+    return;
+  }
+
+  if (clerkId && hasEnv("MONGODB_URI")) {
+    try {
+      await connectToDatabase();
+      await User.updateOne(
+        { clerkId, "generationQuota.day": day, "generationQuota.used": { $gt: 0 } },
+        { $inc: { "generationQuota.used": -1 } }
+      );
+    } catch (error) {
+      console.warn(`[Quota] Failed to refund ${requester}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Fail before any work is done when the requester has no generations left today
+ * @throws RateLimitError (quota_exceeded)
+ */
+export async function assertGenerationQuotaLeft(requester: string): Promise<void> {
+  const quota = await getGenerationQuota(requester);
+  if (quota.remaining <= 0) {
+    throw quotaExceeded(quota.limit);
+  }
+}
+
+export async function getGenerationQuota(requester: string): Promise<GenerationQuota> {
+  const day = utcDay();
+  const clerkId = clerkIdOf(requester);
+
+  if (clerkId && hasEnv("MONGODB_URI")) {
+    try {
+      await connectToDatabase();
+      const user = (await User.findOne({ clerkId }).lean()) as StoredQuota | null;
+      if (user) {
+        const used = user.generationQuota?.day === day ? user.generationQuota.used || 0 : 0;
+        return toQuota(user.dailyGenerationLimit ?? getDailyLimit(), used);
+      }
+    } catch (error) {
+      console.warn(`[Quota] Reading ${requester} from memory:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const count = memoryCounts.get(requester);
+  return toQuota(clerkId ? getDailyLimit() : getAnonymousDailyLimit(), count?.day === day ? count.used : 0);
+}
+
+// null when the user has no User document
+async function consumeUserQuota(clerkId: string, day: string): Promise<GenerationQuota | null> {
+  await connectToDatabase();
+  const defaultLimit = getDailyLimit();
+
+  // A new day starts from zero
+  await User.updateOne(
+    { clerkId, "generationQuota.day": { $ne: day } },
+    { $set: { generationQuota: { day, used: 0 } } }
+  );
+
+  // Increment only while under the limit, so concurrent requests can't overshoot it
+  const updated = (await User.findOneAndUpdate(
+    {
+      clerkId,
+      $expr: {
+        $lt: [{ $ifNull: ["$generationQuota.used", 0] }, { $ifNull: ["$dailyGenerationLimit", defaultLimit] }],
+      },
+    },
+    { $inc: { "generationQuota.used": 1 } },
+    { new: true, lean: true }
+  )) as StoredQuota | null;
+
+  if (updated) {
+    return toQuota(updated.dailyGenerationLimit ?? defaultLimit, updated.generationQuota?.used || 0);
+  }
+
+  const user = (await User.findOne({ clerkId }).lean()) as StoredQuota | null;
+  if (!user) return null;
+  throw quotaExceeded(user.dailyGenerationLimit ?? defaultLimit);
+}
+
+function quotaExceeded(limit: number): RateLimitError {
+  const retryAfterMs = nextUTCMidnight() - Date.now();
+  const hours = Math.floor(retryAfterMs / 3600000);
+  const minutes = Math.ceil((retryAfterMs % 3600000) / 60000);
+  return new RateLimitError(
+    `You've used all ${limit} generations for today. Your quota resets in ${hours > 0 ? `${hours}h ` : ""}${minutes}m.`,
+    "quota_exceeded",
+    retryAfterMs,
+    limit
+  );
+}
+
+function toQuota(limit: number, used: number): GenerationQuota {
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt: new Date(nextUTCMidnight()).toISOString(),
+  };
+}
+
+function clerkIdOf(requester: string): string | null {
+  return requester.startsWith("user:") ? requester.slice("user:".length) : null;
+}
+
+function getDailyLimit(): number {
+  const value = Number(process.env.DAILY_GENERATION_LIMIT);
+  return hasEnv("DAILY_GENERATION_LIMIT") && value >= 0 ? Math.floor(value) : DEFAULT_DAILY_LIMIT;
+}
+
+function getAnonymousDailyLimit(): number {
+  const value = Number(process.env.DAILY_ANONYMOUS_GENERATION_LIMIT);
+  return hasEnv("DAILY_ANONYMOUS_GENERATION_LIMIT") && value >= 0 ? Math.floor(value) : DEFAULT_ANONYMOUS_DAILY_LIMIT;
+}
+
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function nextUTCMidnight(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
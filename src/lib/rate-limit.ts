@@ -0,0 +1,127 @@
+/**
+ * Per-requester rate limiting
+ *
+ * Each rate-limited route has a token bucket per requester: the Clerk user ID
+ * when signed in, the client IP otherwise. A bucket holds up to one minute's
+ * worth of requests (RATE_LIMIT_<ROUTE>_PER_MINUTE) and refills continuously,
+ * so short bursts are fine but a sustained flood gets 429s with Retry-After.
+ * Buckets live in process memory; each server instance limits on its own.
+ */
+
+import { NextResponse } from "next/server";
+import { hasEnv } from "./env-init";
+
+export type RateLimitedRoute = "chat" | "mcp-tools" | "upload";
+
+// Requests per minute (and burst size); 0 disables the limit
+const ROUTE_LIMITS: Record<RateLimitedRoute, { env: string; perMinute: number }> = {
+  chat: { env: "RATE_LIMIT_CHAT_PER_MINUTE", perMinute: 20 },
+  "mcp-tools": { env: "RATE_LIMIT_MCP_TOOLS_PER_MINUTE", perMinute: 30 },
+  upload: { env: "RATE_LIMIT_UPLOAD_PER_MINUTE", perMinute: 10 },
+};
+
+const MAX_BUCKETS = 10000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+/**
+ * Thrown when a requester is over a route's rate limit or out of daily generations.
+ * Routes answer it with rateLimitResponse (429 + Retry-After).
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly code: "rate_limited" | "quota_exceeded",
+    readonly retryAfterMs: number,
+    readonly limit: number
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof Error && error.name === "RateLimitError";
+}
+
+/**
+ * Who a request counts against: "user:<clerkId>", or "ip:<address>" for anonymous requests
+ */
+export function requesterKey(userId: string | null, request: Request): string {
+  if (userId) return `user:${userId}`;
+
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return `ip:${forwarded || request.headers.get("x-real-ip") || "unknown"}`;
+}
+
+/**
+ * Take a token from the requester's bucket for the route
+ * @throws RateLimitError when the bucket is empty
+ */
+export function enforceRateLimit(route: RateLimitedRoute, requester: string): void {
+  const perMinute = getRouteLimit(route);
+  if (perMinute <= 0) return;
+
+  const key = `${route}:${requester}`;
+  const now = Date.now();
+  const refillPerMs = perMinute / 60000;
+  const bucket = buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+
+  bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+  buckets.delete(key); // Re-insert so the map stays ordered by last use
+  buckets.set(key, bucket);
+
+  if (bucket.tokens < 1) {
+    const retryAfterMs = Math.ceil((1 - bucket.tokens) / refillPerMs);
+    console.warn(`[RateLimit] ${requester} over the ${route} limit (${perMinute}/min)`);
+    throw new RateLimitError(
+      `Too many requests. Please wait ${Math.ceil(retryAfterMs / 1000)}s and try again.`,
+      "rate_limited",
+      retryAfterMs,
+      perMinute
+    );
+  }
+
+  bucket.tokens -= 1;
+  evictIdleBuckets();
+}
+
+/**
+ * 429 response with Retry-After (whole seconds) and the limit that was hit
+ */
+export function rateLimitResponse(error: RateLimitError): NextResponse {
+  const retryAfter = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+  return NextResponse.json(
+    { error: error.message, code: error.code, retryAfter, limit: error.limit },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(retryAfter),
+        "X-RateLimit-Limit": String(error.limit),
+      },
+    }
+  );
+}
+
+function getRouteLimit(route: RateLimitedRoute): number {
+  const { env, perMinute } = ROUTE_LIMITS[route];
+  const value = hasEnv(env) ? Number(process.env[env]) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : perMinute;
+}
+
+// Oldest-used first; a bucket idle for a minute is full again and can be dropped.
+// Buckets still in use are kept even past MAX_BUCKETS, so no one's limit resets.
+function evictIdleBuckets(): void {
+  if (buckets.size <= MAX_BUCKETS) return;
+  const cutoff = Date.now() - 60000;
+  for (const [key, bucket] of buckets) {
+    if (bucket.updatedAt > cutoff) break;
+    buckets.delete(key);
+  }
+}
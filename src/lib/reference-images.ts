@@ -0,0 +1,135 @@
+/**
+ * Reference image registration
+ *
+ * Decides what a stored upload is passed to tools as (the "image" argument of
+ * Priority 5 reference generation). Configured explicitly, never guessed:
+ *
+ *   REFERENCE_IMAGE_REGISTRATION  url (default): the reference is the upload's
+ *                                 stable asset URL; /api/chat turns it into a
+ *                                 signed URL the MCP server can fetch
+ *                                 mcp: register the image with an MCP tool and
+ *                                 use the ID it returns
+ *   REFERENCE_IMAGE_TOOL          tool to call in mcp mode (registry name, e.g.
+ *                                 assets__upload_image)
+ *   REFERENCE_IMAGE_TOOL_ARG      argument receiving the image (default image)
+ *   REFERENCE_IMAGE_TOOL_INPUT    url (signed URL, default) | base64 (data URL)
+ *   REFERENCE_IMAGE_ID_FIELD      result field holding the ID (default: id,
+ *                                 reference_id, asset_id, image_id, then a URL)
+ */
+
+import { getMCPClient, type MCPToolResult } from "./mcp-client";
+import { parseMCPResult } from "./mcp-result";
+import { hasEnv } from "./env-init";
+
+export type ReferenceSource = "url" | "mcp";
+
+export interface ReferenceImage {
+  id: string; // Value for the tools' image argument
+  source: ReferenceSource;
+  tool?: string; // Tool that registered it (mcp)
+}
+
+export interface ReferenceImageInput {
+  assetUrl: string; // Stable /api/assets URL
+  signedUrl: string; // Absolute signed URL of the same file
+  body: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Thrown when the configured registration tool is missing, fails, or returns no ID
+ */
+export class ReferenceRegistrationError extends Error {
+  constructor(message: string, readonly tool?: string) {
+    super(message);
+    this.name = "ReferenceRegistrationError";
+  }
+}
+
+export function isReferenceRegistrationError(error: unknown): error is ReferenceRegistrationError {
+  return error instanceof Error && error.name === "ReferenceRegistrationError";
+}
+
+const DEFAULT_ID_FIELDS = ["id", "reference_id", "referenceId", "asset_id", "assetId", "image_id", "imageId"];
+const REGISTRATION_TIMEOUT_MS = 30000;
+
+export function getReferenceRegistrationMode(): ReferenceSource {
+  return process.env.REFERENCE_IMAGE_REGISTRATION === "mcp" ? "mcp" : "url";
+}
+
+/**
+ * Register an uploaded image as a reference
+ * @throws ReferenceRegistrationError (mcp mode only)
+ */
+export async function registerReferenceImage(
+  input: ReferenceImageInput,
+  signal?: AbortSignal
+): Promise<ReferenceImage> {
+  if (getReferenceRegistrationMode() === "url") {
+    return { id: input.assetUrl, source: "url" };
+  }
+
+  const toolName = process.env.REFERENCE_IMAGE_TOOL;
+  if (!toolName) {
+    throw new ReferenceRegistrationError("REFERENCE_IMAGE_REGISTRATION=mcp needs REFERENCE_IMAGE_TOOL");
+  }
+
+  const mcpClient = getMCPClient();
+  if (!mcpClient.isConnected()) {
+    await mcpClient.connect();
+  }
+  if (!mcpClient.getTools().some((tool) => tool.name === toolName)) {
+    throw new ReferenceRegistrationError(`No connected MCP server offers the tool "${toolName}"`, toolName);
+  }
+
+  const argName = hasEnv("REFERENCE_IMAGE_TOOL_ARG") ? process.env.REFERENCE_IMAGE_TOOL_ARG! : "image";
+  const image =
+    process.env.REFERENCE_IMAGE_TOOL_INPUT === "base64"
+      ? `data:${input.mimeType};base64,${input.body.toString("base64")}`
+      : input.signedUrl;
+
+  let result: MCPToolResult;
+  try {
+    result = await mcpClient.callTool(
+      toolName,
+      { [argName]: image },
+      { retryPolicy: { timeoutMs: REGISTRATION_TIMEOUT_MS }, signal }
+    );
+  } catch (error) {
+    throw new ReferenceRegistrationError(
+      `Registering the reference image with ${toolName} failed: ${error instanceof Error ? error.message : error}`,
+      toolName
+    );
+  }
+
+  const id = extractReferenceId(result);
+  if (!id) {
+    throw new ReferenceRegistrationError(`${toolName} returned no reference ID`, toolName);
+  }
+
+  console.log(`[Reference] Registered ${input.assetUrl} with ${toolName} as ${id}`);
+  return { id, source: "mcp", tool: toolName };
+}
+
+// ID from a JSON text item (configured field, then the usual names), else the returned media URL
+function extractReferenceId(result: MCPToolResult): string | null {
+  if ((result as { isError?: boolean }).isError) return null;
+
+  const fields = hasEnv("REFERENCE_IMAGE_ID_FIELD") ? [process.env.REFERENCE_IMAGE_ID_FIELD!] : DEFAULT_ID_FIELDS;
+  for (const item of result.content || []) {
+    if (item.type !== "text" || !item.text) continue;
+    try {
+      const parsed = JSON.parse(item.text) as Record<string, unknown>;
+      const value = fields.map((field) => parsed?.[field]).find((v) => typeof v === "string" || typeof v === "number");
+      if (value !== undefined) return String(value);
+    } catch {
+      // Not JSON
+    }
+  }
+
+  const media = parseMCPResult(result);
+  if (media.kind === "image" || media.kind === "video") {
+    return media.output.remoteUrl || null;
+  }
+  return null;
+}
@@ -0,0 +1,162 @@
+/**
+ * Reference images → tool parameters
+ *
+ * The prompt box sends an ordered list of reference images, each with a role
+ * (subject, style, composition) and a weight. Rather than trusting the agent
+ * to wire them up, reference generation calls get them mapped onto whichever
+ * params the tool's input schema declares, per role in order of preference
+ * (REFERENCE_SLOTS). Array params collect several references of a role;
+ * references no declared param accepts are returned as unmapped.
+ */
+
+import type { MCPTool } from "./mcp-client";
+import type { ToolCall } from "./tool-execution";
+import {
+  DEFAULT_REFERENCE_WEIGHT,
+  REFERENCE_ROLES,
+  type ContextReferenceImage,
+  type ReferenceRole,
+} from "@/types/references";
+
+interface ReferenceSlot {
+  image: string; // Param receiving the image
+  weight?: string; // Param receiving the weight, scaled to its schema's minimum/maximum
+  fixed?: Record<string, unknown>; // Args the slot needs alongside the image
+}
+
+// Bria's params first, then common names used by other image servers
+const REFERENCE_SLOTS: Record<ReferenceRole, ReferenceSlot[]> = {
+  subject: [
+    { image: "subject_image", weight: "subject_strength" },
+    { image: "image_prompt_urls", weight: "image_prompt_scale", fixed: { image_prompt_mode: "regular" } },
+    { image: "reference_images", weight: "reference_weights" },
+    { image: "image" },
+  ],
+  style: [
+    { image: "style_image", weight: "style_strength" },
+    { image: "style_reference", weight: "style_weight" },
+    { image: "image_prompt_urls", weight: "image_prompt_scale", fixed: { image_prompt_mode: "style_only" } },
+  ],
+  composition: [
+    { image: "structure_image_url", weight: "structure_ref_influence" },
+    { image: "composition_image", weight: "composition_strength" },
+    {
+      image: "guidance_method_1_image_url",
+      weight: "guidance_method_1_scale",
+      fixed: { guidance_method_1: "controlnet_canny" },
+    },
+  ],
+};
+
+export interface ReferenceMapping {
+  toolCall: ToolCall;
+  unmapped: ContextReferenceImage[];
+}
+
+/**
+ * context.reference_image as a list: accepts the list, or a single image
+ * (older clients), which becomes a subject reference
+ */
+export function normalizeReferenceImages(value: unknown): ContextReferenceImage[] {
+  if (typeof value === "string") {
+    return value.trim() ? [{ image: value, role: "subject", weight: 1 }] : [];
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): ContextReferenceImage[] => {
+    if (!entry || typeof entry !== "object" || typeof entry.image !== "string" || !entry.image) return [];
+    const role = REFERENCE_ROLES.includes(entry.role) ? (entry.role as ReferenceRole) : "subject";
+    const weight = Number(entry.weight);
+    return [{ image: entry.image, role, weight: Number.isFinite(weight) ? clamp(weight) : DEFAULT_REFERENCE_WEIGHT }];
+  });
+}
+
+/**
+ * Put the references into the call's args according to the tool's schema.
+ * Reference images the agent already placed in args are removed first, so
+ * each reference ends up only where its role says.
+ */
+export function applyReferenceImages(
+  toolCall: ToolCall,
+  references: ContextReferenceImage[],
+  tools: MCPTool[]
+): ReferenceMapping {
+  const properties = tools.find((tool) => tool.name === toolCall.name)?.inputSchema.properties || {};
+  const referenced = new Set(references.map((reference) => reference.image));
+  const args = Object.fromEntries(
+    Object.entries(toolCall.args || {}).filter(([, value]) => !(typeof value === "string" && referenced.has(value)))
+  );
+
+  const filled = new Set<string>();
+  const unmapped: ContextReferenceImage[] = [];
+
+  for (const reference of references) {
+    // A filled array param takes more references, unless its mode differs (image_prompt_mode is one for all)
+    const slot = REFERENCE_SLOTS[reference.role].find(
+      (candidate) =>
+        candidate.image in properties &&
+        (!filled.has(candidate.image) ||
+          (isArrayParam(properties[candidate.image]) &&
+            Object.entries(candidate.fixed || {}).every(([name, value]) => !(name in properties) || args[name] === value)))
+    );
+    if (!slot) {
+      unmapped.push(reference);
+      continue;
+    }
+
+    const weightSchema = slot.weight ? properties[slot.weight] : undefined;
+    if (isArrayParam(properties[slot.image])) {
+      args[slot.image] = [...((filled.has(slot.image) && (args[slot.image] as unknown[])) || []), reference.image];
+      if (weightSchema) {
+        const weights = (filled.has(slot.image) && (args[slot.weight!] as unknown[])) || [];
+        args[slot.weight!] = isArrayParam(weightSchema)
+          ? [...weights, scaleWeight(reference.weight, weightSchema.items)]
+          : scaleWeight(reference.weight, weightSchema); // One weight for all: the last reference's
+      }
+    } else {
+      args[slot.image] = reference.image;
+      if (weightSchema) {
+        args[slot.weight!] = scaleWeight(reference.weight, weightSchema);
+      }
+    }
+
+    for (const [name, value] of Object.entries(slot.fixed || {})) {
+      if (name in properties) args[name] = value;
+    }
+    filled.add(slot.image);
+  }
+
+  return { toolCall: { ...toolCall, args }, unmapped };
+}
+
+/**
+ * "The style reference" / "2 composition references", for telling the user what was left out
+ */
+export function describeReferences(references: ContextReferenceImage[]): string {
+  const counts = new Map<ReferenceRole, number>();
+  for (const reference of references) {
+    counts.set(reference.role, (counts.get(reference.role) || 0) + 1);
+  }
+  return [...counts]
+    .map(([role, count]) => (count === 1 ? `the ${role} reference` : `${count} ${role} references`))
+    .join(" and ");
+}
+
+function isArrayParam(schema: unknown): boolean {
+  return !!schema && typeof schema === "object" && (schema as { type?: unknown }).type === "array";
+}
+
+// 0..1 onto the param's declared range (0..1 when it declares none)
+function scaleWeight(weight: number, schema: unknown): number {
+  const { minimum = 0, maximum = 1, type } = (schema && typeof schema === "object" ? schema : {}) as {
+    minimum?: number;
+    maximum?: number;
+    type?: string;
+  };
+  const value = minimum + clamp(weight) * (maximum - minimum);
+  return type === "integer" ? Math.round(value) : Math.round(value * 100) / 100;
+}
+
+function clamp(weight: number): number {
+  return Math.min(1, Math.max(0, weight));
+}
@@ -0,0 +1,240 @@
+/**
+ * Retry policy for MCP tool calls
+ *
+ * Failures are classified from the HTTP status (transport errors, or the
+ * upstream status a Bria tool reports in its JSON-RPC error), the JSON-RPC
+ * error code and, as a last resort, the message. Only transient classes are
+ * retried: a moderation rejection or invalid arguments would fail again.
+ *
+ * Policies are resolved per tool: built-in defaults, then rules for slow tools
+ * (video generation gets a long timeout and no retry), then MCP_RETRY_POLICIES,
+ * a JSON object keyed by tool name ("*" wildcards allowed):
+ *
+ *   {"text_to_image": {"maxRetries": 3}, "*video*": {"timeoutMs": 900000}}
+ */
+
+import { hasEnv } from "./env-init";
+
+export type ErrorClass =
+  | "validation" // Bad arguments or request (400, JSON-RPC -32602/-32600)
+  | "moderation" // Content moderation rejected the input (422)
+  | "auth" // Rejected credentials (401/403)
+  | "not_found" // Unknown tool or resource (404, JSON-RPC -32601)
+  | "rate_limited" // 429; Retry-After is honored
+  | "timeout" // The request timed out (408, JSON-RPC -32001)
+  | "server_error" // 5xx or JSON-RPC internal error
+  | "network" // Connection refused/reset, dropped stream
+  | "session_expired" // The server forgot our MCP session
+  | "circuit_open" // The server's circuit breaker is open; fail fast
+  | "unknown";
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // First backoff delay, doubled on each retry
+  maxDelayMs: number; // Backoff cap
+  jitter: number; // Random share of the delay (0.2 = +-20%)
+  timeoutMs: number; // Per attempt; restarted by progress notifications
+  maxTotalTimeoutMs?: number; // Per attempt, progress or not
+  maxRetryAfterMs: number; // A longer Retry-After ends retrying instead of waiting
+  retryOn: ErrorClass[];
+}
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  retryable: boolean;
+  status?: number; // HTTP status, from the transport or the upstream API
+  code?: number; // JSON-RPC error code
+  retryAfterMs?: number;
+}
+
+// One attempt of a tool call, reported through CallToolOptions.onAttempt and kept on the tool result
+export interface ToolCallAttempt {
+  attempt: number; // 1-based
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+  errorClass?: ErrorClass;
+  retryInMs?: number; // Delay before the next attempt, when there is one
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  jitter: 0.2,
+  timeoutMs: 60000,
+  maxRetryAfterMs: 60000,
+  retryOn: ["rate_limited", "timeout", "server_error", "network", "session_expired", "unknown"],
+};
+
+// Built-in rules, applied in order before MCP_RETRY_POLICIES
+const TOOL_POLICY_RULES: Array<{ pattern: string; policy: Partial<RetryPolicy> }> = [
+  // Video jobs run for minutes and a retry would start (and bill) a new render
+  { pattern: "*video*", policy: { maxRetries: 0, timeoutMs: 10 * 60 * 1000, maxTotalTimeoutMs: 30 * 60 * 1000 } },
+];
+
+// JSON-RPC codes (MCP SDK ErrorCode) and what they mean for a retry
+const JSON_RPC_CLASSES: Record<number, ErrorClass> = {
+  [-32700]: "validation", // Parse error
+  [-32600]: "validation", // Invalid request
+  [-32601]: "not_found", // Method not found
+  [-32602]: "validation", // Invalid params
+  [-32603]: "server_error", // Internal error
+  [-32000]: "network", // Connection closed
+  [-32001]: "timeout", // Request timeout
+};
+
+const MESSAGE_CLASSES: Array<[RegExp, ErrorClass]> = [
+  [/content moderation|flagged/i, "moderation"],
+  [/rate limit|too many requests/i, "rate_limited"],
+  [/timed? ?out/i, "timeout"],
+  [/^MCP (stream|transport)|fetch failed|ECONNRESET|ECONNREFUSED|socket hang up|network/i, "network"],
+  [/unauthori[sz]ed|forbidden/i, "auth"],
+];
+
+let envRules: Array<{ pattern: string; policy: Partial<RetryPolicy> }> | undefined;
+
+/**
+ * Effective policy for a tool (by its registry name), with per-call overrides applied last
+ */
+export function getRetryPolicy(toolName: string, overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  let policy = { ...DEFAULT_RETRY_POLICY };
+  for (const rule of [...TOOL_POLICY_RULES, ...loadEnvRules()]) {
+    if (matchesToolPattern(rule.pattern, toolName)) {
+      policy = { ...policy, ...rule.policy };
+    }
+  }
+  return { ...policy, ...overrides };
+}
+
+/**
+ * Classify a failed call and decide whether the policy retries it
+ */
+export function classifyError(error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY): ClassifiedError {
+  const errorClass = errorClassOf(error);
+  const details = errorDetails(error);
+
+  return {
+    errorClass,
+    retryable:
+      policy.retryOn.includes(errorClass) &&
+      (details.retryAfterMs === undefined || details.retryAfterMs <= policy.maxRetryAfterMs),
+    ...details,
+  };
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential backoff with jitter,
+ * or the server's Retry-After when it asked for one
+ */
+export function retryDelayMs(policy: RetryPolicy, retry: number, classified?: ClassifiedError): number {
+  if (classified?.retryAfterMs !== undefined) {
+    return classified.retryAfterMs;
+  }
+
+  const base = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Parse a Retry-After value: delay in seconds, or an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.max(0, value * 1000);
+  if (typeof value !== "string" || !value.trim()) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return Math.round(Number(value) * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function errorClassOf(error: unknown): ErrorClass {
+  if (!(error instanceof Error)) return "unknown";
+
+  switch (error.name) {
+    case "CircuitOpenError":
+      return "circuit_open";
+    case "ToolArgsValidationError":
+      return "validation";
+  }
+
+  const { status, code } = errorDetails(error);
+
+  // The message wins for moderation: Bria reports it as a generic JSON-RPC error
+  if (/content moderation/i.test(error.message)) return "moderation";
+
+  if (status !== undefined) {
+    if (status === 404 && /session expired/i.test(error.message)) return "session_expired";
+    if (status === 422) return "moderation";
+    if (status === 429) return "rate_limited";
+    if (status === 408) return "timeout";
+    if (status === 401 || status === 403) return "auth";
+    if (status === 404) return "not_found";
+    if (status >= 500) return "server_error";
+    if (status >= 400) return "validation";
+  }
+
+  if (code !== undefined && JSON_RPC_CLASSES[code]) {
+    return JSON_RPC_CLASSES[code];
+  }
+
+  if (error instanceof TypeError) return "network"; // fetch() network failure
+  return MESSAGE_CLASSES.find(([pattern]) => pattern.test(error.message))?.[1] ?? "unknown";
+}
+
+// HTTP status, JSON-RPC code and Retry-After, wherever the error carries them
+function errorDetails(error: unknown): Pick<ClassifiedError, "status" | "code" | "retryAfterMs"> {
+  if (!(error instanceof Error)) return {};
+
+  const { status, code, data, retryAfterMs } = error as Error & {
+    status?: unknown;
+    code?: unknown;
+    data?: unknown;
+    retryAfterMs?: unknown;
+  };
+  const payload = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const headers = (payload.headers && typeof payload.headers === "object" ? payload.headers : {}) as Record<string, unknown>;
+
+  // MCPHTTPError has status; tool errors from Bria put the upstream status in data or the message.
+  // JSON-RPC codes are negative, so a code in the HTTP range is a status too.
+  const messageStatus = error.message.match(/\b(?:status|HTTP)[:\s]+(\d{3})\b/i)?.[1];
+  const httpStatus = [status, code, payload.status, payload.statusCode, messageStatus]
+    .map(Number)
+    .find((value) => Number.isInteger(value) && value >= 100 && value < 600);
+
+  return {
+    status: httpStatus,
+    code: typeof code === "number" && code < 0 ? code : undefined,
+    retryAfterMs:
+      typeof retryAfterMs === "number"
+        ? retryAfterMs
+        : parseRetryAfter(payload.retryAfter ?? payload.retry_after ?? headers["retry-after"]),
+  };
+}
+
+function matchesToolPattern(pattern: string, toolName: string): boolean {
+  if (!pattern.includes("*")) return pattern === toolName;
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`, "i").test(toolName);
+}
+
+function loadEnvRules(): Array<{ pattern: string; policy: Partial<RetryPolicy> }> {
+  if (envRules) return envRules;
+  envRules = [];
+  if (!hasEnv("MCP_RETRY_POLICIES")) return envRules;
+
+  try {
+    const parsed = JSON.parse(process.env.MCP_RETRY_POLICIES!);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object keyed by tool name");
+    }
+    envRules = Object.entries(parsed as Record<string, Partial<RetryPolicy>>).map(([pattern, policy]) => ({
+      pattern,
+      policy,
+    }));
+  } catch (error) {
+    console.error(`[Retry] Ignoring invalid MCP_RETRY_POLICIES:`, error instanceof Error ? error.message : error);
+  }
+  return envRules;
+}
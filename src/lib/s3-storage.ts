@@ -0,0 +1,197 @@
+/**
+ * S3-compatible StorageProvider
+ *
+ * Talks to the S3 REST API directly with Signature Version 4, so it works with
+ * AWS S3 and compatible services (MinIO for local development, R2, ...):
+ *
+ *   STORAGE_S3_BUCKET             bucket name (required)
+ *   STORAGE_S3_REGION             default us-east-1
+ *   STORAGE_S3_ENDPOINT           e.g. http://localhost:9000 for MinIO; AWS when unset
+ *   STORAGE_S3_ACCESS_KEY_ID / STORAGE_S3_SECRET_ACCESS_KEY
+ *   STORAGE_S3_FORCE_PATH_STYLE   "true" for <endpoint>/<bucket>/<key> URLs
+ *                                 (default when STORAGE_S3_ENDPOINT is set)
+ *
+ * Signed URLs are presigned GET URLs; the bucket itself can stay private.
+ */
+
+import { createHash, createHmac } from "crypto";
+import { hasEnv } from "./env-init";
+import { DEFAULT_SIGNED_URL_TTL_SECONDS, isStorageKey, type StorageProvider, type StoredObject } from "./storage";
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const REQUEST_TIMEOUT_MS = 60000;
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3" as const;
+  private readonly config: S3Config;
+
+  constructor(config: Partial<S3Config> = {}) {
+    const endpoint = config.endpoint ?? process.env.STORAGE_S3_ENDPOINT;
+    const region = config.region || process.env.STORAGE_S3_REGION || "us-east-1";
+
+    this.config = {
+      bucket: config.bucket || process.env.STORAGE_S3_BUCKET || "",
+      region,
+      endpoint: (endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ""),
+      accessKeyId: config.accessKeyId || process.env.STORAGE_S3_ACCESS_KEY_ID || "",
+      secretAccessKey: config.secretAccessKey || process.env.STORAGE_S3_SECRET_ACCESS_KEY || "",
+      forcePathStyle:
+        config.forcePathStyle ??
+        (hasEnv("STORAGE_S3_FORCE_PATH_STYLE") ? process.env.STORAGE_S3_FORCE_PATH_STYLE === "true" : !!endpoint),
+    };
+
+    if (!this.config.bucket || !this.config.accessKeyId || !this.config.secretAccessKey) {
+      throw new Error(
+        "STORAGE_PROVIDER=s3 needs STORAGE_S3_BUCKET, STORAGE_S3_ACCESS_KEY_ID and STORAGE_S3_SECRET_ACCESS_KEY"
+      );
+    }
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    if (!(await this.exists(key))) {
+      const response = await this.request("PUT", key, body, { "content-type": contentType });
+      await assertOk(response, `Storing ${key}`);
+    }
+    return { key, contentType, size: body.length };
+  }
+
+  async get(key: string): Promise<{ body: Buffer; contentType: string } | null> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) return null;
+    await assertOk(response, `Reading ${key}`);
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") || "application/octet-stream",
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request("HEAD", key);
+    if (response.status === 404) return false;
+    await assertOk(response, `Checking ${key}`);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (response.status !== 404) {
+      await assertOk(response, `Deleting ${key}`);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+    const { url, host, path } = this.objectUrl(key);
+    const { amzDate, scope, signingKey } = this.credentials(new Date());
+
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.config.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(Math.min(expiresInSeconds, 604800)), // SigV4 maximum: 7 days
+      "X-Amz-SignedHeaders": "host",
+    };
+    const canonicalQuery = canonicalQueryString(query);
+    const canonicalRequest = ["GET", path, canonicalQuery, `host:${host}\n`, "host", UNSIGNED_PAYLOAD].join("\n");
+    const signature = hmac(signingKey, stringToSign(amzDate, scope, canonicalRequest)).toString("hex");
+
+    return `${url}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async request(
+    method: "GET" | "HEAD" | "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { url, host, path } = this.objectUrl(key);
+    const { amzDate, scope, signingKey } = this.credentials(new Date());
+    const payloadHash = sha256Hex(body ?? "");
+
+    // Host is signed but set by fetch itself
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signed: Record<string, string> = { ...headers, host };
+    const names = Object.keys(signed).sort();
+    const canonicalHeaders = names.map((name) => `${name}:${signed[name].trim()}\n`).join("");
+    const signedHeaders = names.join(";");
+    const canonicalRequest = [method, path, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+    const signature = hmac(signingKey, stringToSign(amzDate, scope, canonicalRequest)).toString("hex");
+
+    return fetch(url, {
+      method,
+      body: body ? new Uint8Array(body) : undefined,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
+
+  private objectUrl(key: string): { url: string; host: string; path: string } {
+    if (!isStorageKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key.split("/").map(encodeRFC3986).join("/");
+    const host = this.config.forcePathStyle ? endpoint.host : `${this.config.bucket}.${endpoint.host}`;
+    const path = this.config.forcePathStyle
+      ? `${endpoint.pathname.replace(/\/+$/, "")}/${encodeRFC3986(this.config.bucket)}/${encodedKey}`
+      : `/${encodedKey}`;
+
+    return { url: `${endpoint.protocol}//${host}${path}`, host, path };
+  }
+
+  private credentials(now: Date): { amzDate: string; scope: string; signingKey: Buffer } {
+    const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, ""); // 20240101T000000Z
+    const day = amzDate.slice(0, 8);
+    const scope = `${day}/${this.config.region}/s3/aws4_request`;
+
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, day);
+    const signingKey = hmac(hmac(hmac(dateKey, this.config.region), "s3"), "aws4_request");
+    return { amzDate, scope, signingKey };
+  }
+}
+
+async function assertOk(response: Response, action: string): Promise<void> {
+  if (response.ok) return;
+  const detail = response.status === 404 || !response.body ? "" : (await response.text()).slice(0, 300);
+  throw new Error(`${action} failed with status ${response.status}${detail ? `: ${detail}` : ""}`);
+}
+
+function stringToSign(amzDate: string, scope: string, canonicalRequest: string): string {
+  return ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+}
+
+function canonicalQueryString(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((name) => `${encodeRFC3986(name)}=${encodeRFC3986(query[name])}`)
+    .join("&");
+}
+
+// encodeURIComponent leaves !'()* alone; SigV4 wants them encoded
+function encodeRFC3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
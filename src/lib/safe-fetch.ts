@@ -0,0 +1,130 @@
+/**
+ * Fetching URLs that came from outside the server
+ *
+ * Media URLs returned by tools (or sent by clients) are fetched to copy them
+ * into storage, so they must not reach the server's own network: loopback,
+ * private, link-local (cloud metadata at 169.254.169.254) and other reserved
+ * addresses are refused. The check runs in the socket's DNS lookup, so a host
+ * can't pass it and then resolve elsewhere, and again for every redirect.
+ * Bodies are read up to a size limit instead of trusting Content-Length.
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// DNS lookup for sockets that fails when the host resolves to a non-public address
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * GET a public http(s) URL, following redirects, and return its body
+ * @throws Error for non-public hosts, HTTP errors, or bodies over maxBytes
+ */
+export async function fetchPublicUrl(
+  url: string,
+  options: { maxBytes: number; timeoutMs: number }
+): Promise<Buffer> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      throw new Error(`Refusing to fetch ${target.protocol} URLs`);
+    }
+    // IP literals skip the DNS lookup, so check them here
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(host) && !isPublicAddress(host)) {
+      throw new Error(`Refusing to fetch from non-public address ${host}`);
+    }
+
+    const response = await get(target, signal);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects fetching ${url}`);
+      target = new URL(response.headers.location, target);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Fetching ${url} failed with status ${status}`);
+    }
+
+    const length = Number(response.headers["content-length"]);
+    if (length > options.maxBytes) {
+      response.destroy();
+      throw new Error(`Media is too large to store (${length} bytes)`);
+    }
+    return readBody(response, options.maxBytes);
+  }
+}
+
+function get(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { lookup: publicOnlyLookup, signal }, resolve);
+    request.on("error", reject);
+  });
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new Error(`Media is too large to store (over ${maxBytes} bytes)`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,111 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Shared by API routes (encoding) and the browser (decoding a fetch() body).
+ * Events are framed as "event: <type>\ndata: <json>\n\n".
+ */
+
+const encoder = new TextEncoder();
+
+export function encodeSSE<T extends { type: string }>(event: T): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Comment line for streams that may go quiet for minutes (video jobs), so
+// proxies don't close them as idle; readers skip comments
+export const SSE_KEEPALIVE = encoder.encode(": keepalive\n\n");
+export const SSE_KEEPALIVE_INTERVAL_MS = 15000;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+} as const;
+
+// One event as framed on the wire
+export interface SSEMessage {
+  event?: string;
+  data: string;
+  id?: string;
+  retry?: number; // Reconnection delay requested by the server (ms)
+}
+
+/**
+ * Read an SSE response body incrementally, invoking onEvent for each parsed event.
+ * Resolves when the stream ends.
+ */
+export async function readSSEStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> {
+  await readSSEMessages(body, ({ data }) => {
+    if (!data) return;
+
+    try {
+      onEvent(JSON.parse(data) as T);
+    } catch (e) {
+      console.warn("Failed to parse SSE event:", data.substring(0, 100), e);
+    }
+  });
+}
+
+/**
+ * Read raw SSE events (event/data/id/retry fields) from a body as they arrive.
+ * Comment lines are skipped; events without data are still reported when they carry an id.
+ * Resolves when the stream ends.
+ */
+export async function readSSEMessages(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    const message: SSEMessage = { data: "" };
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+      if (field === "data") data.push(value);
+      else if (field === "event") message.event = value;
+      else if (field === "id") message.id = value;
+      else if (field === "retry" && /^\d+$/.test(value)) message.retry = Number(value);
+    }
+
+    message.data = data.join("\n");
+    if (message.data || message.id !== undefined || message.retry !== undefined) {
+      onMessage(message);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+        dispatch(block);
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
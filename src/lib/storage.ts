@@ -0,0 +1,256 @@
+/**
+ * Durable asset storage
+ *
+ * Uploads and generated outputs are stored through a StorageProvider under
+ * content-hash keys ("<prefix>/<sha256>.<ext>"), so the same bytes are stored
+ * once and a key never changes meaning. The content type is sniffed from the
+ * bytes, not taken from the client or the file name.
+ *
+ *   STORAGE_PROVIDER  local (default, files under STORAGE_LOCAL_DIR) |
+ *                     s3 (any S3-compatible service: AWS, MinIO, R2, ...)
+ *
+ * The app refers to assets by their stable URL (/api/assets/<key>). That route
+ * answers with a short-lived signed URL, so stored links never expire while
+ * the signed ones handed to browsers and MCP tools do.
+ */
+
+import { createHash } from "crypto";
+import { hasEnv } from "./env-init";
+import { LocalStorageProvider } from "./local-storage";
+import { S3StorageProvider } from "./s3-storage";
+import { fetchPublicUrl } from "./safe-fetch";
+
+export type StorageProviderName = "local" | "s3";
+
+export interface StoredObject {
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  // Store bytes under key; a key that already exists is left as is (keys are content hashes)
+  put(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+  // null when the key doesn't exist
+  get(key: string): Promise<{ body: Buffer; contentType: string } | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // URL that reads the object without signing in, valid for expiresInSeconds
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+export const ASSET_URL_PREFIX = "/api/assets/";
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 3600;
+
+const MAX_MIRROR_BYTES = 200 * 1024 * 1024;
+const MIRROR_TIMEOUT_MS = 60000;
+// Hosts (and their subdomains) that serve generated media
+const DEFAULT_MEDIA_HOSTS = ["bria.ai", "bria-api.com"];
+
+// Sniffed content type -> key extension
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/heic": "heic",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+const KEY_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*\/[a-f0-9]{64}\.[a-z0-9]+$/;
+
+let storageInstance: StorageProvider | null = null;
+
+/**
+ * Provider selected by STORAGE_PROVIDER (created once per process)
+ */
+export function getStorage(): StorageProvider {
+  if (storageInstance) return storageInstance;
+
+  const name = (hasEnv("STORAGE_PROVIDER") ? process.env.STORAGE_PROVIDER : "local") as StorageProviderName;
+  switch (name) {
+    case "local":
+      storageInstance = new LocalStorageProvider();
+      break;
+    case "s3":
+      storageInstance = new S3StorageProvider();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${name}" (expected local or s3)`);
+  }
+
+  console.log(`[Storage] Using ${storageInstance.name} storage`);
+  return storageInstance;
+}
+
+/**
+ * Content type from the file's magic bytes; null when it isn't a known image or video format
+ */
+export function sniffMimeType(bytes: Buffer): string | null {
+  const ascii = (start: number, end: number) => bytes.subarray(start, end).toString("latin1");
+
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) {
+    return "image/png";
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return "image/gif";
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (bytes.length >= 4 && bytes.readUInt32BE(0) === 0x1a45dfa3) {
+    return "video/webm"; // EBML header (WebM/Matroska)
+  }
+
+  // ISO base media file: [size]["ftyp"][major brand]...
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"].includes(brand)) return "image/heic";
+    if (brand === "qt  ") return "video/quicktime";
+    return "video/mp4";
+  }
+
+  return null;
+}
+
+/**
+ * Content-hash key for bytes of a sniffed content type, e.g. "uploads/<sha256>.png"
+ */
+export function storageKey(prefix: string, body: Buffer, contentType: string): string {
+  const hash = createHash("sha256").update(body).digest("hex");
+  return `${prefix}/${hash}.${EXTENSIONS[contentType] || "bin"}`;
+}
+
+export function isStorageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export function contentTypeForKey(key: string): string {
+  const extension = key.slice(key.lastIndexOf(".") + 1);
+  return Object.entries(EXTENSIONS).find(([, ext]) => ext === extension)?.[0] || "application/octet-stream";
+}
+
+/**
+ * Stable app URL of an asset; it redirects to (or serves) a fresh signed URL
+ */
+export function assetUrl(key: string): string {
+  return `${ASSET_URL_PREFIX}${key}`;
+}
+
+export function isAssetUrl(url: string): boolean {
+  return url.startsWith(ASSET_URL_PREFIX);
+}
+
+/**
+ * Sniff and store bytes under a content-hash key
+ * @throws Error when the bytes aren't a known image or video format
+ */
+export async function storeMedia(prefix: string, body: Buffer): Promise<StoredObject> {
+  const contentType = sniffMimeType(body);
+  if (!contentType) {
+    throw new Error("Unsupported file format");
+  }
+  return getStorage().put(storageKey(prefix, body, contentType), body, contentType);
+}
+
+/**
+ * Copy generated media (a remote URL or a data URL) into storage, so it outlives
+ * the expiring link the MCP server returned. Returns the asset's stable URL;
+ * URLs that already point at storage are returned unchanged.
+ */
+export async function mirrorMedia(url: string, prefix = "generations"): Promise<string> {
+  if (isAssetUrl(url)) return url;
+
+  let body: Buffer;
+  if (url.startsWith("data:")) {
+    const comma = url.indexOf(",");
+    if (comma === -1 || !url.slice(0, comma).endsWith(";base64")) {
+      throw new Error("Unsupported data URL");
+    }
+    body = Buffer.from(url.slice(comma + 1), "base64");
+  } else if (/^https?:\/\//i.test(url)) {
+    body = await fetchPublicUrl(url, { maxBytes: MAX_MIRROR_BYTES, timeoutMs: MIRROR_TIMEOUT_MS });
+  } else {
+    throw new Error(`Cannot store media from ${url.slice(0, 40)}`);
+  }
+
+  if (body.length > MAX_MIRROR_BYTES) {
+    throw new Error(`Media is too large to store (${body.length} bytes)`);
+  }
+
+  const stored = await storeMedia(prefix, body);
+  return assetUrl(stored.key);
+}
+
+/**
+ * Whether a client-supplied media URL may be copied into storage: data URLs, and
+ * http(s) URLs on the media hosts (MEDIA_MIRROR_HOSTS, comma-separated, subdomains
+ * included). Anything else would let clients make the server fetch arbitrary URLs.
+ */
+export function isMirrorableUrl(url: string): boolean {
+  if (url.startsWith("data:")) return true;
+
+  let hostname: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
+    hostname = parsed.hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return getMediaHosts().some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+function getMediaHosts(): string[] {
+  if (!hasEnv("MEDIA_MIRROR_HOSTS")) return DEFAULT_MEDIA_HOSTS;
+  return process.env.MEDIA_MIRROR_HOSTS!.split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Absolute signed URL for an asset URL or key (relative local URLs are resolved
+ * against baseUrl, e.g. the request's origin), so MCP servers can fetch it
+ */
+export async function signedAssetUrl(
+  urlOrKey: string,
+  baseUrl: string,
+  expiresInSeconds = getSignedUrlTtl()
+): Promise<string> {
+  const key = isAssetUrl(urlOrKey) ? urlOrKey.slice(ASSET_URL_PREFIX.length) : urlOrKey;
+  const signed = await getStorage().getSignedUrl(key, expiresInSeconds);
+  return new URL(signed, baseUrl).toString();
+}
+
+/**
+ * Replace every asset URL in a request payload (tool arguments, chat context) with
+ * an absolute signed URL; MCP servers can't follow the app's sign-in redirect
+ */
+export async function signAssetUrls<T>(value: T, baseUrl: string): Promise<T> {
+  if (typeof value === "string") {
+    return (isAssetUrl(value) ? await signedAssetUrl(value, baseUrl) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map((item) => signAssetUrls(item, baseUrl)))) as T;
+  }
+  if (value && typeof value === "object") {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([name, item]) => [name, await signAssetUrls(item, baseUrl)] as const)
+    );
+    return Object.fromEntries(entries) as T;
+  }
+  return value;
+}
+
+export function getSignedUrlTtl(): number {
+  const value = Number(process.env.STORAGE_SIGNED_URL_TTL_SECONDS);
+  return hasEnv("STORAGE_SIGNED_URL_TTL_SECONDS") && value > 0 ? Math.floor(value) : DEFAULT_SIGNED_URL_TTL_SECONDS;
+}
@@ -0,0 +1,342 @@
+/**
+ * Schema-driven validation of MCP tool arguments
+ *
+ * Each discovered tool's inputSchema (JSON Schema) is compiled once into a zod
+ * validator. Before validation, arguments are coerced from the shapes the UI
+ * and the model tend to produce: UI parameter names (steps -> steps_num),
+ * seed "random" (omitted), numbers as strings, enum values in the wrong case,
+ * objects sent as JSON strings. Unknown properties are rejected.
+ *
+ * Failures come back as structured issues, phrased so the agent can correct
+ * its call and try again.
+ */
+
+import { z } from "zod";
+import type { MCPTool } from "./mcp-client";
+
+interface JSONSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  nullable?: boolean;
+}
+
+export interface ToolArgIssue {
+  path: string; // e.g. "steps_num" or "objects[0].name"; empty for the whole call
+  code: string; // zod issue code, or "unknown_tool"
+  message: string;
+}
+
+export type ToolArgsValidation =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; issues: ToolArgIssue[] };
+
+/**
+ * Thrown by the MCP client when a call's arguments don't match the tool's schema.
+ * Not retryable: the same arguments would fail again.
+ */
+export class ToolArgsValidationError extends Error {
+  readonly code = "invalid_arguments";
+
+  constructor(readonly toolName: string, readonly issues: ToolArgIssue[]) {
+    super(`Invalid arguments for ${toolName}: ${issues.map(formatIssue).join("; ")}`);
+    this.name = "ToolArgsValidationError";
+  }
+}
+
+export function isToolArgsValidationError(error: unknown): error is ToolArgsValidationError {
+  return error instanceof Error && error.name === "ToolArgsValidationError";
+}
+
+// UI parameter names -> tool parameter names (applied only when the tool has the target)
+const PARAM_ALIASES: Record<string, string> = {
+  steps: "steps_num",
+  aspectRatio: "aspect_ratio",
+  model: "model_version",
+  modelVersion: "model_version",
+  negativePrompt: "negative_prompt",
+  numResults: "num_results",
+};
+
+const compiled = new WeakMap<MCPTool, z.ZodTypeAny>();
+
+/**
+ * Coerce and validate a call's arguments against the tool's inputSchema
+ */
+export function validateToolArgs(tool: MCPTool, args: Record<string, unknown>): ToolArgsValidation {
+  const schema = tool.inputSchema as JSONSchema;
+
+  let validator = compiled.get(tool);
+  if (!validator) {
+    validator = compileSchema({ ...schema, type: "object" });
+    compiled.set(tool, validator);
+  }
+
+  const coerced = coerceToolArgs(schema, args || {});
+  const result = validator.safeParse(coerced);
+  if (result.success) {
+    return { ok: true, args: result.data as Record<string, unknown> };
+  }
+
+  return { ok: false, issues: result.error.issues.map((issue) => toToolArgIssue(issue, schema)) };
+}
+
+/**
+ * Validate a call by tool name; unknown tools are an issue when tools were discovered
+ */
+export function validateToolCall(
+  tools: MCPTool[],
+  name: string,
+  args: Record<string, unknown>
+): ToolArgsValidation {
+  const tool = tools.find((candidate) => candidate.name === name);
+  if (!tool) {
+    return tools.length === 0
+      ? { ok: true, args }
+      : {
+          ok: false,
+          issues: [{
+            path: "",
+            code: "unknown_tool",
+            message: `unknown tool "${name}" (available: ${tools.map((t) => t.name).join(", ")})`,
+          }],
+        };
+  }
+  return validateToolArgs(tool, args);
+}
+
+export function formatIssue(issue: ToolArgIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Function response telling the model why its call was rejected
+ */
+export function buildArgsRepairResponse(toolName: string, issues: ToolArgIssue[]): Record<string, unknown> {
+  return {
+    error: "invalid_arguments",
+    tool: toolName,
+    issues,
+    instructions: `Fix the arguments and call ${toolName} again; only use parameters from its schema.`,
+  };
+}
+
+// --- Coercion ---
+
+function coerceToolArgs(schema: JSONSchema, args: Record<string, unknown>): Record<string, unknown> {
+  const properties = schema.properties || {};
+  const renamed: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(args)) {
+    const alias = PARAM_ALIASES[key];
+    const target = alias && !(key in properties) && alias in properties && !(alias in args) ? alias : key;
+    renamed[target] = value;
+  }
+
+  // "random" (or empty) means no seed: let the tool pick one
+  if ("seed" in renamed && (renamed.seed === "" || /^random$/i.test(String(renamed.seed)))) {
+    delete renamed.seed;
+  }
+
+  return coerceValue(schema, renamed) as Record<string, unknown>;
+}
+
+function coerceValue(schema: JSONSchema | undefined, value: unknown): unknown {
+  if (!schema || value === undefined) return value;
+  const types = typesOf(schema);
+
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+      const match = schema.enum.find((option) => typeof option === "string" && option.toLowerCase() === text.toLowerCase());
+      if (match !== undefined) return match;
+    }
+    if (!types.includes("string")) {
+      if ((types.includes("number") || types.includes("integer")) && text !== "" && !isNaN(Number(text))) {
+        return coerceValue(schema, Number(text));
+      }
+      if (types.includes("boolean") && /^(true|false)$/i.test(text)) {
+        return text.toLowerCase() === "true";
+      }
+      if ((types.includes("object") || types.includes("array")) && /^[[{]/.test(text)) {
+        try {
+          return coerceValue(schema, JSON.parse(text));
+        } catch {
+          return value;
+        }
+      }
+    }
+    return value;
+  }
+
+  if (typeof value === "number") {
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value) && schema.enum.includes(String(value))) {
+      return String(value);
+    }
+    if (types.includes("string") && !types.includes("number") && !types.includes("integer")) {
+      return String(value);
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items ? value.map((item) => coerceValue(schema.items, item)) : value;
+  }
+
+  if (value && typeof value === "object" && schema.properties) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      const propertySchema = schema.properties[key];
+      // null for an optional, non-nullable property means "not set"
+      if (entry === null && propertySchema && !allowsNull(propertySchema) && !schema.required?.includes(key)) {
+        continue;
+      }
+      result[key] = coerceValue(propertySchema, entry);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+// --- JSON Schema -> zod ---
+
+function compileSchema(schema: JSONSchema | undefined): z.ZodTypeAny {
+  if (!schema || typeof schema !== "object") return z.unknown();
+
+  if (schema.const !== undefined) {
+    return z.unknown().refine((value) => value === schema.const, {
+      message: `must be ${JSON.stringify(schema.const)}`,
+    });
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const options = schema.enum;
+    const base = z.unknown().refine((value) => options.includes(value), {
+      message: `must be one of ${options.map((option) => JSON.stringify(option)).join(", ")}`,
+    });
+    return schema.nullable ? base.or(z.null()) : base;
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants && variants.length > 0) {
+    return union(variants.map(compileSchema));
+  }
+
+  const types = typesOf(schema);
+  if (types.length === 0) {
+    return schema.properties ? compileType("object", schema) : z.unknown();
+  }
+  const compiledTypes = types.map((type) => compileType(type, schema));
+  if (schema.nullable && !types.includes("null")) compiledTypes.push(z.null());
+  return union(compiledTypes);
+}
+
+function compileType(type: string, schema: JSONSchema): z.ZodTypeAny {
+  switch (type) {
+    case "string": {
+      let result = z.string();
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      if (schema.pattern) {
+        try {
+          result = result.regex(new RegExp(schema.pattern), `must match ${schema.pattern}`);
+        } catch {
+          // Patterns JS can't compile are not enforced
+        }
+      }
+      return result;
+    }
+    case "number":
+    case "integer": {
+      let result = type === "integer" ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) result = result.gte(schema.minimum);
+      if (schema.maximum !== undefined) result = result.lte(schema.maximum);
+      if (schema.exclusiveMinimum !== undefined) result = result.gt(schema.exclusiveMinimum);
+      if (schema.exclusiveMaximum !== undefined) result = result.lt(schema.exclusiveMaximum);
+      return result;
+    }
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array": {
+      let result = z.array(compileSchema(schema.items));
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    }
+    case "object": {
+      if (!schema.properties) return z.record(z.unknown());
+
+      const required = new Set(schema.required || []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const property = compileSchema(propertySchema);
+        shape[key] = required.has(key) ? property : property.optional();
+      }
+
+      const object = z.object(shape);
+      if (schema.additionalProperties === true) return object.passthrough();
+      if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        return object.catchall(compileSchema(schema.additionalProperties));
+      }
+      return object.strict();
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+function union(options: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (options.length === 0) return z.unknown();
+  if (options.length === 1) return options[0];
+  return z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function typesOf(schema: JSONSchema): string[] {
+  if (Array.isArray(schema.type)) return schema.type;
+  return schema.type ? [schema.type] : [];
+}
+
+function allowsNull(schema: JSONSchema): boolean {
+  return !!schema.nullable || typesOf(schema).includes("null") || (schema.enum?.includes(null) ?? false);
+}
+
+function toToolArgIssue(issue: z.ZodIssue, schema: JSONSchema): ToolArgIssue {
+  const path = issue.path.reduce<string>(
+    (acc, segment) => (typeof segment === "number" ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment),
+    ""
+  );
+
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    const allowed = path ? "" : ` (allowed: ${Object.keys(schema.properties || {}).join(", ")})`;
+    return {
+      path,
+      code: issue.code,
+      message: `unknown argument${issue.keys.length > 1 ? "s" : ""} ${issue.keys.map((k) => `"${k}"`).join(", ")}${allowed}`,
+    };
+  }
+  if (issue.code === z.ZodIssueCode.invalid_type && issue.received === "undefined") {
+    return { path, code: issue.code, message: "missing required argument" };
+  }
+  if (issue.code === z.ZodIssueCode.invalid_type) {
+    return { path, code: issue.code, message: `must be of type ${issue.expected}, got ${issue.received}` };
+  }
+  return { path, code: issue.code, message: issue.message };
+}
@@ -0,0 +1,141 @@
+/**
+ * MCP tool execution for the chat API
+ *
+ * Runs the agent's tool calls against MCP and turns raw MCP results (parsed
+ * by lib/mcp-result) into ChatToolResult entries (media URL, reusable image
+ * URL, structured prompt).
+ * An optional emitter receives live events for streaming responses.
+ */
+
+import type { BriaMCPClient } from "./mcp-client";
+import { mediaOutputs, parseMCPResult, type MediaResult } from "./mcp-result";
+import { isCancelledError } from "./cancellation";
+import { isToolArgsValidationError } from "./tool-args";
+import type { ErrorClass, ToolCallAttempt } from "./retry-policy";
+import type { ChatStreamEvent, ChatToolResult } from "@/types/chat-stream";
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type ChatEventEmitter = (event: ChatStreamEvent) => void;
+
+const CONTENT_MODERATION_MESSAGE =
+  "Content Moderation: Your prompt was flagged by our content moderation system. Please try rephrasing your request to be more general or remove any potentially sensitive content.";
+
+/**
+ * Display media, the reusable MCP URL and the structured prompt of a parsed result.
+ * The first output fills the single-media fields; outputs lists all of them.
+ */
+function toChatToolMedia(
+  parsed: MediaResult
+): Pick<ChatToolResult, "mediaUrl" | "imageUrl" | "structuredPrompt" | "mediaType" | "posterUrl" | "duration" | "outputs"> {
+  const outputs = mediaOutputs(parsed);
+  const structuredPrompt = parsed.kind === "error" ? null : parsed.structuredPrompt;
+  const [first] = outputs;
+
+  return {
+    mediaUrl: first?.url || "",
+    imageUrl: first?.remoteUrl || "",
+    structuredPrompt,
+    mediaType: first?.type || "image",
+    posterUrl: first?.posterUrl,
+    duration: first?.duration,
+    outputs: outputs.length > 1 ? outputs : undefined,
+  };
+}
+
+/**
+ * Result for a tool call that was cancelled before or while it ran
+ */
+export function cancelledToolResult(toolCall: ToolCall): ChatToolResult {
+  return { name: toolCall.name, error: "Cancelled", cancelled: true };
+}
+
+/**
+ * Execute a single tool call. Never throws - failures (and cancellation) become error results.
+ */
+export async function executeToolCall(
+  mcpClient: BriaMCPClient,
+  toolCall: ToolCall,
+  callId: string,
+  emit?: ChatEventEmitter,
+  signal?: AbortSignal
+): Promise<ChatToolResult> {
+  emit?.({ type: "tool_call_started", callId, name: toolCall.name, args: toolCall.args });
+  const attempts: ToolCallAttempt[] = [];
+
+  try {
+    console.log(`\n[Tools] ===== Executing MCP tool: ${toolCall.name} =====`);
+    console.log(`[Tools] Tool args:`, JSON.stringify(toolCall.args, null, 2));
+
+    const result = await mcpClient.callTool(toolCall.name, toolCall.args, {
+      onProgress: emit
+        ? (update) => emit({ type: "tool_progress", callId, name: toolCall.name, ...update })
+        : undefined,
+      onAttempt: (attempt) => attempts.push(attempt),
+      signal,
+    });
+    console.log(`[Tools] Tool ${toolCall.name} SUCCESS`);
+    console.log(`[Tools] Raw result:`, JSON.stringify(result).substring(0, 500));
+
+    const parsed = parseMCPResult(result);
+    console.log(`[Tools] Parsed result: ${parsed.kind}`);
+    if (parsed.kind === "error") {
+      throw new Error(parsed.message);
+    }
+
+    const toolResult: ChatToolResult = {
+      name: toolCall.name,
+      result,
+      ...toChatToolMedia(parsed),
+      attempts,
+    };
+
+    emit?.({ type: "tool_result", callId, result: toolResult });
+    return toolResult;
+  } catch (err) {
+    if (isCancelledError(err)) {
+      console.log(`[Tools] Tool ${toolCall.name} cancelled`);
+      const toolResult = cancelledToolResult(toolCall);
+      emit?.({ type: "tool_result", callId, result: toolResult });
+      return toolResult;
+    }
+
+    const details = err as { code?: unknown; errorClass?: ErrorClass; originalError?: unknown };
+    console.error(`\n[Tools] ===== Tool ${toolCall.name} FAILED =====`);
+    console.error(`[Tools] Error message:`, err instanceof Error ? err.message : err);
+    console.error(`[Tools] Original error:`, details?.originalError);
+
+    // Detect and format content moderation errors nicely
+    let errorMessage = err instanceof Error ? err.message : String(err);
+    let isContentModeration = false;
+
+    if (
+      !isToolArgsValidationError(err) &&
+      (details?.errorClass === "moderation" || errorMessage.includes("content moderation") || errorMessage.includes("422"))
+    ) {
+      isContentModeration = true;
+      if (/prompt did not pass content moderation/i.test(errorMessage)) {
+        errorMessage = CONTENT_MODERATION_MESSAGE;
+      }
+    }
+
+    const toolResult: ChatToolResult = {
+      name: toolCall.name,
+      error: errorMessage,
+      isContentModeration,
+      validationIssues: isToolArgsValidationError(err) ? err.issues : undefined,
+      attempts: attempts.length ? attempts : undefined,
+      errorDetails: {
+        code: isToolArgsValidationError(err) ? err.code : details?.code,
+        args: toolCall.args,
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    emit?.({ type: "tool_result", callId, result: toolResult });
+    return toolResult;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Upload records
+ *
+ * Every file a user uploads is recorded with their clerkId and its storage
+ * key (see lib/storage), so uploads can be listed, audited or cleaned up per
+ * user. The same bytes uploaded twice share one stored file.
+ */
+
+import { connectToDatabase } from "./mongodb";
+import Upload from "@/models/Upload";
+
+export interface UploadRecord {
+  clerkId: string;
+  url: string;
+  key: string;
+  filename: string;
+  originalName?: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  referenceId?: string; // See lib/reference-images
+}
+
+export async function recordUpload(upload: UploadRecord): Promise<void> {
+  await connectToDatabase();
+  await Upload.create(upload);
+}
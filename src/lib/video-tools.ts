@@ -0,0 +1,56 @@
+/**
+ * Video tools
+ *
+ * Which of the discovered MCP tools make videos, and which one fits a request.
+ * Tools are recognized by name ("video" in it, like the retry policy's "*video*"
+ * rule), so a server can add video tools without code changes. Used by the
+ * intent router, the agent's instructions, the job queue and the client
+ * (gallery placeholders), so it must stay free of server-only imports.
+ */
+
+import type { MCPTool } from "./mcp-client";
+
+export type VideoTask = "text_to_video" | "image_to_video";
+
+// Known names first, then any video tool whose name hints at the task
+const VIDEO_TOOL_NAMES: Record<VideoTask, string[]> = {
+  text_to_video: ["text_to_video", "generate_video", "video_generation"],
+  image_to_video: ["image_to_video", "video_from_image"],
+};
+
+const TASK_HINTS: Record<VideoTask, (name: string) => boolean> = {
+  text_to_video: (name) => /text|generat|create/i.test(name) && !/image/i.test(name),
+  image_to_video: (name) => /image|animat/i.test(name),
+};
+
+export function isVideoTool(name: string): boolean {
+  return /video/i.test(name);
+}
+
+export function mediaTypeOfTool(name: string): "image" | "video" {
+  return isVideoTool(name) ? "video" : "image";
+}
+
+export function findVideoTools(tools: MCPTool[]): MCPTool[] {
+  return tools.filter((tool) => isVideoTool(tool.name));
+}
+
+/**
+ * The connected tool for a video task, if any
+ */
+export function pickVideoTool(tools: MCPTool[], task: VideoTask): MCPTool | undefined {
+  const videoTools = findVideoTools(tools);
+  for (const name of VIDEO_TOOL_NAMES[task]) {
+    const tool = videoTools.find((candidate) => candidate.name === name);
+    if (tool) return tool;
+  }
+  return videoTools.find((tool) => TASK_HINTS[task](tool.name));
+}
+
+/**
+ * File extension for downloading a gallery item ("png", "mp4" or "webm")
+ */
+export function mediaFileExtension(media: { type: "image" | "video"; url: string }): string {
+  if (media.type === "image") return "png";
+  return /^data:video\/webm|\.webm(\?|#|$)/i.test(media.url) ? "webm" : "mp4";
+}
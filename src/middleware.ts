@@ -1,8 +1,39 @@
-import { clerkMiddleware } from '@clerk/nextjs/server'
+import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
+import { NextResponse } from 'next/server'
 
-// Pass the clerkMiddleware to Next.js as middleware
-export default clerkMiddleware();
+// Generation and per-user data: sign-in required
+const isProtectedApiRoute = createRouteMatcher([
+  '/api/chat(.*)',
+  '/api/mcp-tools(.*)',
+  '/api/upload(.*)',
+  '/api/jobs(.*)',
+  '/api/plans(.*)',
+  '/api/generations(.*)',
+  '/api/sessions(.*)',
+]);
+
+// Diagnostics: open in development, admin-only elsewhere (the role is checked in the route)
+const isTestRoute = createRouteMatcher(['/api/test-(.*)']);
+
+const isProtectedPage = createRouteMatcher(['/dashboard(.*)']);
+
+export default clerkMiddleware(async (auth, req) => {
+  const requiresSignIn =
+    isProtectedApiRoute(req) || (isTestRoute(req) && process.env.NODE_ENV !== 'development');
+
+  if (requiresSignIn) {
+    const { userId } = await auth();
+    if (!userId) {
+      // JSON for API clients instead of a sign-in redirect
+      return NextResponse.json({ error: 'Sign in to continue', code: 'unauthorized' }, { status: 401 });
+    }
+  }
+
+  if (isProtectedPage(req)) {
+    await auth.protect();
+  }
+});
 
 export const config = {
   matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
-}; 
\ No newline at end of file
+};
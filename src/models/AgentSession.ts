@@ -0,0 +1,29 @@
+import mongoose, { Schema, models } from 'mongoose';
+
+const agentSessionSchema = new Schema(
+  {
+    // "<clerkId|anonymous>:<sessionId>"
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Gemini conversation history (Content[])
+    history: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    // MongoDB TTL monitor removes the document once this date passes
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const AgentSession = models.AgentSession || mongoose.model('AgentSession', agentSessionSchema);
+export default AgentSession;
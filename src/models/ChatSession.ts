@@ -0,0 +1,42 @@
+import mongoose, { Schema, models } from 'mongoose';
+
+const chatSessionSchema = new Schema(
+  {
+    clerkId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      default: 'New chat',
+      trim: true,
+      maxlength: [120, 'Title must be at most 120 characters'],
+    },
+    // UI chat thread (ChatMessage[])
+    messages: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    // Gemini conversation history (Content[])
+    chatHistory: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    // Gallery item shown on the canvas when the session was last saved
+    activeItemId: {
+      type: String,
+    },
+    params: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+chatSessionSchema.index({ clerkId: 1, updatedAt: -1 });
+
+const ChatSession = models.ChatSession || mongoose.model('ChatSession', chatSessionSchema);
+export default ChatSession;
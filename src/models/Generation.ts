@@ -0,0 +1,95 @@
+import mongoose, { Schema, models } from 'mongoose';
+
+const referenceImageSchema = new Schema(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['subject', 'style', 'composition'],
+      default: 'subject',
+    },
+    weight: {
+      type: Number,
+      min: 0,
+      max: 1,
+    },
+  },
+  { _id: false }
+);
+
+const generationParamsSchema = new Schema(
+  {
+    prompt: {
+      type: String,
+      default: '',
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    referenceImageUrl: {
+      type: String,
+    },
+    referenceImages: {
+      type: [referenceImageSchema],
+      default: undefined,
+    },
+    aiOperation: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+const generationSchema = new Schema(
+  {
+    clerkId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    // Client-side gallery item id (e.g. "gallery-1700000000000")
+    itemId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['image', 'video'],
+      default: 'image',
+    },
+    url: {
+      type: String,
+      required: [true, 'Media URL is required'],
+    },
+    imageUrl: {
+      type: String,
+    },
+    // Videos: still frame and length in seconds
+    posterUrl: {
+      type: String,
+    },
+    duration: {
+      type: Number,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    generationParams: {
+      type: generationParamsSchema,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+generationSchema.index({ clerkId: 1, itemId: 1 }, { unique: true });
+generationSchema.index({ clerkId: 1, createdAt: -1, _id: -1 });
+
+const Generation = models.Generation || mongoose.model('Generation', generationSchema);
+export default Generation;
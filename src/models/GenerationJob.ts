@@ -0,0 +1,63 @@
+import mongoose, { Schema, models } from 'mongoose';
+
+const generationJobSchema = new Schema(
+  {
+    // Public job id (UUID)
+    jobId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    clerkId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+      default: 'queued',
+    },
+    toolName: {
+      type: String,
+      required: true,
+    },
+    args: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    mediaType: {
+      type: String,
+      enum: ['image', 'video'],
+      default: 'image',
+    },
+    label: {
+      type: String,
+    },
+    progress: {
+      type: Schema.Types.Mixed,
+    },
+    // ChatToolResult
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+generationJobSchema.index({ clerkId: 1, status: 1, createdAt: -1 });
+
+const GenerationJobModel = models.GenerationJob || mongoose.model('GenerationJob', generationJobSchema);
+export default GenerationJobModel;
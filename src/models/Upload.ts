@@ -0,0 +1,54 @@
+import mongoose, { Schema, models } from 'mongoose';
+
+const uploadSchema = new Schema(
+  {
+    clerkId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    // Stable URL of the stored file (e.g. "/api/assets/uploads/<sha256>.png")
+    url: {
+      type: String,
+      required: [true, 'Upload URL is required'],
+    },
+    // Storage key (content hash); shared by identical uploads
+    key: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    filename: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+    },
+    mimeType: {
+      type: String,
+    },
+    size: {
+      type: Number,
+    },
+    // Of the stored (normalized) image
+    width: {
+      type: Number,
+    },
+    height: {
+      type: Number,
+    },
+    // What tools receive as the image argument: an MCP reference ID or the asset URL
+    referenceId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+uploadSchema.index({ clerkId: 1, createdAt: -1 });
+
+const Upload = models.Upload || mongoose.model('Upload', uploadSchema);
+export default Upload;
@@ -23,6 +23,22 @@ const userSchema = new Schema(
       type: String,
       default: '',
     },
+    // Admins can reach the diagnostics routes outside development (see lib/auth)
+    role: {
+      type: String,
+      enum: ['admin', 'member'],
+      default: 'member',
+    },
+    // Overrides DAILY_GENERATION_LIMIT for this user (see lib/quotas)
+    dailyGenerationLimit: {
+      type: Number,
+      min: 0,
+    },
+    // Generations started today (UTC); reset when the day changes
+    generationQuota: {
+      day: { type: String, default: '' }, // YYYY-MM-DD
+      used: { type: Number, default: 0 },
+    },
   },
   {
     timestamps: true,
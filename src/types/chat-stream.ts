@@ -0,0 +1,106 @@
+// /api/chat streaming protocol (Server-Sent Events)
+
+import type { AgentResponse } from "@/lib/gemini-agent";
+import type { ToolArgIssue } from "@/lib/tool-args";
+import type { MediaOutput } from "@/lib/mcp-result";
+import type { ToolCallAttempt } from "@/lib/retry-policy";
+
+export type ExecutionPlan = NonNullable<AgentResponse["execution_plan"]>;
+export type ExecutionPlanStep = NonNullable<ExecutionPlan["steps"]>[number];
+
+export type PlanStepStatus = "pending" | "running" | "succeeded" | "failed" | "skipped" | "cancelled";
+
+export interface PlanStepState {
+  step: number;
+  tool: string;
+  description: string;
+  status: PlanStepStatus;
+  args: Record<string, unknown>; // After placeholder substitution once the step has run
+  result?: ChatToolResult;
+  error?: string;
+}
+
+// Server-side run of an execution plan (steps after the one the agent executed)
+export interface PlanRunState {
+  id: string;
+  planType: ExecutionPlan["plan_type"];
+  description: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  steps: PlanStepState[];
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ChatToolResult {
+  name: string;
+  result?: unknown;
+  mediaUrl?: string;
+  imageUrl?: string; // MCP-provided URL for reuse in later tool calls
+  structuredPrompt?: Record<string, unknown> | null;
+  mediaType?: "image" | "video";
+  posterUrl?: string; // Video: still frame of mediaUrl
+  duration?: number; // Video: length of mediaUrl in seconds, when known
+  outputs?: MediaOutput[]; // Every output when the call produced more than one (the first is mediaUrl)
+  error?: string;
+  isContentModeration?: boolean;
+  quotaExceeded?: boolean; // Not run: the user's daily generation quota is used up
+  validationIssues?: ToolArgIssue[]; // Args rejected by the tool's schema before calling MCP
+  cancelled?: boolean; // Stopped by the user; error is "Cancelled"
+  attempts?: ToolCallAttempt[]; // MCP call attempts, with the error class and retry delay of failed ones
+  itemId?: string; // Gallery item id when the output was already saved server-side
+  jobId?: string; // Generation job that produced this result
+  pending?: boolean; // Still rendering (videos): the job was left running, follow jobId for the output
+  errorDetails?: {
+    code?: unknown;
+    args: Record<string, unknown>;
+    timestamp: string;
+  };
+}
+
+// Intent router (see lib/intent-router.ts): which priority rule matched and why
+export type IntentKind =
+  | "explicit_operation" // 1. ai_operation from the UI
+  | "nl_operation" // 2. Operation keywords about the current image
+  | "masked_edit" // 3. Mask drawn on the canvas
+  | "video_generation" // 4. Video mode, a video asked for, or the current media is a video
+  | "reference_generation" // 5. Uploaded reference image
+  | "refinement" // 6. Refine the current generation
+  | "text_to_image"; // 7. Default
+
+export interface IntentTraceStep {
+  priority: number;
+  intent: IntentKind;
+  matched: boolean;
+  reason: string;
+}
+
+export interface IntentDecision {
+  priority: number;
+  intent: IntentKind;
+  route: "direct" | "agent"; // direct: sent to MCP without an LLM round trip
+  tool?: string; // Tool called directly, or suggested to the agent
+  reason: string;
+  trace: IntentTraceStep[]; // Rules evaluated in priority order, up to the match
+}
+
+// Final payload - identical to the non-streaming JSON response
+export type ChatResponse = AgentResponse & {
+  intent?: IntentDecision;
+  toolResults?: ChatToolResult[];
+  planRun?: PlanRunState;
+  cancelled?: boolean; // The turn was cancelled; results cover what finished before that
+};
+
+export type ChatStreamEvent =
+  | { type: "text_delta"; delta: string }
+  | { type: "intent_decision"; decision: IntentDecision }
+  | { type: "job_queued"; callId: string; jobId: string; name: string; mediaType: "image" | "video" }
+  | { type: "tool_call_started"; callId: string; name: string; args: Record<string, unknown> }
+  | { type: "tool_progress"; callId: string; name: string; message: string; progress?: number; total?: number }
+  | { type: "tool_result"; callId: string; result: ChatToolResult }
+  | { type: "execution_plan"; plan: ExecutionPlan }
+  | { type: "plan_step"; runId: string; step: PlanStepState }
+  | { type: "error"; message: string; callId?: string }
+  | { type: "done"; response: ChatResponse };
+
+export type ChatStreamEventType = ChatStreamEvent["type"];
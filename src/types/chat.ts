@@ -1,5 +1,8 @@
 // Chat message types
 
+import type { GenerationParams } from "@/hooks/useBriaGeneration";
+import type { IntentDecision } from "@/types/chat-stream";
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
@@ -8,5 +11,24 @@ export interface ChatMessage {
   status?: "pending" | "updating" | "complete" | "error";
   agentStatus?: string; // Live updates like "Thinking of a plan", "Calling text-to-image", etc.
   isError?: boolean; // True if this is an error message
+  intent?: IntentDecision; // How the intent router classified the request this message answers
+}
+
+
+// Conversation sessions ("recent chats")
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  preview: string;
+  updatedAt: Date;
 }
 
+export interface ChatSessionState {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  activeItemId?: string;
+  params?: GenerationParams;
+  updatedAt: Date;
+}
@@ -20,31 +20,28 @@ export interface OperationMetadata {
   displayName: string;
   description: string;
   isMultiStep: boolean;
-  mcpToolName?: string;
   icon?: string;
 }
 
+// MCP tools and arguments for each operation live in lib/operations.ts
 export const OPERATION_METADATA: Record<AIOperation, OperationMetadata> = {
   "remove-background": {
     name: "remove-background",
     displayName: "Remove background",
     description: "Remove the background from the image",
     isMultiStep: false,
-    mcpToolName: "remove_background",
   },
   "blur-background": {
     name: "blur-background",
     displayName: "Blur background",
     description: "Blur the background of the image",
     isMultiStep: false,
-    mcpToolName: "blur_background",
   },
   "enhance-image": {
     name: "enhance-image",
     displayName: "Enhance image",
     description: "Enhance the quality and details of the image",
     isMultiStep: false,
-    mcpToolName: "enhance_image",
   },
   "replace-background": {
     name: "replace-background",
@@ -57,28 +54,24 @@ export const OPERATION_METADATA: Record<AIOperation, OperationMetadata> = {
     displayName: "Generative fill",
     description: "Fill masked areas with AI-generated content",
     isMultiStep: true,
-    mcpToolName: "generative_fill",
   },
   "object-eraser": {
     name: "object-eraser",
     displayName: "Object eraser",
     description: "Erase objects from the image",
     isMultiStep: true,
-    mcpToolName: "object_eraser",
   },
   "increase-resolution": {
     name: "increase-resolution",
     displayName: "Increase resolution",
     description: "Upscale the image resolution",
     isMultiStep: true,
-    mcpToolName: "increase_resolution",
   },
   "expand": {
     name: "expand",
     displayName: "Expand",
     description: "Expand the image",
     isMultiStep: true,
-    mcpToolName: "expand",
   },
   "inpainting": {
     name: "inpainting",
@@ -0,0 +1,33 @@
+// Generation jobs: long-running MCP tool calls tracked server-side
+
+import type { ChatToolResult } from "./chat-stream";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export interface GenerationJob {
+  id: string;
+  clerkId: string; // Owner; only they can see or cancel the job
+  status: JobStatus;
+  toolName: string;
+  args: Record<string, unknown>;
+  mediaType: "image" | "video";
+  label?: string; // Short description shown while the job runs
+  progress?: {
+    message: string;
+    progress?: number;
+    total?: number;
+  };
+  result?: ChatToolResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Events on GET /api/jobs/:id/stream
+export type JobStreamEvent =
+  | { type: "job"; job: GenerationJob }
+  | { type: "error"; message: string };
@@ -0,0 +1,13 @@
+// Reference images for generation (prompt box → context.reference_image → tool params)
+
+export const REFERENCE_ROLES = ["subject", "style", "composition"] as const;
+export type ReferenceRole = (typeof REFERENCE_ROLES)[number];
+
+export const DEFAULT_REFERENCE_WEIGHT = 0.7;
+
+// One entry of context.reference_image, in the user's order
+export interface ContextReferenceImage {
+  image: string; // MCP reference ID or image URL (see lib/reference-images)
+  role: ReferenceRole;
+  weight: number; // 0..1, how strongly the reference steers the result
+}